@@ -5,16 +5,17 @@
  * This is the entry point for the Electron desktop application.
  */
 
-const { app, BrowserWindow, Menu } = require('electron');
+const { app, BrowserWindow, Menu, ipcMain, dialog } = require('electron');
 const path = require('path');
+const fs = require('fs/promises');
+const { watch, mkdirSync, openSync, writeFileSync, fsyncSync, closeSync, renameSync } = require('fs');
 
 // Check if running in development mode
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
-let mainWindow;
-
+// Every window opens the same database; see the db:write handler
 function createWindow() {
-    mainWindow = new BrowserWindow({
+    const mainWindow = new BrowserWindow({
         width: 1200,
         height: 800,
         minWidth: 900,
@@ -24,6 +25,7 @@ function createWindow() {
         webPreferences: {
             nodeIntegration: false,
             contextIsolation: true,
+            preload: path.join(__dirname, 'preload.cjs'),
         },
         // Modern window styling
         frame: true,
@@ -46,11 +48,6 @@ function createWindow() {
     mainWindow.once('ready-to-show', () => {
         mainWindow.show();
     });
-
-    // Handle window closed
-    mainWindow.on('closed', () => {
-        mainWindow = null;
-    });
 }
 
 // Create minimal menu (optional, can customize)
@@ -59,14 +56,29 @@ function createMenu() {
         {
             label: 'File',
             submenu: [
+                {
+                    label: 'New Window',
+                    accelerator: 'CmdOrCtrl+Shift+N',
+                    click: () => createWindow()
+                },
+                { type: 'separator' },
                 { role: 'quit' }
             ]
         },
         {
             label: 'Edit',
             submenu: [
-                { role: 'undo' },
-                { role: 'redo' },
+                // The renderer undoes task and project changes, or typing in a text field
+                {
+                    label: 'Undo',
+                    accelerator: 'CmdOrCtrl+Z',
+                    click: (_item, window) => window?.webContents.send('edit:command', 'undo')
+                },
+                {
+                    label: 'Redo',
+                    accelerator: 'CmdOrCtrl+Shift+Z',
+                    click: (_item, window) => window?.webContents.send('edit:command', 'redo')
+                },
                 { type: 'separator' },
                 { role: 'cut' },
                 { role: 'copy' },
@@ -101,8 +113,282 @@ function createMenu() {
     Menu.setApplicationMenu(menu);
 }
 
+// Workspace whose files sit directly in userData, where they were before workspaces
+const DEFAULT_WORKSPACE = 'default';
+
+// Folder of a workspace's database and snapshots; the id comes from the renderer
+function getWorkspaceDir(workspace) {
+    if (workspace === DEFAULT_WORKSPACE) {
+        return app.getPath('userData');
+    }
+    if (typeof workspace !== 'string' || !/^[\w-]+$/.test(workspace)) {
+        throw new Error(`Invalid workspace: ${workspace}`);
+    }
+    return path.join(app.getPath('userData'), 'workspaces', workspace);
+}
+
+// SQLite database file, owned by the main process
+function getDatabasePath(workspace) {
+    return path.join(getWorkspaceDir(workspace), 'luminanote.sqlite');
+}
+
+// Folder holding rolling database snapshots
+function getSnapshotsDir(workspace) {
+    return path.join(getWorkspaceDir(workspace), 'snapshots');
+}
+
+// Snapshot ids come from the renderer; only allow plain names inside the folder
+function getSnapshotPath(workspace, id) {
+    if (!/^[\w-]+$/.test(id)) {
+        throw new Error(`Invalid snapshot id: ${id}`);
+    }
+    return path.join(getSnapshotsDir(workspace), `${id}.sqlite`);
+}
+
+// Folders picked in the sync folder dialog, kept across restarts
+function getSyncFoldersPath() {
+    return path.join(app.getPath('userData'), 'sync-folders.json');
+}
+
+// Loaded on first use; a promise so handlers running at once share one read
+let chosenSyncFolders = null;
+
+function getChosenSyncFolders() {
+    chosenSyncFolders ??= fs.readFile(getSyncFoldersPath(), 'utf8')
+        .then(text => new Set(JSON.parse(text)))
+        .catch((error) => {
+            if (error.code !== 'ENOENT') console.warn('[Sync folder] Could not read the chosen folders:', error);
+            return new Set();
+        });
+    return chosenSyncFolders;
+}
+
+async function addChosenSyncFolder(folder) {
+    const folders = await getChosenSyncFolders();
+    if (folders.has(folder)) return;
+    folders.add(folder);
+    await writeFileAtomic(getSyncFoldersPath(), JSON.stringify([...folders]));
+}
+
+// Folder paths come from the renderer; only allow ones the user picked in the dialog
+async function requireChosenSyncFolder(folder) {
+    if (typeof folder !== 'string' || !(await getChosenSyncFolders()).has(folder)) {
+        throw new Error(`Choose the sync folder again; it wasn't picked in this app: ${folder}`);
+    }
+    return folder;
+}
+
+// Change log of one device in a chosen sync folder; the device id comes from the renderer
+function getSyncLogPath(folder, deviceId) {
+    if (!/^[\w-]+$/.test(deviceId)) {
+        throw new Error(`Invalid device id: ${deviceId}`);
+    }
+    return path.join(folder, `luminanote-${deviceId}.jsonl`);
+}
+
+// Sync folder watchers, by the id of the window that asked for them
+const syncFolderWatchers = new Map();
+
+function stopWatchingSyncFolder(webContentsId) {
+    syncFolderWatchers.get(webContentsId)?.close();
+    syncFolderWatchers.delete(webContentsId);
+}
+
+/**
+ * Write a file atomically: write to a temp file, flush it to disk,
+ * then rename it over the original. A crash mid-write leaves either
+ * the old file or the new one, never a half-written file.
+ */
+async function writeFileAtomic(filePath, data) {
+    const tempPath = `${filePath}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+        await handle.writeFile(data);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+}
+
+/**
+ * writeFileAtomic for callers that can't wait. Uses a temp file of its
+ * own, so it can't mix with an asynchronous write still in progress.
+ */
+function writeFileAtomicSync(filePath, data) {
+    const tempPath = `${filePath}.sync.tmp`;
+    const fd = openSync(tempPath, 'w');
+    try {
+        writeFileSync(fd, data);
+        fsyncSync(fd);
+    } finally {
+        closeSync(fd);
+    }
+    renameSync(tempPath, filePath);
+}
+
+// Let the other windows pick up a change to a workspace's database file
+function announceDatabaseWrite(sender, workspace) {
+    for (const window of BrowserWindow.getAllWindows()) {
+        if (window.webContents !== sender) {
+            window.webContents.send('db:changed', workspace);
+        }
+    }
+}
+
+function registerIpcHandlers() {
+    // Serve the sql.js WebAssembly binary from disk so the database works offline
+    ipcMain.handle('sqljs:load-wasm', async () => {
+        const wasmPath = require.resolve('sql.js/dist/sql-wasm.wasm');
+        return fs.readFile(wasmPath);
+    });
+
+    // Database file access for the renderer's file storage backend
+    ipcMain.handle('db:read', async (_event, workspace) => {
+        try {
+            return await fs.readFile(getDatabasePath(workspace));
+        } catch (error) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    });
+
+    ipcMain.handle('db:write', async (event, workspace, data) => {
+        const databasePath = getDatabasePath(workspace);
+        await fs.mkdir(path.dirname(databasePath), { recursive: true });
+        await writeFileAtomic(databasePath, Buffer.from(data));
+        announceDatabaseWrite(event.sender, workspace);
+    });
+
+    // Blocking write for a window that is closing and can't wait for a reply
+    ipcMain.on('db:write-sync', (event, workspace, data) => {
+        try {
+            const databasePath = getDatabasePath(workspace);
+            mkdirSync(path.dirname(databasePath), { recursive: true });
+            writeFileAtomicSync(databasePath, Buffer.from(data));
+            announceDatabaseWrite(event.sender, workspace);
+            event.returnValue = true;
+        } catch (error) {
+            console.error('[Database] Failed to write the database file:', error);
+            event.returnValue = false;
+        }
+    });
+
+    ipcMain.handle('db:delete', async (_event, workspace) => {
+        await fs.rm(getDatabasePath(workspace), { force: true });
+    });
+
+    ipcMain.handle('workspace:delete', async (_event, workspace) => {
+        if (workspace === DEFAULT_WORKSPACE) {
+            throw new Error('The default workspace cannot be deleted');
+        }
+        await fs.rm(getWorkspaceDir(workspace), { recursive: true, force: true });
+    });
+
+    // Snapshot files used by the backup center
+    ipcMain.handle('snapshots:list', async (_event, workspace) => {
+        let names;
+        try {
+            names = await fs.readdir(getSnapshotsDir(workspace));
+        } catch (error) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const snapshots = [];
+        for (const name of names.filter(n => n.endsWith('.sqlite'))) {
+            const stats = await fs.stat(path.join(getSnapshotsDir(workspace), name));
+            snapshots.push({ id: name.replace(/\.sqlite$/, ''), size: stats.size });
+        }
+        return snapshots;
+    });
+
+    ipcMain.handle('snapshots:write', async (_event, workspace, id, data) => {
+        await fs.mkdir(getSnapshotsDir(workspace), { recursive: true });
+        await writeFileAtomic(getSnapshotPath(workspace, id), Buffer.from(data));
+    });
+
+    ipcMain.handle('snapshots:read', async (_event, workspace, id) => {
+        try {
+            return await fs.readFile(getSnapshotPath(workspace, id));
+        } catch (error) {
+            if (error.code === 'ENOENT') return null;
+            throw error;
+        }
+    });
+
+    ipcMain.handle('snapshots:delete', async (_event, workspace, id) => {
+        await fs.rm(getSnapshotPath(workspace, id), { force: true });
+    });
+
+    // Folder sync: each device appends to its own change log in the folder
+    ipcMain.handle('syncFolder:choose', async (event) => {
+        const result = await dialog.showOpenDialog(BrowserWindow.fromWebContents(event.sender), {
+            title: 'Choose a sync folder',
+            properties: ['openDirectory', 'createDirectory'],
+        });
+        if (result.canceled) return null;
+
+        const folder = result.filePaths[0];
+        await addChosenSyncFolder(folder);
+        return folder;
+    });
+
+    ipcMain.handle('syncFolder:list-logs', async (_event, folder) => {
+        const names = await fs.readdir(await requireChosenSyncFolder(folder));
+        const logs = [];
+        for (const name of names) {
+            const match = /^luminanote-([\w-]+)\.jsonl$/.exec(name);
+            if (!match) continue;
+            const stats = await fs.stat(path.join(folder, name));
+            logs.push({ deviceId: match[1], size: stats.size });
+        }
+        return logs;
+    });
+
+    // Read whole lines from a byte offset; a line still being written is left for next time
+    ipcMain.handle('syncFolder:read-log', async (_event, folder, deviceId, offset) => {
+        const logPath = getSyncLogPath(await requireChosenSyncFolder(folder), deviceId);
+        const handle = await fs.open(logPath, 'r');
+        try {
+            const { size } = await handle.stat();
+            const data = Buffer.alloc(Math.max(size - offset, 0));
+            await handle.read(data, 0, data.length, offset);
+            const end = data.lastIndexOf(0x0a) + 1;
+            return { text: data.subarray(0, end).toString('utf8'), offset: offset + end };
+        } finally {
+            await handle.close();
+        }
+    });
+
+    ipcMain.handle('syncFolder:append-log', async (_event, folder, deviceId, text) => {
+        const logPath = getSyncLogPath(await requireChosenSyncFolder(folder), deviceId);
+        await fs.appendFile(logPath, text, 'utf8');
+    });
+
+    // Tell the window when files in the folder change, at most once a second
+    ipcMain.handle('syncFolder:watch', async (event, folder) => {
+        const sender = event.sender;
+        if (folder) await requireChosenSyncFolder(folder);
+        stopWatchingSyncFolder(sender.id);
+        if (!folder) return;
+
+        let timer = null;
+        const watcher = watch(folder, () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                if (!sender.isDestroyed()) sender.send('syncFolder:changed');
+            }, 1000);
+        });
+        watcher.on('error', (error) => console.warn('[Sync folder] Watch failed:', error));
+        syncFolderWatchers.set(sender.id, watcher);
+        sender.once('destroyed', () => stopWatchingSyncFolder(sender.id));
+    });
+}
+
 // App lifecycle events
 app.whenReady().then(() => {
+    registerIpcHandlers();
     createMenu();
     createWindow();
 
@@ -2,13 +2,44 @@
  * @fileoverview Electron Preload Script
  * 
  * Exposes safe APIs to the renderer process.
- * Currently minimal, but can be extended for native features.
+ * Everything that needs Node.js or the file system goes through IPC
+ * handlers registered in main.cjs.
  */
 
-const { contextBridge } = require('electron');
+const { contextBridge, ipcRenderer } = require('electron');
 
 // Expose safe APIs to the renderer
 contextBridge.exposeInMainWorld('electronAPI', {
     platform: process.platform,
     isElectron: true,
+    loadSqlWasm: () => ipcRenderer.invoke('sqljs:load-wasm'),
+    readDatabase: (workspace) => ipcRenderer.invoke('db:read', workspace),
+    writeDatabase: (workspace, data) => ipcRenderer.invoke('db:write', workspace, data),
+    writeDatabaseSync: (workspace, data) => ipcRenderer.sendSync('db:write-sync', workspace, data),
+    deleteDatabase: (workspace) => ipcRenderer.invoke('db:delete', workspace),
+    listSnapshots: (workspace) => ipcRenderer.invoke('snapshots:list', workspace),
+    writeSnapshot: (workspace, id, data) => ipcRenderer.invoke('snapshots:write', workspace, id, data),
+    readSnapshot: (workspace, id) => ipcRenderer.invoke('snapshots:read', workspace, id),
+    deleteSnapshot: (workspace, id) => ipcRenderer.invoke('snapshots:delete', workspace, id),
+    deleteWorkspace: (workspace) => ipcRenderer.invoke('workspace:delete', workspace),
+    chooseSyncFolder: () => ipcRenderer.invoke('syncFolder:choose'),
+    listSyncLogs: (folder) => ipcRenderer.invoke('syncFolder:list-logs', folder),
+    readSyncLog: (folder, deviceId, offset) => ipcRenderer.invoke('syncFolder:read-log', folder, deviceId, offset),
+    appendSyncLog: (folder, deviceId, text) => ipcRenderer.invoke('syncFolder:append-log', folder, deviceId, text),
+    watchSyncFolder: (folder) => ipcRenderer.invoke('syncFolder:watch', folder),
+    onSyncFolderChanged: (callback) => {
+        const listener = () => callback();
+        ipcRenderer.on('syncFolder:changed', listener);
+        return () => ipcRenderer.removeListener('syncFolder:changed', listener);
+    },
+    onDatabaseChanged: (callback) => {
+        const listener = (_event, workspace) => callback(workspace);
+        ipcRenderer.on('db:changed', listener);
+        return () => ipcRenderer.removeListener('db:changed', listener);
+    },
+    onEditCommand: (callback) => {
+        const listener = (_event, command) => callback(command);
+        ipcRenderer.on('edit:command', listener);
+        return () => ipcRenderer.removeListener('edit:command', listener);
+    },
 });
@@ -1,13 +1,28 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Layout, Sidebar, SplashScreen } from './components/layout';
-import { DashboardPage, TasksPage, ProjectsPage, FocusPage, CalendarPage, WheelPage } from './pages';
+import { Layout, Sidebar, SplashScreen, DatabaseErrorScreen, UnlockScreen, RecoveryScreen } from './components/layout';
+import { DashboardPage, TasksPage, ProjectsPage, FocusPage, CalendarPage, WheelPage, ActivityPage, BackupPage, TrashPage, SettingsPage } from './pages';
+import { useDatabase } from './hooks/useDatabase';
+import { useToast } from './hooks/useToast';
+import { useUndoShortcuts } from './hooks/useHistory';
+import { useSyncEngine } from './hooks/useSync';
 import type { NavItem } from './types';
 
 function App() {
   const [activeNav, setActiveNav] = useState<NavItem>('dashboard');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [showSplash, setShowSplash] = useState(true);
+  const { isError, error, isLocked, recovery, storageWarning } = useDatabase();
+  const { showToast } = useToast();
+  useUndoShortcuts();
+  useSyncEngine();
+
+  // Warn once when browser storage is close to full
+  useEffect(() => {
+    if (storageWarning) {
+      showToast(storageWarning, 'error');
+    }
+  }, [storageWarning, showToast]);
 
   const renderPage = () => {
     switch (activeNav) {
@@ -23,6 +38,14 @@ function App() {
         return <CalendarPage />;
       case 'wheel':
         return <WheelPage />;
+      case 'activity':
+        return <ActivityPage />;
+      case 'backup':
+        return <BackupPage />;
+      case 'trash':
+        return <TrashPage />;
+      case 'settings':
+        return <SettingsPage />;
       default:
         return <DashboardPage />;
     }
@@ -37,7 +60,13 @@ function App() {
         )}
       </AnimatePresence>
 
-      {!showSplash && (
+      {!showSplash && isError && <DatabaseErrorScreen error={error} />}
+
+      {!showSplash && !isError && isLocked && <UnlockScreen />}
+
+      {!showSplash && !isError && recovery && <RecoveryScreen />}
+
+      {!showSplash && !isError && !isLocked && !recovery && (
         <Layout
           sidebar={
             <Sidebar
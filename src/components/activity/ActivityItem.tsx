@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Activity Item Component
+ *
+ * One line of the activity log, e.g. "Moved from Today to Backlog".
+ * Used by the task history panel and the Activity page.
+ *
+ * @module components/activity/ActivityItem
+ */
+
+import { Plus, Pencil, CheckCircle2, RotateCcw, Trash2, Undo2 } from 'lucide-react';
+import type { ActivityEvent, ActivityType } from '../../types';
+
+interface ActivityItemProps {
+    event: ActivityEvent;
+    /** Include the task title or project name */
+    showSubject?: boolean;
+    /** Show the date as well as the time */
+    showDate?: boolean;
+    /** Project names by ID, to describe project changes on tasks */
+    projectNames?: Map<string, string>;
+}
+
+const typeIcons: Record<ActivityType, typeof Plus> = {
+    created: Plus,
+    updated: Pencil,
+    completed: CheckCircle2,
+    reopened: RotateCcw,
+    deleted: Trash2,
+    restored: Undo2,
+};
+
+const typeStyles: Record<ActivityType, string> = {
+    created: 'text-zen-accent bg-zen-accent/10',
+    updated: 'text-zen-text-secondary bg-zen-surface',
+    completed: 'text-zen-sage bg-zen-sage/10',
+    reopened: 'text-priority-medium bg-priority-medium/10',
+    deleted: 'text-rose-500 bg-rose-500/10',
+    restored: 'text-zen-accent bg-zen-accent/10',
+};
+
+const typeLabels: Record<ActivityType, string> = {
+    created: 'Created',
+    updated: 'Changed',
+    completed: 'Completed',
+    reopened: 'Reopened',
+    deleted: 'Moved to trash',
+    restored: 'Restored',
+};
+
+/** How logged field names are shown */
+const fieldLabels: Record<string, string> = {
+    projectId: 'project',
+    dueDate: 'due date',
+    dueTime: 'due time',
+};
+
+const categoryLabels: Record<string, string> = {
+    today: 'Today',
+    week: 'This Week',
+    backlog: 'Backlog',
+};
+
+/**
+ * Turn a logged value back into something readable.
+ */
+function formatValue(field: string, value: string | undefined, projectNames?: Map<string, string>): string {
+    if (value === undefined) return 'none';
+
+    switch (field) {
+        case 'category':
+            return categoryLabels[value] ?? value;
+        case 'projectId':
+            return projectNames?.get(value) ?? 'a deleted project';
+        case 'tags':
+            try {
+                const tags = JSON.parse(value) as string[];
+                return tags.length > 0 ? tags.join(', ') : 'none';
+            } catch {
+                return value;
+            }
+        default:
+            return value;
+    }
+}
+
+/**
+ * Describe an activity entry in a short sentence.
+ */
+function describeActivity(event: ActivityEvent, projectNames?: Map<string, string>): string {
+    const { field } = event;
+    if (event.type !== 'updated' || !field) return typeLabels[event.type];
+
+    const from = formatValue(field, event.oldValue, projectNames);
+    const to = formatValue(field, event.newValue, projectNames);
+
+    if (field === 'category') return `Moved from ${from} to ${to}`;
+    if (field === 'title' || field === 'name') return `Renamed from "${from}"`;
+    if (field === 'description') return 'Changed the description';
+    if (field === 'isRecurring') return event.newValue ? 'Made daily recurring' : 'Stopped recurring daily';
+
+    const label = fieldLabels[field] ?? field;
+    if (event.oldValue === undefined) return `Set ${label} to ${to}`;
+    if (event.newValue === undefined) return `Cleared ${label}`;
+    return `Changed ${label} from ${from} to ${to}`;
+}
+
+export function ActivityItem({ event, showSubject = false, showDate = false, projectNames }: ActivityItemProps) {
+    const Icon = typeIcons[event.type];
+    const date = new Date(event.createdAt);
+    const time = showDate
+        ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+        : date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <li className="flex items-start gap-3 py-2">
+            <span className={`p-1.5 rounded-full shrink-0 ${typeStyles[event.type]}`}>
+                <Icon size={12} />
+            </span>
+            <div className="flex-1 min-w-0">
+                {showSubject && (
+                    <p className="text-sm text-zen-text truncate">
+                        {event.subject}
+                        {event.entity === 'project' && <span className="text-zen-text-muted"> · project</span>}
+                    </p>
+                )}
+                <p className={showSubject ? 'text-xs text-zen-text-secondary' : 'text-sm text-zen-text'}>
+                    {describeActivity(event, projectNames)}
+                </p>
+            </div>
+            <time dateTime={event.createdAt} className="text-xs text-zen-text-muted shrink-0 pt-0.5">
+                {time}
+            </time>
+        </li>
+    );
+}
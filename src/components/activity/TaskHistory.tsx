@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Task History Component
+ *
+ * Lists the activity log entries for a single task, newest first.
+ * History is only kept while data is stored in the database.
+ *
+ * @module components/activity/TaskHistory
+ */
+
+import { useState, useEffect } from 'react';
+import { ActivityItem } from './ActivityItem';
+import { useProjects } from '../../hooks/useProjects';
+import { callDatabase } from '../../services/databaseClient';
+import type { ActivityEvent } from '../../types';
+
+interface TaskHistoryProps {
+    taskId: string;
+}
+
+/**
+ * Reads a task's history, or null if the database isn't available.
+ */
+async function loadEvents(taskId: string): Promise<ActivityEvent[] | null> {
+    try {
+        return await callDatabase('getTaskEvents', taskId);
+    } catch (error) {
+        console.error('[TaskHistory] Failed to load history:', error);
+        return null;
+    }
+}
+
+export function TaskHistory({ taskId }: TaskHistoryProps) {
+    const { projects } = useProjects();
+    // Read once when opened; the modal is closed before the task changes
+    const [events, setEvents] = useState<ActivityEvent[] | null | undefined>(undefined);
+    const projectNames = new Map(projects.map(p => [p.id, p.name]));
+
+    useEffect(() => {
+        let current = true;
+        loadEvents(taskId).then((loaded) => {
+            if (current) setEvents(loaded);
+        });
+        return () => {
+            current = false;
+        };
+    }, [taskId]);
+
+    // Still loading
+    if (events === undefined) return null;
+
+    if (events === null) {
+        return <p className="text-sm text-zen-text-muted py-2">History isn't available right now.</p>;
+    }
+
+    if (events.length === 0) {
+        return <p className="text-sm text-zen-text-muted py-2">No changes recorded yet.</p>;
+    }
+
+    return (
+        <ul className="max-h-48 overflow-y-auto divide-y divide-zen-border pr-1">
+            {events.map(event => (
+                <ActivityItem key={event.id} event={event} showDate projectNames={projectNames} />
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,2 @@
+export { ActivityItem } from './ActivityItem';
+export { TaskHistory } from './TaskHistory';
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Encryption Card Component
+ *
+ * Turns passphrase encryption of the stored data on or off and changes the
+ * passphrase. Setting a passphrase asks the user to acknowledge that it
+ * can't be recovered; changing or removing it asks for the current one.
+ *
+ * @module components/backup/EncryptionCard
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, AlertCircle } from 'lucide-react';
+import { isDatabaseEncrypted, checkDatabasePassphrase, setDatabasePassphrase } from '../../services/database';
+import { useToast } from '../../hooks/useToast';
+
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+/** Shortest passphrase accepted */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = `w-full px-3 py-2 rounded-zen border border-zen-border bg-zen-bg
+    text-sm text-zen-text placeholder:text-zen-text-muted
+    focus:outline-none focus:border-zen-accent focus:ring-1 focus:ring-zen-accent/20
+    transition-all duration-200`;
+
+export function EncryptionCard() {
+    const { showToast } = useToast();
+    const [isEncrypted, setIsEncrypted] = useState(isDatabaseEncrypted);
+    const [action, setAction] = useState<EncryptionAction | null>(null);
+    const [current, setCurrent] = useState('');
+    const [next, setNext] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [acknowledged, setAcknowledged] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const needsCurrent = action === 'change' || action === 'disable';
+    const needsNew = action === 'enable' || action === 'change';
+
+    const openForm = (nextAction: EncryptionAction | null) => {
+        setAction(nextAction);
+        setCurrent('');
+        setNext('');
+        setConfirm('');
+        setAcknowledged(false);
+        setError(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!action || isBusy) return;
+
+        if (needsNew) {
+            if (next.length < MIN_PASSPHRASE_LENGTH) {
+                setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+                return;
+            }
+            if (next !== confirm) {
+                setError("The passphrases don't match.");
+                return;
+            }
+        }
+
+        setIsBusy(true);
+        setError(null);
+        try {
+            if (needsCurrent && !(await checkDatabasePassphrase(current))) {
+                setError('The current passphrase is wrong.');
+                return;
+            }
+
+            await setDatabasePassphrase(needsNew ? next : null);
+            setIsEncrypted(needsNew);
+            openForm(null);
+            showToast(
+                action === 'enable' ? 'Your data is now encrypted'
+                    : action === 'change' ? 'Passphrase changed'
+                        : 'Encryption turned off',
+                'success'
+            );
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not update encryption');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <div className="flex items-center gap-2">
+                        <Lock className="text-zen-accent" size={18} />
+                        <h3 className="font-semibold text-zen-text">Encryption</h3>
+                    </div>
+                    <p className="text-sm text-zen-text-muted mt-0.5">
+                        {isEncrypted
+                            ? 'Your data and snapshots are encrypted. The passphrase is asked for each time LuminaNote starts.'
+                            : 'Encrypt your stored data and snapshots with a passphrase.'}
+                    </p>
+                </div>
+                {isEncrypted ? (
+                    <div className="flex gap-2 shrink-0">
+                        <button
+                            onClick={() => openForm('change')}
+                            className="px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                                hover:bg-zen-surface rounded-zen transition-colors"
+                        >
+                            Change passphrase
+                        </button>
+                        <button
+                            onClick={() => openForm('disable')}
+                            className="px-3 py-1.5 text-sm text-zen-text-secondary hover:text-rose-500
+                                hover:bg-zen-surface rounded-zen transition-colors"
+                        >
+                            Turn off
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => openForm('enable')}
+                        className="px-4 py-2.5 rounded-zen border border-zen-border text-sm font-medium
+                            text-zen-text-secondary hover:bg-zen-surface transition-colors duration-200 shrink-0"
+                    >
+                        Set passphrase
+                    </button>
+                )}
+            </div>
+
+            <AnimatePresence>
+                {action && (
+                    <motion.form
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.2 }}
+                        onSubmit={handleSubmit}
+                        className="overflow-hidden"
+                    >
+                        <div className="mt-4 p-4 rounded-zen bg-zen-surface space-y-3">
+                            {needsCurrent && (
+                                <input
+                                    type="password"
+                                    value={current}
+                                    onChange={(e) => setCurrent(e.target.value)}
+                                    placeholder="Current passphrase"
+                                    autoFocus
+                                    className={inputClass}
+                                />
+                            )}
+                            {needsNew && (
+                                <>
+                                    <input
+                                        type="password"
+                                        value={next}
+                                        onChange={(e) => setNext(e.target.value)}
+                                        placeholder="New passphrase"
+                                        autoFocus={!needsCurrent}
+                                        className={inputClass}
+                                    />
+                                    <input
+                                        type="password"
+                                        value={confirm}
+                                        onChange={(e) => setConfirm(e.target.value)}
+                                        placeholder="Repeat new passphrase"
+                                        className={inputClass}
+                                    />
+                                    <div className="flex items-start gap-2 text-sm text-zen-text">
+                                        <AlertCircle size={16} className="text-priority-medium shrink-0 mt-0.5" />
+                                        <span>
+                                            There is no way to recover a forgotten passphrase, or the data
+                                            encrypted with it. Write it down somewhere safe, and keep a
+                                            downloaded backup: backup files and JSON exports are not encrypted.
+                                        </span>
+                                    </div>
+                                    <label className="flex items-center gap-2 text-sm text-zen-text cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={acknowledged}
+                                            onChange={(e) => setAcknowledged(e.target.checked)}
+                                            className="accent-zen-accent"
+                                        />
+                                        I understand my data is lost if I forget this passphrase
+                                    </label>
+                                </>
+                            )}
+                            {action === 'disable' && (
+                                <p className="text-sm text-zen-text-secondary">
+                                    Your data and snapshots will be stored unencrypted again.
+                                </p>
+                            )}
+                            {error && <p className="text-sm text-rose-500">{error}</p>}
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => openForm(null)}
+                                    className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={isBusy || (needsNew && !acknowledged) || (needsCurrent && !current)}
+                                    className="px-3 py-1.5 text-sm bg-zen-accent text-white rounded-zen hover:bg-zen-accent/90
+                                        disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isBusy ? 'Working…'
+                                        : action === 'enable' ? 'Encrypt'
+                                            : action === 'change' ? 'Change passphrase'
+                                                : 'Turn off encryption'}
+                                </button>
+                            </div>
+                        </div>
+                    </motion.form>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
@@ -0,0 +1,219 @@
+/**
+ * @fileoverview External Import Card Component
+ *
+ * Imports an export file from Todoist, Trello or Microsoft To Do. Shows a
+ * preview of the tasks and projects it would create, plus anything that
+ * would be skipped, before writing anything.
+ *
+ * @module components/backup/ExternalImportCard
+ */
+
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowDownToLine, Upload, AlertCircle } from 'lucide-react';
+import { previewExternalImport, runExternalImport, importSourceLabels } from '../../services/externalImport';
+import type { ImportPreview, ImportSource, ImportIssue } from '../../services/externalImport';
+import { useToast } from '../../hooks/useToast';
+import type { Project } from '../../types';
+
+interface ExternalImportCardProps {
+    projects: Project[];
+}
+
+/** Number of tasks listed in the preview before it is cut off */
+const PREVIEW_TASK_LIMIT = 8;
+
+const priorityDotColors = {
+    low: 'bg-priority-low',
+    medium: 'bg-priority-medium',
+    high: 'bg-priority-high',
+};
+
+/** Accepted file types for each source */
+const acceptedFiles: Record<ImportSource, string> = {
+    todoist: '.csv,.json',
+    trello: '.json',
+    'microsoft-todo': '.json,.csv',
+};
+
+/**
+ * Collapsible list of skipped or changed items.
+ */
+function IssueList({ title, issues }: { title: string; issues: ImportIssue[] }) {
+    if (issues.length === 0) return null;
+
+    return (
+        <details className="text-xs">
+            <summary className="cursor-pointer text-zen-text-secondary">
+                {title} ({issues.length})
+            </summary>
+            <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                {issues.map((issue, index) => (
+                    <li key={index} className="text-zen-text-muted">
+                        <span className="text-zen-text">{issue.title}</span> — {issue.reason}
+                    </li>
+                ))}
+            </ul>
+        </details>
+    );
+}
+
+export function ExternalImportCard({ projects }: ExternalImportCardProps) {
+    const { showToast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [source, setSource] = useState<ImportSource>('todoist');
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            setPreview(await previewExternalImport(source, file.name, await file.text()));
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Could not read the file', 'error');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!preview) return;
+        try {
+            const result = await runExternalImport(preview);
+            showToast(`Imported ${result.tasks} tasks and ${result.projects} projects`, 'success');
+            setPreview(null);
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+        }
+    };
+
+    // Names for both existing projects and ones the import would create
+    const projectNames = new Map(
+        [...projects, ...(preview?.projects ?? [])].map(p => [p.id, p.name])
+    );
+
+    return (
+        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+            <div className="flex items-center gap-2 mb-1">
+                <ArrowDownToLine className="text-zen-accent" size={18} />
+                <h3 className="font-semibold text-zen-text">Import from other apps</h3>
+            </div>
+            <p className="text-sm text-zen-text-muted mb-4">
+                Bring in tasks from an export file. Boards and lists become projects.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={source}
+                    onChange={(e) => {
+                        setSource(e.target.value as ImportSource);
+                        setPreview(null);
+                    }}
+                    className="text-sm bg-zen-surface border border-zen-border rounded-md
+                               px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                               transition-colors cursor-pointer"
+                >
+                    {(Object.keys(importSourceLabels) as ImportSource[]).map(key => (
+                        <option key={key} value={key}>{importSourceLabels[key]}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                        hover:bg-zen-surface rounded-zen transition-colors"
+                >
+                    <Upload size={14} />
+                    Choose export file
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={acceptedFiles[source]}
+                    onChange={handleFileSelected}
+                    className="hidden"
+                />
+            </div>
+
+            {/* Preview */}
+            <AnimatePresence>
+                {preview && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="overflow-hidden"
+                    >
+                        <div className="mt-4 p-4 rounded-zen bg-zen-surface space-y-3 text-sm">
+                            <p className="text-zen-text">
+                                {preview.tasks.length} tasks and {preview.projects.length} new projects from{' '}
+                                {importSourceLabels[preview.source]}.
+                                {preview.skipped.length > 0 && ` ${preview.skipped.length} items will be skipped.`}
+                            </p>
+
+                            {preview.projects.length > 0 && (
+                                <p className="text-xs text-zen-text-secondary">
+                                    New projects: {preview.projects.map(p => p.name).join(', ')}
+                                </p>
+                            )}
+
+                            {preview.tasks.length > 0 && (
+                                <ul className="space-y-1">
+                                    {preview.tasks.slice(0, PREVIEW_TASK_LIMIT).map(task => (
+                                        <li key={task.id} className="flex items-center gap-2 text-xs">
+                                            <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${priorityDotColors[task.priority]}`} />
+                                            <span className={`truncate ${task.completed ? 'line-through text-zen-text-muted' : 'text-zen-text'}`}>
+                                                {task.title}
+                                            </span>
+                                            {task.projectId && (
+                                                <span className="text-zen-text-muted shrink-0">· {projectNames.get(task.projectId)}</span>
+                                            )}
+                                            {task.dueDate && (
+                                                <span className="text-zen-text-muted shrink-0 ml-auto">
+                                                    {new Date(`${task.dueDate}T00:00:00`).toLocaleDateString()}
+                                                </span>
+                                            )}
+                                        </li>
+                                    ))}
+                                    {preview.tasks.length > PREVIEW_TASK_LIMIT && (
+                                        <li className="text-xs text-zen-text-muted">
+                                            +{preview.tasks.length - PREVIEW_TASK_LIMIT} more
+                                        </li>
+                                    )}
+                                </ul>
+                            )}
+
+                            <IssueList title="Skipped" issues={preview.skipped} />
+                            <IssueList title="Imported with changes" issues={preview.warnings} />
+
+                            {preview.tasks.length === 0 && (
+                                <p className="flex items-center gap-2 text-xs text-zen-text-secondary">
+                                    <AlertCircle size={14} />
+                                    Nothing in this file can be imported.
+                                </p>
+                            )}
+
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    onClick={() => setPreview(null)}
+                                    className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleImport}
+                                    disabled={preview.tasks.length === 0}
+                                    className="px-3 py-1.5 text-sm bg-zen-accent text-white rounded-zen hover:bg-zen-accent/90
+                                        disabled:opacity-50 transition-colors"
+                                >
+                                    Import {preview.tasks.length} tasks
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview JSON Transfer Card Component
+ *
+ * Exports all data or a single project as portable JSON, and imports a
+ * JSON export by merging it into or replacing the current data.
+ *
+ * @module components/backup/JsonTransferCard
+ */
+
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileJson, Download, Upload } from 'lucide-react';
+import { downloadJson, parseJsonExport, importJson } from '../../services/jsonTransfer';
+import type { JsonExport, JsonImportResult, ImportMode, ConflictStrategy } from '../../services/jsonTransfer';
+import { useToast } from '../../hooks/useToast';
+import type { Project } from '../../types';
+
+interface JsonTransferCardProps {
+    projects: Project[];
+}
+
+/** Options for resolving records that exist on both sides */
+const strategyOptions: { value: ConflictStrategy; label: string }[] = [
+    { value: 'keep-local', label: 'Keep my version' },
+    { value: 'keep-incoming', label: 'Use the imported version' },
+    { value: 'keep-both', label: 'Keep both as separate copies' },
+];
+
+/**
+ * Describes an import result in one sentence.
+ */
+function describeResult(result: JsonImportResult): string {
+    const changed = (c: JsonImportResult['tasks']) => c.added + c.updated + c.duplicated;
+    let message = `Imported ${changed(result.tasks)} tasks and ${changed(result.projects)} projects`;
+
+    const skipped = result.tasks.skipped + result.projects.skipped;
+    if (skipped > 0) message += `, ${skipped} unchanged`;
+    if (result.unlinkedTasks > 0) message += `, ${result.unlinkedTasks} without a project`;
+    if (result.unlinkedSubtasks > 0) message += `, ${result.unlinkedSubtasks} subtasks without their parent`;
+
+    return message;
+}
+
+export function JsonTransferCard({ projects }: JsonTransferCardProps) {
+    const { showToast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [exportScope, setExportScope] = useState('');
+    const [pendingImport, setPendingImport] = useState<{ name: string; data: JsonExport } | null>(null);
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [strategy, setStrategy] = useState<ConflictStrategy>('keep-local');
+    const [isBusy, setIsBusy] = useState(false);
+
+    const handleExport = async () => {
+        try {
+            await downloadJson(exportScope || undefined);
+            showToast('Export downloaded', 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Export failed', 'error');
+        }
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            setPendingImport({ name: file.name, data: parseJsonExport(await file.text()) });
+            setMode('merge');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Not a valid export file', 'error');
+        }
+    };
+
+    const handleImport = async () => {
+        if (!pendingImport) return;
+
+        setIsBusy(true);
+        try {
+            const result = await importJson(pendingImport.data, mode, strategy);
+            showToast(describeResult(result), 'success');
+            setPendingImport(null);
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+            <div className="flex items-center gap-2 mb-1">
+                <FileJson className="text-zen-accent" size={18} />
+                <h3 className="font-semibold text-zen-text">Portable JSON</h3>
+            </div>
+            <p className="text-sm text-zen-text-muted mb-4">
+                A readable format you can share. Importing can merge into your data instead of replacing it.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={exportScope}
+                    onChange={(e) => setExportScope(e.target.value)}
+                    className="text-sm bg-zen-surface border border-zen-border rounded-md
+                               px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                               transition-colors cursor-pointer"
+                >
+                    <option value="">All data</option>
+                    {projects.map(project => (
+                        <option key={project.id} value={project.id}>Project: {project.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleExport}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                        hover:bg-zen-surface rounded-zen transition-colors"
+                >
+                    <Download size={14} />
+                    Export JSON
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isBusy}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                        hover:bg-zen-surface rounded-zen disabled:opacity-50 transition-colors"
+                >
+                    <Upload size={14} />
+                    Import JSON
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleFileSelected}
+                    className="hidden"
+                />
+            </div>
+
+            {/* Import options */}
+            <AnimatePresence>
+                {pendingImport && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="overflow-hidden"
+                    >
+                        <div className="mt-4 p-4 rounded-zen bg-zen-surface space-y-3 text-sm">
+                            <p className="text-zen-text">
+                                <span className="font-medium">{pendingImport.name}</span> contains{' '}
+                                {pendingImport.data.tasks.length} tasks and {pendingImport.data.projects.length} projects.
+                            </p>
+
+                            <div className="flex gap-4">
+                                {(['merge', 'replace'] as const).map(option => (
+                                    <label key={option} className="flex items-center gap-2 text-zen-text-secondary cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name="json-import-mode"
+                                            checked={mode === option}
+                                            onChange={() => setMode(option)}
+                                            className="accent-zen-accent"
+                                        />
+                                        {option === 'merge' ? 'Merge with my data' : 'Replace all my data'}
+                                    </label>
+                                ))}
+                            </div>
+
+                            {mode === 'merge' ? (
+                                <label className="flex items-center gap-2 text-zen-text-secondary">
+                                    When an item exists in both:
+                                    <select
+                                        value={strategy}
+                                        onChange={(e) => setStrategy(e.target.value as ConflictStrategy)}
+                                        className="text-sm bg-zen-card border border-zen-border rounded-md
+                                                   px-2 py-1 text-zen-text focus:outline-none focus:border-zen-accent cursor-pointer"
+                                    >
+                                        {strategyOptions.map(opt => (
+                                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                            ) : (
+                                <p className="text-priority-high">
+                                    All current tasks, projects and settings will be deleted first.
+                                </p>
+                            )}
+
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    onClick={() => setPendingImport(null)}
+                                    className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleImport}
+                                    disabled={isBusy}
+                                    className="px-3 py-1.5 text-sm bg-zen-accent text-white rounded-zen hover:bg-zen-accent/90
+                                        disabled:opacity-50 transition-colors"
+                                >
+                                    Import
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
@@ -0,0 +1,3 @@
+export { JsonTransferCard } from './JsonTransferCard';
+export { ExternalImportCard } from './ExternalImportCard';
+export { EncryptionCard } from './EncryptionCard';
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Database Error Screen Component
+ *
+ * Full-screen message shown when the SQLite database could not be opened,
+ * for example when the sql.js engine fails to load.
+ *
+ * @module components/layout/DatabaseErrorScreen
+ */
+
+import { motion } from 'framer-motion';
+import { AlertCircle, RotateCcw } from 'lucide-react';
+
+interface DatabaseErrorScreenProps {
+    error: Error | null;
+}
+
+export function DatabaseErrorScreen({ error }: DatabaseErrorScreenProps) {
+    return (
+        <div className="h-screen flex items-center justify-center bg-zen-bg p-8">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+                className="w-full max-w-md bg-zen-card rounded-zen-lg shadow-zen-lg border border-zen-border p-6 text-center"
+            >
+                <div className="w-12 h-12 mx-auto mb-4 rounded-zen bg-rose-500/10 flex items-center justify-center">
+                    <AlertCircle className="text-rose-500" size={24} />
+                </div>
+                <h1 className="text-lg font-semibold text-zen-text mb-2">
+                    Your data couldn't be opened
+                </h1>
+                <p className="text-sm text-zen-text-secondary mb-4">
+                    LuminaNote failed to start its local database. Nothing has been changed or deleted.
+                </p>
+                {error && (
+                    <p className="text-xs text-zen-text-muted bg-zen-surface rounded-zen p-3 mb-6 break-words font-mono text-left">
+                        {error.message}
+                    </p>
+                )}
+                <button
+                    onClick={() => window.location.reload()}
+                    className="inline-flex items-center gap-2 px-4 py-2.5 rounded-zen bg-zen-accent text-white
+                        text-sm font-medium hover:bg-zen-accent/90 transition-colors duration-200"
+                >
+                    <RotateCcw size={14} />
+                    Try again
+                </button>
+            </motion.div>
+        </div>
+    );
+}
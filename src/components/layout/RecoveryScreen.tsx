@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Recovery Screen Component
+ *
+ * Full-screen choice shown when the stored database turned out to be
+ * damaged at startup. The damaged file is never replaced without the user
+ * picking one of: the rows that could be salvaged from it, an earlier
+ * snapshot, or an empty database (which needs an explicit confirmation).
+ * The damaged file itself can be downloaded first.
+ *
+ * @module components/layout/RecoveryScreen
+ */
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, AlertCircle, Download, RotateCcw } from 'lucide-react';
+import { useDatabase } from '../../hooks/useDatabase';
+import { listSnapshots, downloadDamagedDatabase } from '../../services/backup';
+import type { SnapshotInfo } from '../../services/storage';
+import type { RecoveryChoice, SalvagedTable } from '../../services/recovery';
+
+/** How salvaged rows of each table are counted for the user */
+const tableLabels: Record<string, string> = {
+    tasks: 'tasks',
+    projects: 'projects',
+    settings: 'settings',
+    task_events: 'history entries',
+    project_events: 'history entries',
+};
+
+/**
+ * Sums the salvaged rows into a readable list, e.g. "12 tasks, 3 projects".
+ */
+function describeSalvaged(salvaged: SalvagedTable[]): string {
+    const counts = new Map<string, number>();
+    for (const { table, rows } of salvaged) {
+        const label = tableLabels[table];
+        if (label) counts.set(label, (counts.get(label) ?? 0) + rows);
+    }
+    return [...counts].map(([label, count]) => `${count} ${label}`).join(', ');
+}
+
+export function RecoveryScreen() {
+    const { recovery, recover } = useDatabase();
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [showDetails, setShowDetails] = useState(false);
+    const [confirmFresh, setConfirmFresh] = useState(false);
+
+    useEffect(() => {
+        listSnapshots()
+            .then(all => setSnapshots(all.filter(snapshot => snapshot.reason !== 'quarantine')))
+            .catch(err => console.error('[RecoveryScreen] Failed to list snapshots:', err));
+    }, []);
+
+    if (!recovery) return null;
+
+    const isIncomplete = recovery.salvaged.some(table => !table.complete);
+
+    const handleRecover = async (choice: RecoveryChoice) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await recover(choice);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not recover the database');
+            setIsBusy(false);
+        }
+    };
+
+    const handleDownload = () => {
+        try {
+            downloadDamagedDatabase();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not download the damaged file');
+        }
+    };
+
+    return (
+        <div className="h-screen overflow-y-auto flex items-start justify-center bg-zen-bg p-8">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+                className="w-full max-w-lg my-auto bg-zen-card rounded-zen-lg shadow-zen-lg border border-zen-border p-6"
+            >
+                <div className="text-center">
+                    <div className="w-12 h-12 mx-auto mb-4 rounded-zen bg-amber-500/10 flex items-center justify-center">
+                        <AlertTriangle className="text-amber-500" size={24} />
+                    </div>
+                    <h1 className="text-lg font-semibold text-zen-text mb-2">
+                        Your saved data is damaged
+                    </h1>
+                    <p className="text-sm text-zen-text-secondary">
+                        LuminaNote couldn't read all of its database.
+                        {recovery.quarantined
+                            ? ' The damaged file has been kept among your snapshots, and nothing changes until you choose how to go on.'
+                            : ' Nothing changes until you choose how to go on; download the damaged file first if you want to keep it.'}
+                    </p>
+                    <button
+                        onClick={() => setShowDetails(!showDetails)}
+                        className="mt-2 text-xs text-zen-text-muted hover:text-zen-text transition-colors"
+                    >
+                        {showDetails ? 'Hide details' : 'Show details'}
+                    </button>
+                </div>
+
+                <AnimatePresence>
+                    {showDetails && (
+                        <motion.ul
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            exit={{ opacity: 0, height: 0 }}
+                            className="mt-3 max-h-32 overflow-y-auto p-3 rounded-zen bg-zen-surface
+                                text-xs font-mono text-zen-text-secondary whitespace-pre-wrap space-y-1"
+                        >
+                            {recovery.problems.map((problem, index) => (
+                                <li key={index}>{problem}</li>
+                            ))}
+                        </motion.ul>
+                    )}
+                </AnimatePresence>
+
+                {error && (
+                    <p className="mt-4 text-sm text-rose-500 text-center">{error}</p>
+                )}
+
+                {/* Salvaged rows */}
+                <div className="mt-6 p-4 rounded-zen bg-zen-surface">
+                    <h2 className="text-sm font-medium text-zen-text">Continue with what could be read</h2>
+                    <p className="mt-1 text-sm text-zen-text-secondary">
+                        Recovered {describeSalvaged(recovery.salvaged) || 'nothing'}.
+                        {isIncomplete && ' Some rows were unreadable and are missing.'}
+                    </p>
+                    <button
+                        onClick={() => handleRecover({ type: 'salvage' })}
+                        disabled={isBusy}
+                        className="mt-3 w-full px-4 py-2.5 rounded-zen bg-zen-accent text-white text-sm font-medium
+                            hover:bg-zen-accent/90 disabled:opacity-50 disabled:cursor-not-allowed
+                            transition-colors duration-200"
+                    >
+                        Continue with recovered data
+                    </button>
+                </div>
+
+                {/* Snapshots */}
+                {snapshots.length > 0 && (
+                    <div className="mt-4">
+                        <h2 className="text-sm font-medium text-zen-text mb-2">Or restore a snapshot</h2>
+                        <ul className="space-y-2 max-h-48 overflow-y-auto">
+                            {snapshots.map(snapshot => (
+                                <li
+                                    key={snapshot.id}
+                                    className="flex items-center gap-3 p-3 bg-zen-surface rounded-zen"
+                                >
+                                    <p className="flex-1 min-w-0 text-sm text-zen-text">
+                                        {new Date(snapshot.createdAt).toLocaleString()}
+                                    </p>
+                                    <button
+                                        onClick={() => handleRecover({ type: 'snapshot', id: snapshot.id })}
+                                        disabled={isBusy}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-accent
+                                            hover:bg-zen-accent/10 rounded-zen disabled:opacity-50 transition-colors"
+                                    >
+                                        <RotateCcw size={14} />
+                                        Restore
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <button
+                    onClick={handleDownload}
+                    className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-2 rounded-zen border border-zen-border
+                        text-sm text-zen-text-secondary hover:text-zen-text hover:bg-zen-surface transition-colors"
+                >
+                    <Download size={16} />
+                    Download the damaged file
+                </button>
+
+                {/* Start over */}
+                <div className="mt-4 p-4 rounded-zen bg-rose-500/10 space-y-3">
+                    <div className="flex items-start gap-2 text-rose-500">
+                        <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                        <p className="text-sm">
+                            Starting fresh leaves all of the damaged data behind. You can still restore a
+                            backup file you downloaded earlier.
+                        </p>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-zen-text cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={confirmFresh}
+                            onChange={(e) => setConfirmFresh(e.target.checked)}
+                            className="accent-rose-500"
+                        />
+                        Start with no tasks or projects
+                    </label>
+                    <button
+                        onClick={() => handleRecover({ type: 'fresh' })}
+                        disabled={!confirmFresh || isBusy}
+                        className="w-full px-4 py-2 rounded-zen bg-rose-500 text-white text-sm font-medium
+                            hover:bg-rose-600 disabled:opacity-50 disabled:cursor-not-allowed
+                            transition-colors duration-200"
+                    >
+                        Start fresh
+                    </button>
+                </div>
+            </motion.div>
+        </div>
+    );
+}
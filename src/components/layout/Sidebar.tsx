@@ -11,11 +11,22 @@ import {
     Sparkles,
     Sun,
     Moon,
-    Dices
+    Dices,
+    DatabaseBackup,
+    Trash2,
+    Settings,
+    History,
+    Cloud,
+    CloudOff,
+    RefreshCw
 } from 'lucide-react';
 import type { NavItem } from '../../types';
 import { useTheme } from '../../hooks/useTheme';
+import { useSetting } from '../../hooks/useSetting';
+import { useSyncStatus } from '../../hooks/useSync';
+import { syncNow, describeSyncStatus } from '../../services/sync';
 import { AboutModal } from './AboutModal';
+import { WorkspaceSwitcher } from '../workspaces';
 
 interface SidebarProps {
     activeNav: NavItem;
@@ -31,12 +42,17 @@ const navItems: { id: NavItem; label: string; icon: React.ComponentType<{ size?:
     { id: 'calendar', label: 'Calendar', icon: Calendar },
     { id: 'focus', label: 'Focus', icon: Timer },
     { id: 'wheel', label: 'Wheel', icon: Dices },
+    { id: 'activity', label: 'Activity', icon: History },
+    { id: 'backup', label: 'Backup', icon: DatabaseBackup },
+    { id: 'trash', label: 'Trash', icon: Trash2 },
+    { id: 'settings', label: 'Settings', icon: Settings },
 ];
 
-
 export function Sidebar({ activeNav, onNavChange, isCollapsed, onToggleCollapse }: SidebarProps) {
     const { theme, toggleTheme } = useTheme();
     const [showAbout, setShowAbout] = useState(false);
+    const [syncServerUrl] = useSetting('syncServerUrl');
+    const syncStatus = useSyncStatus();
 
     return (
         <>
@@ -72,6 +88,11 @@ export function Sidebar({ activeNav, onNavChange, isCollapsed, onToggleCollapse
                     </motion.div>
                 </div>
 
+                {/* Workspace */}
+                <div className="px-3 pt-3">
+                    <WorkspaceSwitcher isCollapsed={isCollapsed} onManage={() => onNavChange('settings')} />
+                </div>
+
                 {/* Navigation */}
                 <nav className="flex-1 py-4 px-3">
                     <ul className="space-y-1">
@@ -124,6 +145,33 @@ export function Sidebar({ activeNav, onNavChange, isCollapsed, onToggleCollapse
 
                 {/* Theme Toggle & Collapse */}
                 <div className="p-3 border-t border-zen-border space-y-2">
+                    {/* Sync Status */}
+                    {syncServerUrl.trim() && (
+                        <button
+                            onClick={() => void syncNow()}
+                            title={syncStatus.error ?? 'Sync now'}
+                            className={`w-full flex items-center justify-center gap-2 px-3 py-2 rounded-zen
+                         hover:bg-zen-card/50 transition-colors duration-200
+                         ${syncStatus.state === 'error' ? 'text-rose-500' : 'text-zen-text-muted hover:text-zen-text'}`}
+                        >
+                            {syncStatus.state === 'syncing' ? <RefreshCw size={18} className="animate-spin" />
+                                : syncStatus.state === 'error' ? <CloudOff size={18} />
+                                    : <Cloud size={18} />}
+                            <AnimatePresence>
+                                {!isCollapsed && (
+                                    <motion.span
+                                        initial={{ opacity: 0 }}
+                                        animate={{ opacity: 1 }}
+                                        exit={{ opacity: 0 }}
+                                        className="text-sm whitespace-nowrap"
+                                    >
+                                        {describeSyncStatus(syncStatus)}
+                                    </motion.span>
+                                )}
+                            </AnimatePresence>
+                        </button>
+                    )}
+
                     {/* Theme Toggle */}
                     <button
                         onClick={toggleTheme}
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Unlock Screen Component
+ *
+ * Full-screen passphrase prompt shown while the database is encrypted and
+ * locked. A forgotten passphrase can't be recovered; the only way forward
+ * is to erase the data and start over, which needs an explicit confirmation.
+ * Other workspaces, which may not be encrypted, can be opened instead.
+ *
+ * @module components/layout/UnlockScreen
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, AlertCircle, Layers } from 'lucide-react';
+import { useDatabase } from '../../hooks/useDatabase';
+import { useWorkspaces } from '../../hooks/useWorkspaces';
+
+export function UnlockScreen() {
+    const { unlock, eraseAndStartOver, workspaceId, switchWorkspace } = useDatabase();
+    const workspaces = useWorkspaces();
+    const otherWorkspaces = workspaces.filter(workspace => workspace.id !== workspaceId);
+    const workspaceName = workspaces.find(workspace => workspace.id === workspaceId)?.name;
+    const [passphrase, setPassphrase] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [showForgot, setShowForgot] = useState(false);
+    const [confirmErase, setConfirmErase] = useState(false);
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!passphrase || isBusy) return;
+
+        setIsBusy(true);
+        setError(null);
+        try {
+            await unlock(passphrase);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not unlock the database');
+            setIsBusy(false);
+        }
+    };
+
+    const handleErase = async () => {
+        setIsBusy(true);
+        try {
+            await eraseAndStartOver();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not erase the database');
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <div className="h-screen flex items-center justify-center bg-zen-bg p-8">
+            <motion.div
+                initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+                className="w-full max-w-md bg-zen-card rounded-zen-lg shadow-zen-lg border border-zen-border p-6 text-center"
+            >
+                <div className="w-12 h-12 mx-auto mb-4 rounded-zen bg-zen-accent/10 flex items-center justify-center">
+                    <Lock className="text-zen-accent" size={24} />
+                </div>
+                <h1 className="text-lg font-semibold text-zen-text mb-2">
+                    {otherWorkspaces.length > 0 && workspaceName ? `${workspaceName} is locked` : 'LuminaNote is locked'}
+                </h1>
+                <p className="text-sm text-zen-text-secondary mb-6">
+                    Your data is encrypted. Enter your passphrase to open it.
+                </p>
+
+                <form onSubmit={handleUnlock} className="space-y-3">
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        placeholder="Passphrase"
+                        autoFocus
+                        className="w-full px-3 py-2.5 rounded-zen border border-zen-border bg-zen-bg
+                            text-sm text-zen-text placeholder:text-zen-text-muted
+                            focus:outline-none focus:border-zen-accent focus:ring-1 focus:ring-zen-accent/20
+                            transition-all duration-200"
+                    />
+                    {error && (
+                        <p className="text-sm text-rose-500">{error}</p>
+                    )}
+                    <button
+                        type="submit"
+                        disabled={!passphrase || isBusy}
+                        className="w-full px-4 py-2.5 rounded-zen bg-zen-accent text-white text-sm font-medium
+                            hover:bg-zen-accent/90 disabled:opacity-50 disabled:cursor-not-allowed
+                            transition-colors duration-200"
+                    >
+                        {isBusy ? 'Unlocking…' : 'Unlock'}
+                    </button>
+                </form>
+
+                {otherWorkspaces.length > 0 && (
+                    <div className="mt-4 flex flex-wrap items-center justify-center gap-2 text-xs text-zen-text-muted">
+                        <Layers size={14} />
+                        Open instead:
+                        {otherWorkspaces.map(workspace => (
+                            <button
+                                key={workspace.id}
+                                onClick={() => switchWorkspace(workspace.id)}
+                                className="px-2 py-1 rounded-zen bg-zen-surface text-zen-text-secondary hover:text-zen-text transition-colors"
+                            >
+                                {workspace.name}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <button
+                    onClick={() => setShowForgot(!showForgot)}
+                    className="mt-4 text-xs text-zen-text-muted hover:text-zen-text transition-colors"
+                >
+                    Forgot your passphrase?
+                </button>
+
+                <AnimatePresence>
+                    {showForgot && (
+                        <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            exit={{ opacity: 0, height: 0 }}
+                            className="overflow-hidden"
+                        >
+                            <div className="mt-4 p-4 rounded-zen bg-rose-500/10 text-left space-y-3">
+                                <div className="flex items-start gap-2 text-rose-500">
+                                    <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                                    <p className="text-sm">
+                                        The passphrase can't be recovered or reset, and neither can data
+                                        encrypted with it. You can erase everything and start over, then
+                                        restore a backup file you downloaded earlier.
+                                    </p>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm text-zen-text cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={confirmErase}
+                                        onChange={(e) => setConfirmErase(e.target.checked)}
+                                        className="accent-rose-500"
+                                    />
+                                    Delete all my tasks, projects and snapshots{otherWorkspaces.length > 0 ? ' in this workspace' : ''}
+                                </label>
+                                <button
+                                    onClick={handleErase}
+                                    disabled={!confirmErase || isBusy}
+                                    className="w-full px-4 py-2 rounded-zen bg-rose-500 text-white text-sm font-medium
+                                        hover:bg-rose-600 disabled:opacity-50 disabled:cursor-not-allowed
+                                        transition-colors duration-200"
+                                >
+                                    Erase and start over
+                                </button>
+                            </div>
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </motion.div>
+        </div>
+    );
+}
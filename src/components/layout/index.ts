@@ -2,3 +2,6 @@ export { Sidebar } from './Sidebar';
 export { Layout } from './Layout';
 export { BentoGrid, BentoCard } from './BentoGrid';
 export { SplashScreen } from './SplashScreen';
+export { DatabaseErrorScreen } from './DatabaseErrorScreen';
+export { UnlockScreen } from './UnlockScreen';
+export { RecoveryScreen } from './RecoveryScreen';
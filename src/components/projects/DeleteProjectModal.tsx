@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Delete Project Modal Component
+ *
+ * Asks what should happen to a project's tasks before the project goes to
+ * the trash: go with it, move to another project, or stay without one.
+ *
+ * @module components/projects/DeleteProjectModal
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, AlertCircle } from 'lucide-react';
+import type { Project, ProjectTaskAction } from '../../types';
+
+interface DeleteProjectModalProps {
+    /** Project to delete; the modal is open while this is set */
+    project: Project | null;
+    /** Number of tasks in the project */
+    taskCount: number;
+    /** Projects the tasks can be moved to */
+    otherProjects: Project[];
+    /** Close handler */
+    onClose: () => void;
+    /** Called with the chosen handling for the tasks */
+    onConfirm: (taskAction: ProjectTaskAction) => void;
+}
+
+const actionOptions: { value: ProjectTaskAction['type']; label: string }[] = [
+    { value: 'delete', label: 'Move them to the trash with the project' },
+    { value: 'move', label: 'Move them to another project' },
+    { value: 'unlink', label: 'Keep them without a project' },
+];
+
+export function DeleteProjectModal({
+    project,
+    taskCount,
+    otherProjects,
+    onClose,
+    onConfirm,
+}: DeleteProjectModalProps) {
+    const [actionType, setActionType] = useState<ProjectTaskAction['type']>('delete');
+    const [targetId, setTargetId] = useState('');
+
+    const target = otherProjects.find(p => p.id === targetId) ?? otherProjects[0];
+    const canConfirm = actionType !== 'move' || Boolean(target);
+
+    const handleClose = () => {
+        setActionType('delete');
+        onClose();
+    };
+
+    const handleConfirm = () => {
+        if (!canConfirm) return;
+        if (actionType === 'move') {
+            onConfirm({ type: 'move', projectId: target.id });
+        } else {
+            onConfirm({ type: actionType });
+        }
+        setActionType('delete');
+    };
+
+    return (
+        <AnimatePresence>
+            {project && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={handleClose}
+                        className="fixed inset-0 bg-black/50 z-50"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        transition={{ duration: 0.2 }}
+                        onKeyDown={(e) => e.key === 'Escape' && handleClose()}
+                        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50
+                            w-full max-w-md bg-zen-card rounded-xl border border-zen-border
+                            shadow-zen-lg p-6"
+                    >
+                        {/* Header */}
+                        <div className="flex items-center justify-between mb-4">
+                            <div className="flex items-center gap-2 text-rose-500">
+                                <AlertCircle size={18} />
+                                <h2 className="text-lg font-semibold text-zen-text">Delete "{project.name}"?</h2>
+                            </div>
+                            <button
+                                onClick={handleClose}
+                                className="p-1.5 rounded-md text-zen-text-muted hover:text-zen-text
+                                    hover:bg-zen-surface transition-colors"
+                            >
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        {taskCount === 0 ? (
+                            <p className="text-sm text-zen-text-secondary mb-6">
+                                The project has no tasks. It can be restored from the trash.
+                            </p>
+                        ) : (
+                            <div className="space-y-3 mb-6">
+                                <p className="text-sm text-zen-text-secondary">
+                                    The project has {taskCount} {taskCount === 1 ? 'task' : 'tasks'}. What should happen to them?
+                                </p>
+                                {actionOptions.map(({ value, label }) => (
+                                    <label key={value} className="flex items-center gap-2 text-sm text-zen-text cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name="project-task-action"
+                                            checked={actionType === value}
+                                            disabled={value === 'move' && otherProjects.length === 0}
+                                            onChange={() => setActionType(value)}
+                                            className="accent-zen-accent"
+                                        />
+                                        {label}
+                                    </label>
+                                ))}
+                                {actionType === 'move' && target && (
+                                    <select
+                                        value={target.id}
+                                        onChange={(e) => setTargetId(e.target.value)}
+                                        className="w-full text-sm bg-zen-surface border border-zen-border rounded-md
+                                            px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                                            transition-colors cursor-pointer"
+                                    >
+                                        {otherProjects.map(p => (
+                                            <option key={p.id} value={p.id}>{p.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="flex justify-end gap-2">
+                            <button
+                                onClick={handleClose}
+                                className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-surface rounded-zen transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleConfirm}
+                                disabled={!canConfirm}
+                                className="px-3 py-1.5 text-sm bg-rose-500 text-white rounded-zen hover:bg-rose-600
+                                    disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Move to trash
+                            </button>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -9,8 +9,7 @@ import {
     Save,
     Plus,
     Check,
-    Trash2,
-    AlertCircle
+    Trash2
 } from 'lucide-react';
 import type { Project, Task, ProjectColor, ProjectStatus } from '../../types';
 
@@ -60,7 +59,6 @@ export function ProjectDetailModal({
         tags: '',
     });
     const [newTaskTitle, setNewTaskTitle] = useState('');
-    const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
     // Sync form with project data
     useEffect(() => {
@@ -138,11 +136,6 @@ export function ProjectDetailModal({
         }
     };
 
-    const handleDelete = () => {
-        onDeleteProject(project.id);
-        onClose();
-    };
-
     return (
         <AnimatePresence>
             {isOpen && (
@@ -427,36 +420,13 @@ export function ProjectDetailModal({
 
                         {/* Footer - Delete Action */}
                         <div className="p-4 border-t border-zen-border bg-zen-surface/50">
-                            {showDeleteConfirm ? (
-                                <div className="flex items-center justify-between">
-                                    <div className="flex items-center gap-2 text-rose-500">
-                                        <AlertCircle size={16} />
-                                        <span className="text-sm">Delete this project and all its tasks?</span>
-                                    </div>
-                                    <div className="flex gap-2">
-                                        <button
-                                            onClick={() => setShowDeleteConfirm(false)}
-                                            className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-surface rounded-zen transition-colors"
-                                        >
-                                            Cancel
-                                        </button>
-                                        <button
-                                            onClick={handleDelete}
-                                            className="px-3 py-1.5 text-sm bg-rose-500 text-white rounded-zen hover:bg-rose-600 transition-colors"
-                                        >
-                                            Delete
-                                        </button>
-                                    </div>
-                                </div>
-                            ) : (
-                                <button
-                                    onClick={() => setShowDeleteConfirm(true)}
-                                    className="flex items-center gap-2 text-sm text-zen-text-muted hover:text-rose-500 transition-colors"
-                                >
-                                    <Trash2 size={14} />
-                                    Delete project
-                                </button>
-                            )}
+                            <button
+                                onClick={() => onDeleteProject(project.id)}
+                                className="flex items-center gap-2 text-sm text-zen-text-muted hover:text-rose-500 transition-colors"
+                            >
+                                <Trash2 size={14} />
+                                Delete project
+                            </button>
                         </div>
                     </motion.div>
                 </motion.div>
@@ -1,3 +1,4 @@
 export { ProjectCard } from './ProjectCard';
 export { ProjectList } from './ProjectList';
 export { ProjectDetailModal } from './ProjectDetailModal';
+export { DeleteProjectModal } from './DeleteProjectModal';
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Folder Sync Card Component
+ *
+ * Picks the folder the desktop app syncs through and shows how the last
+ * sync went. The folder itself is kept in step between devices by another
+ * tool, such as Syncthing.
+ *
+ * @module components/sync/FolderSyncCard
+ */
+
+import { FolderSync, RefreshCw } from 'lucide-react';
+import { useSetting } from '../../hooks/useSetting';
+import { useFolderSyncStatus } from '../../hooks/useSync';
+import { chooseSyncFolder, getDeviceId, syncFolderNow } from '../../services/folderSync';
+import { describeSyncStatus } from '../../services/sync';
+
+export function FolderSyncCard() {
+    const [syncFolder, setSyncFolder] = useSetting('syncFolder');
+    const status = useFolderSyncStatus();
+
+    const handleChoose = async () => {
+        const folder = await chooseSyncFolder();
+        if (folder) setSyncFolder(folder);
+    };
+
+    return (
+        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <div>
+                    <div className="flex items-center gap-2">
+                        <FolderSync className="text-zen-accent" size={18} />
+                        <h3 className="font-semibold text-zen-text">Sync folder</h3>
+                    </div>
+                    <p className="text-sm text-zen-text-muted mt-0.5">
+                        Sync through a folder that Syncthing, Dropbox or a network drive keeps the same on
+                        each device. Every device writes its own change log there.
+                    </p>
+                </div>
+                <button
+                    onClick={handleChoose}
+                    className="px-4 py-2.5 rounded-zen border border-zen-border text-sm font-medium
+                        text-zen-text-secondary hover:bg-zen-surface transition-colors duration-200 shrink-0"
+                >
+                    {syncFolder ? 'Change…' : 'Choose folder…'}
+                </button>
+            </div>
+
+            {syncFolder && (
+                <div className="p-4 rounded-zen bg-zen-surface space-y-2">
+                    <p className="text-sm text-zen-text font-mono break-all">{syncFolder}</p>
+                    <div className="flex items-center justify-between gap-4">
+                        <span className={`text-sm ${status.state === 'error' ? 'text-rose-500' : 'text-zen-text-secondary'}`}>
+                            {status.state === 'error' && status.error
+                                ? `${describeSyncStatus(status)}: ${status.error}`
+                                : describeSyncStatus(status)}
+                        </span>
+                        <div className="flex gap-2 shrink-0">
+                            <button
+                                onClick={() => void syncFolderNow()}
+                                disabled={status.state === 'syncing'}
+                                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                                    hover:bg-zen-border/50 rounded-zen transition-colors disabled:opacity-50"
+                            >
+                                <RefreshCw size={14} className={status.state === 'syncing' ? 'animate-spin' : ''} />
+                                Sync now
+                            </button>
+                            <button
+                                onClick={() => setSyncFolder('')}
+                                className="px-3 py-1.5 text-sm text-zen-text-secondary hover:text-rose-500
+                                    hover:bg-zen-border/50 rounded-zen transition-colors"
+                            >
+                                Stop syncing
+                            </button>
+                        </div>
+                    </div>
+                    <p className="text-xs text-zen-text-muted">This device: {getDeviceId().slice(0, 8)}</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Sync Conflicts Card Component
+ *
+ * Lists changes from other devices that lost to a change made here, so
+ * nothing is lost without the user seeing it. Each can be dismissed,
+ * keeping this device's version, or applied instead.
+ *
+ * @module components/sync/SyncConflictsCard
+ */
+
+import { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { useDatabase } from '../../hooks/useDatabase';
+import { useToast } from '../../hooks/useToast';
+import { getSyncConflicts, resolveSyncConflict } from '../../services/folderSync';
+import type { SyncConflictEntry } from '../../services/folderSync';
+
+/** Field names as shown to the user, by column */
+const fieldLabels: Record<string, string> = {
+    project_id: 'project',
+    due_date: 'due date',
+    due_time: 'due time',
+    task_order: 'position',
+    is_recurring: 'repeat',
+    deleted_at: 'trash',
+    total_tasks: 'task count',
+    completed_tasks: 'completed count',
+};
+
+/**
+ * Show a stored value briefly.
+ */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return 'nothing';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `“${text.length > 40 ? `${text.slice(0, 40)}…` : text}”`;
+}
+
+/**
+ * What happened, in a sentence.
+ */
+function describeConflict(conflict: SyncConflictEntry): string {
+    switch (conflict.kind) {
+        case 'field': {
+            const field = conflict.field ? (fieldLabels[conflict.field] ?? conflict.field) : 'a field';
+            return `Both devices changed the ${field}. Kept ${formatValue(conflict.localValue)} from this device; the other had ${formatValue(conflict.incomingValue)}.`;
+        }
+        case 'deleted-elsewhere':
+            return 'Deleted on another device, but edited here afterwards. Kept it.';
+        case 'deleted-here':
+            return 'Edited on another device, but deleted here afterwards. Kept it deleted.';
+    }
+}
+
+/** Label of the button that applies the other device's change */
+const applyLabels: Record<SyncConflictEntry['kind'], string> = {
+    'field': 'Use other',
+    'deleted-elsewhere': 'Move to trash',
+    'deleted-here': 'Restore',
+};
+
+export function SyncConflictsCard() {
+    const { isReady, revision } = useDatabase();
+    const { showToast } = useToast();
+
+    // Syncs and resolutions bump the revision; re-read then
+    const [conflicts, setConflicts] = useState<SyncConflictEntry[]>([]);
+    useEffect(() => {
+        if (!isReady) return;
+        let current = true;
+        getSyncConflicts()
+            .then((loaded) => {
+                if (current) setConflicts(loaded);
+            })
+            .catch(error => console.error('[SyncConflictsCard] Failed to load conflicts:', error));
+        return () => {
+            current = false;
+        };
+    }, [isReady, revision]);
+
+    const handleResolve = async (conflict: SyncConflictEntry, useIncoming: boolean) => {
+        try {
+            await resolveSyncConflict(conflict.id, useIncoming);
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Could not resolve the conflict', 'error');
+        }
+    };
+
+    if (conflicts.length === 0) return null;
+
+    return (
+        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm space-y-4">
+            <div>
+                <div className="flex items-center gap-2">
+                    <AlertCircle className="text-priority-medium" size={18} />
+                    <h3 className="font-semibold text-zen-text">Sync conflicts</h3>
+                </div>
+                <p className="text-sm text-zen-text-muted mt-0.5">
+                    Changes from other devices that clashed with changes made here.
+                </p>
+            </div>
+            <ul className="space-y-2">
+                {conflicts.map(conflict => (
+                    <li key={conflict.id} className="p-3 rounded-zen bg-zen-surface flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                            <p className="text-sm font-medium text-zen-text truncate">
+                                {conflict.entity === 'task' ? 'Task' : 'Project'}: {conflict.title}
+                            </p>
+                            <p className="text-sm text-zen-text-secondary mt-0.5">{describeConflict(conflict)}</p>
+                        </div>
+                        <div className="flex gap-2 shrink-0">
+                            <button
+                                onClick={() => handleResolve(conflict, false)}
+                                className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                            >
+                                Keep
+                            </button>
+                            <button
+                                onClick={() => handleResolve(conflict, true)}
+                                className="px-3 py-1.5 text-sm bg-zen-accent text-white rounded-zen hover:bg-zen-accent/90 transition-colors"
+                            >
+                                {applyLabels[conflict.kind]}
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,2 @@
+export { FolderSyncCard } from './FolderSyncCard';
+export { SyncConflictsCard } from './SyncConflictsCard';
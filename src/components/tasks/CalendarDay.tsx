@@ -1,17 +1,20 @@
 /**
  * @fileoverview Calendar day cell component
  * 
- * Represents a single day in the calendar grid with tasks.
+ * Represents a single day in the calendar grid with tasks and any
+ * read-only entries from imported calendars.
  * 
  * @module components/tasks/CalendarDay
  */
 
 import { motion } from 'framer-motion';
-import type { Task } from '../../types';
+import { CalendarClock } from 'lucide-react';
+import type { Task, CalendarEntry } from '../../types';
 
 interface CalendarDayProps {
     date: Date;
     tasks: Task[];
+    overlayEntries?: CalendarEntry[];
     isCurrentMonth: boolean;
     isToday: boolean;
     onTaskToggle: (id: string) => void;
@@ -27,6 +30,7 @@ const priorityDotColors = {
 export function CalendarDay({
     date,
     tasks,
+    overlayEntries = [],
     isCurrentMonth,
     isToday,
     onTaskToggle,
@@ -35,7 +39,8 @@ export function CalendarDay({
     const dayNumber = date.getDate();
     const maxVisibleTasks = 3;
     const visibleTasks = tasks.slice(0, maxVisibleTasks);
-    const remainingCount = tasks.length - maxVisibleTasks;
+    const visibleEntries = overlayEntries.slice(0, maxVisibleTasks - visibleTasks.length);
+    const remainingCount = tasks.length + overlayEntries.length - maxVisibleTasks;
 
     return (
         <motion.div
@@ -86,6 +91,19 @@ export function CalendarDay({
                     </motion.div>
                 ))}
 
+                {visibleEntries.map((entry, index) => (
+                    <div
+                        key={`${entry.uid}-${index}`}
+                        onClick={(e) => e.stopPropagation()}
+                        title={entry.time ? `${entry.time} ${entry.title}` : entry.title}
+                        className="flex items-center gap-1.5 px-1.5 py-0.5 rounded text-xs cursor-default
+                                   border border-dashed border-zen-border text-zen-text-secondary"
+                    >
+                        <CalendarClock size={10} className="shrink-0" />
+                        <span className="truncate">{entry.title}</span>
+                    </div>
+                ))}
+
                 {remainingCount > 0 && (
                     <div className="text-xs text-zen-text-muted px-1.5">
                         +{remainingCount} more
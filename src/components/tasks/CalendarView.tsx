@@ -2,7 +2,8 @@
  * @fileoverview Calendar view component for task visualization
  * 
  * Displays tasks on a monthly calendar grid based on their due dates.
- * Provides month navigation and task interaction.
+ * Provides month navigation and task interaction. Entries from imported
+ * calendars can be shown alongside tasks as a read-only overlay.
  * 
  * @module components/tasks/CalendarView
  */
@@ -11,10 +12,12 @@ import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon } from 'lucide-react';
 import { CalendarDay } from './CalendarDay';
-import type { Task } from '../../types';
+import { occursOn } from '../../services/icalendar';
+import type { Task, CalendarEntry } from '../../types';
 
 interface CalendarViewProps {
     tasks: Task[];
+    overlayEntries?: CalendarEntry[];
     onTaskToggle: (id: string) => void;
     onAddTask?: (dueDate: string) => void;
 }
@@ -58,6 +61,7 @@ function formatDateKey(date: Date): string {
 
 export function CalendarView({
     tasks,
+    overlayEntries = [],
     onTaskToggle,
     onAddTask,
 }: CalendarViewProps) {
@@ -156,6 +160,7 @@ export function CalendarView({
                 {calendarDays.map((date, index) => {
                     const dateKey = formatDateKey(date);
                     const dayTasks = tasksByDate.get(dateKey) || [];
+                    const dayEntries = overlayEntries.filter(entry => occursOn(entry, dateKey));
                     const isCurrentMonth = date.getMonth() === month;
                     const isToday = date.getTime() === today.getTime();
 
@@ -164,6 +169,7 @@ export function CalendarView({
                             key={index}
                             date={date}
                             tasks={dayTasks}
+                            overlayEntries={dayEntries}
                             isCurrentMonth={isCurrentMonth}
                             isToday={isToday}
                             onTaskToggle={onTaskToggle}
@@ -11,13 +11,14 @@
 
 import { motion } from 'framer-motion';
 import { KanbanColumn } from './KanbanColumn';
-import type { Task } from '../../types';
+import type { SubtaskProgress, Task } from '../../types';
 
 interface KanbanBoardProps {
     tasks: Task[];
     onToggle: (id: string) => void;
     onDelete: (id: string) => void;
     onAddClick?: () => void;
+    subtaskProgress?: Map<string, SubtaskProgress>;
 }
 
 export function KanbanBoard({
@@ -25,6 +26,7 @@ export function KanbanBoard({
     onToggle,
     onDelete,
     onAddClick,
+    subtaskProgress,
 }: KanbanBoardProps) {
     // Separate tasks by completion status
     const todoTasks = tasks.filter(t => !t.completed && t.priority !== 'high');
@@ -44,6 +46,7 @@ export function KanbanBoard({
                 color="bg-zen-text-muted"
                 onToggle={onToggle}
                 onDelete={onDelete}
+                subtaskProgress={subtaskProgress}
                 onAddClick={onAddClick}
             />
 
@@ -54,6 +57,7 @@ export function KanbanBoard({
                 color="bg-priority-medium"
                 onToggle={onToggle}
                 onDelete={onDelete}
+                subtaskProgress={subtaskProgress}
             />
 
             <KanbanColumn
@@ -63,6 +67,7 @@ export function KanbanBoard({
                 color="bg-zen-sage"
                 onToggle={onToggle}
                 onDelete={onDelete}
+                subtaskProgress={subtaskProgress}
             />
         </motion.div>
     );
@@ -9,7 +9,7 @@
 import { motion } from 'framer-motion';
 import { Plus } from 'lucide-react';
 import { TaskCard } from './TaskCard';
-import type { Task } from '../../types';
+import type { SubtaskProgress, Task } from '../../types';
 
 interface KanbanColumnProps {
     title: string;
@@ -19,6 +19,7 @@ interface KanbanColumnProps {
     onToggle: (id: string) => void;
     onDelete: (id: string) => void;
     onAddClick?: () => void;
+    subtaskProgress?: Map<string, SubtaskProgress>;
 }
 
 export function KanbanColumn({
@@ -29,6 +30,7 @@ export function KanbanColumn({
     onToggle,
     onDelete,
     onAddClick,
+    subtaskProgress,
 }: KanbanColumnProps) {
     return (
         <motion.div
@@ -70,6 +72,7 @@ export function KanbanColumn({
                             onToggle={onToggle}
                             onDelete={onDelete}
                             isDraggable={false}
+                            subtasks={subtaskProgress?.get(task.id)}
                         />
                     </motion.div>
                 ))}
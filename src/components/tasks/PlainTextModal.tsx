@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Plain Text Modal Component
+ *
+ * Copy tasks out as a todo.txt list or Markdown checklist, or paste a
+ * list from another tool to add its items as tasks.
+ *
+ * @module components/tasks/PlainTextModal
+ */
+
+import { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Copy, Plus } from 'lucide-react';
+import { formatTasks, parseTasks, detectFormat } from '../../services/plainText';
+import type { PlainTextFormat } from '../../services/plainText';
+import type { Task, Project } from '../../types';
+
+type PlainTextTab = 'export' | 'import';
+
+interface PlainTextModalProps {
+    /** Whether modal is open */
+    isOpen: boolean;
+    /** Tasks to export (the currently filtered list) */
+    tasks: Task[];
+    /** Projects, used for `+Project` tags */
+    projects: Project[];
+    /** Close handler */
+    onClose: () => void;
+    /** Called with the pasted text and the category to add it to */
+    onImport: (text: string, format: PlainTextFormat, category: Task['category']) => void;
+    /** Called after the export text is copied */
+    onCopied: () => void;
+}
+
+const formatOptions: { value: PlainTextFormat; label: string }[] = [
+    { value: 'markdown', label: 'Markdown' },
+    { value: 'todotxt', label: 'todo.txt' },
+];
+
+const categoryOptions: { value: Task['category']; label: string }[] = [
+    { value: 'today', label: 'Today' },
+    { value: 'week', label: 'This Week' },
+    { value: 'backlog', label: 'Backlog' },
+];
+
+export function PlainTextModal({
+    isOpen,
+    tasks,
+    projects,
+    onClose,
+    onImport,
+    onCopied,
+}: PlainTextModalProps) {
+    const [tab, setTab] = useState<PlainTextTab>('export');
+    const [exportFormat, setExportFormat] = useState<PlainTextFormat>('markdown');
+    const [pastedText, setPastedText] = useState('');
+    const [category, setCategory] = useState<Task['category']>('backlog');
+
+    const exportText = useMemo(
+        () => formatTasks(exportFormat, tasks, projects),
+        [exportFormat, tasks, projects]
+    );
+
+    const importFormat = detectFormat(pastedText);
+    const parsedCount = useMemo(() => parseTasks(pastedText, importFormat).length, [pastedText, importFormat]);
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(exportText);
+        onCopied();
+    };
+
+    const handleImport = () => {
+        if (parsedCount === 0) return;
+        onImport(pastedText, importFormat, category);
+        setPastedText('');
+        onClose();
+    };
+
+    const textareaClass = `w-full h-64 px-3 py-2.5 rounded-zen border border-zen-border bg-zen-bg
+        font-mono text-xs text-zen-text placeholder:text-zen-text-muted resize-none
+        focus:outline-none focus:border-zen-accent focus:ring-1 focus:ring-zen-accent/20
+        transition-all duration-200`;
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black/50 z-40"
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        transition={{ duration: 0.2 }}
+                        onKeyDown={(e) => e.key === 'Escape' && onClose()}
+                        className="fixed top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50
+                            w-full max-w-xl bg-zen-card rounded-xl border border-zen-border
+                            shadow-zen-lg p-6"
+                    >
+                        {/* Header */}
+                        <div className="flex items-center justify-between mb-4">
+                            <div className="flex items-center bg-zen-surface rounded-zen p-1">
+                                {(['export', 'import'] as const).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setTab(option)}
+                                        className={`px-3 py-1.5 rounded-md text-sm capitalize transition-all
+                                            ${tab === option
+                                                ? 'bg-zen-card text-zen-text shadow-zen-sm'
+                                                : 'text-zen-text-muted hover:text-zen-text'
+                                            }`}
+                                    >
+                                        {option}
+                                    </button>
+                                ))}
+                            </div>
+                            <button
+                                onClick={onClose}
+                                className="p-1.5 rounded-md text-zen-text-muted hover:text-zen-text
+                                    hover:bg-zen-surface transition-colors"
+                            >
+                                <X size={18} />
+                            </button>
+                        </div>
+
+                        {tab === 'export' ? (
+                            <div className="space-y-4">
+                                <div className="flex items-center justify-between">
+                                    <p className="text-sm text-zen-text-secondary">
+                                        {tasks.length} tasks, matching the current filters.
+                                    </p>
+                                    <select
+                                        value={exportFormat}
+                                        onChange={(e) => setExportFormat(e.target.value as PlainTextFormat)}
+                                        className="text-sm bg-zen-surface border border-zen-border rounded-md
+                                                   px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                                                   transition-colors cursor-pointer"
+                                    >
+                                        {formatOptions.map(opt => (
+                                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <textarea readOnly value={exportText} className={textareaClass} />
+                                <button
+                                    onClick={handleCopy}
+                                    disabled={tasks.length === 0}
+                                    className="w-full py-2.5 px-4 rounded-zen bg-zen-accent text-white
+                                        text-sm font-medium hover:bg-zen-accent/90
+                                        disabled:opacity-50 disabled:cursor-not-allowed
+                                        transition-colors duration-200 flex items-center justify-center gap-2"
+                                >
+                                    <Copy size={16} />
+                                    Copy to clipboard
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="space-y-4">
+                                <p className="text-sm text-zen-text-secondary">
+                                    Paste a todo.txt list or a Markdown checklist, one task per line.
+                                </p>
+                                <textarea
+                                    autoFocus
+                                    value={pastedText}
+                                    onChange={(e) => setPastedText(e.target.value)}
+                                    placeholder={'- [ ] (A) Write release notes +Website due:2026-01-31\n- [x] Update dependencies'}
+                                    className={textareaClass}
+                                />
+                                <div className="flex items-center justify-between gap-3">
+                                    <label className="flex items-center gap-2 text-sm text-zen-text-secondary">
+                                        Add to
+                                        <select
+                                            value={category}
+                                            onChange={(e) => setCategory(e.target.value as Task['category'])}
+                                            className="text-sm bg-zen-surface border border-zen-border rounded-md
+                                                       px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                                                       transition-colors cursor-pointer"
+                                        >
+                                            {categoryOptions.map(opt => (
+                                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                    <button
+                                        onClick={handleImport}
+                                        disabled={parsedCount === 0}
+                                        className="py-2.5 px-4 rounded-zen bg-zen-accent text-white
+                                            text-sm font-medium hover:bg-zen-accent/90
+                                            disabled:opacity-50 disabled:cursor-not-allowed
+                                            transition-colors duration-200 flex items-center justify-center gap-2"
+                                    >
+                                        <Plus size={16} />
+                                        Add {parsedCount} {parsedCount === 1 ? 'task' : 'tasks'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
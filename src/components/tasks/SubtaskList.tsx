@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Subtask List Component
+ *
+ * Checklist of a task's subtasks inside the edit modal. Subtasks can be
+ * completed, renamed, given a due date, dragged into order, deleted and
+ * added. Changes are stored right away rather than on "Save Changes".
+ *
+ * @module components/tasks/SubtaskList
+ */
+
+import { useState } from 'react';
+import { Reorder } from 'framer-motion';
+import { Check, GripVertical, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { useSubtasks } from '../../hooks/useTasks';
+
+interface SubtaskListProps {
+    /** Task whose subtasks are shown */
+    parentId: string;
+}
+
+export function SubtaskList({ parentId }: SubtaskListProps) {
+    const {
+        subtasks,
+        completedCount,
+        addSubtask,
+        toggleSubtask,
+        updateSubtask,
+        deleteSubtask,
+        reorderSubtasks,
+    } = useSubtasks(parentId);
+    const [newTitle, setNewTitle] = useState('');
+
+    const handleAdd = () => {
+        if (!newTitle.trim()) return;
+        addSubtask(newTitle.trim());
+        setNewTitle('');
+    };
+
+    const handleRename = (id: string, current: string, title: string) => {
+        if (title.trim() && title.trim() !== current) {
+            updateSubtask(id, { title: title.trim() });
+        }
+    };
+
+    return (
+        <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-zen-text-secondary mb-1.5">
+                <ListChecks size={14} />
+                <span className="flex-1">Subtasks</span>
+                {subtasks.length > 0 && (
+                    <span className="text-xs text-zen-text-muted">
+                        {completedCount}/{subtasks.length}
+                    </span>
+                )}
+            </label>
+
+            {subtasks.length > 0 && (
+                <Reorder.Group
+                    axis="y"
+                    values={subtasks}
+                    onReorder={reorderSubtasks}
+                    className="space-y-1 mb-2 max-h-48 overflow-y-auto"
+                >
+                    {subtasks.map((subtask) => (
+                        <Reorder.Item
+                            key={subtask.id}
+                            value={subtask}
+                            id={subtask.id}
+                            className="group flex items-center gap-2 px-2 py-1.5 rounded-md bg-zen-bg border border-zen-border"
+                        >
+                            <div className="cursor-grab active:cursor-grabbing text-zen-text-muted hover:text-zen-text">
+                                <GripVertical size={14} />
+                            </div>
+
+                            <button
+                                type="button"
+                                onClick={() => toggleSubtask(subtask.id)}
+                                className={`w-4 h-4 rounded border-2 flex items-center justify-center shrink-0
+                                    transition-all duration-200 ${subtask.completed
+                                        ? 'bg-zen-sage border-zen-sage'
+                                        : 'border-zen-border hover:border-zen-accent'
+                                    }`}
+                            >
+                                {subtask.completed && <Check size={10} className="text-white" strokeWidth={3} />}
+                            </button>
+
+                            <input
+                                key={subtask.title}
+                                type="text"
+                                defaultValue={subtask.title}
+                                onBlur={(e) => handleRename(subtask.id, subtask.title, e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter' && !e.ctrlKey) e.currentTarget.blur();
+                                }}
+                                className={`flex-1 min-w-0 bg-transparent text-sm focus:outline-none ${subtask.completed
+                                    ? 'text-zen-text-muted line-through'
+                                    : 'text-zen-text'
+                                    }`}
+                            />
+
+                            <input
+                                type="date"
+                                value={subtask.dueDate || ''}
+                                onChange={(e) => updateSubtask(subtask.id, { dueDate: e.target.value || undefined })}
+                                className="w-32 bg-transparent text-xs text-zen-text-muted focus:outline-none"
+                                title="Due date"
+                            />
+
+                            <button
+                                type="button"
+                                onClick={() => deleteSubtask(subtask.id)}
+                                className="p-1 rounded-md text-zen-text-muted hover:text-priority-high hover:bg-priority-high/10
+                                    opacity-0 group-hover:opacity-100 transition-all duration-200"
+                                title="Delete subtask"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </Reorder.Item>
+                    ))}
+                </Reorder.Group>
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={newTitle}
+                    onChange={(e) => setNewTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.ctrlKey) handleAdd();
+                    }}
+                    className="flex-1 px-3 py-2 rounded-zen border border-zen-border bg-zen-bg
+                        text-sm text-zen-text placeholder:text-zen-text-muted
+                        focus:outline-none focus:border-zen-accent focus:ring-1 focus:ring-zen-accent/20
+                        transition-all duration-200"
+                    placeholder="Add a subtask"
+                />
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={!newTitle.trim()}
+                    className="px-3 rounded-zen border border-zen-border text-zen-text-muted
+                        hover:border-zen-accent hover:text-zen-accent
+                        disabled:opacity-50 disabled:cursor-not-allowed
+                        transition-all duration-200"
+                    title="Add subtask"
+                >
+                    <Plus size={16} />
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
-import { Check, Trash2, Calendar, GripVertical, Repeat, Clock, Pencil } from 'lucide-react';
-import type { Task } from '../../types';
+import { Check, Trash2, Calendar, GripVertical, Repeat, Clock, Pencil, ListChecks } from 'lucide-react';
+import type { SubtaskProgress, Task } from '../../types';
 
 interface TaskCardProps {
     task: Task;
@@ -8,6 +8,8 @@ interface TaskCardProps {
     onDelete: (id: string) => void;
     onEdit?: (task: Task) => void;
     isDraggable?: boolean;
+    /** Progress of the task's subtasks, if it has any */
+    subtasks?: SubtaskProgress;
 }
 
 
@@ -52,7 +54,7 @@ function formatDueDate(dateString: string, timeString?: string): { text: string;
 }
 
 
-export function TaskCard({ task, onToggle, onDelete, onEdit, isDraggable = false }: TaskCardProps) {
+export function TaskCard({ task, onToggle, onDelete, onEdit, isDraggable = false, subtasks }: TaskCardProps) {
     const dueInfo = task.dueDate ? formatDueDate(task.dueDate, task.dueTime) : null;
 
     const content = (
@@ -113,6 +115,17 @@ export function TaskCard({ task, onToggle, onDelete, onEdit, isDraggable = false
                     </div>
                 )}
 
+                {/* Subtask Progress */}
+                {subtasks && subtasks.total > 0 && (
+                    <div className={`flex items-center gap-1 mt-0.5 text-xs ${subtasks.done === subtasks.total
+                        ? 'text-zen-sage'
+                        : 'text-zen-text-muted'
+                        }`}>
+                        <ListChecks size={10} />
+                        <span>{subtasks.done}/{subtasks.total}</span>
+                    </div>
+                )}
+
                 {/* Recurring Indicator */}
                 {task.isRecurring && (
                     <div className="flex items-center gap-1 mt-0.5 text-xs text-zen-sage">
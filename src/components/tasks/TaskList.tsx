@@ -3,7 +3,7 @@ import { motion, AnimatePresence, Reorder } from 'framer-motion';
 import { Plus } from 'lucide-react';
 import { TaskCard } from './TaskCard';
 import { TaskModal } from './TaskModal';
-import type { Task } from '../../types';
+import type { SubtaskProgress, Task } from '../../types';
 
 interface TaskListProps {
     title: string;
@@ -20,6 +20,8 @@ interface TaskListProps {
     onDelete: (id: string) => void;
     onEdit?: (task: Task) => void;
     onReorder?: (tasks: Task[]) => void;
+    /** Subtask progress by task ID, for the progress shown on cards */
+    subtaskProgress?: Map<string, SubtaskProgress>;
     showInput?: boolean;
     enableDragDrop?: boolean;
 }
@@ -33,6 +35,7 @@ export function TaskList({
     onDelete,
     onEdit,
     onReorder,
+    subtaskProgress,
     showInput = true,
     enableDragDrop = false,
 }: TaskListProps) {
@@ -83,6 +86,7 @@ export function TaskList({
                             onDelete={onDelete}
                             onEdit={onEdit}
                             isDraggable={true}
+                            subtasks={subtaskProgress?.get(task.id)}
                         />
                     ))}
                 </Reorder.Group>
@@ -97,6 +101,7 @@ export function TaskList({
                                 onDelete={onDelete}
                                 onEdit={onEdit}
                                 isDraggable={false}
+                                subtasks={subtaskProgress?.get(task.id)}
                             />
                         ))}
                     </AnimatePresence>
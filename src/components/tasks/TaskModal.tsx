@@ -2,13 +2,16 @@
  * @fileoverview Task Modal Component
  * 
  * Unified modal for creating and editing tasks - title, date, time, priority, and recurring status.
+ * When editing, the task's subtasks and its change history are shown below the form.
  * 
  * @module components/tasks/TaskModal
  */
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Calendar, Clock, Repeat, Plus } from 'lucide-react';
+import { X, Calendar, Clock, Repeat, Plus, History, ChevronDown } from 'lucide-react';
+import { TaskHistory } from '../activity';
+import { SubtaskList } from './SubtaskList';
 import type { Task } from '../../types';
 
 type TaskModalMode = 'add' | 'edit';
@@ -46,6 +49,7 @@ export function TaskModal({
     const [dueTime, setDueTime] = useState('');
     const [priority, setPriority] = useState<Task['priority']>('medium');
     const [isRecurring, setIsRecurring] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
 
     const mode: TaskModalMode = task ? 'edit' : 'add';
 
@@ -233,6 +237,29 @@ export function TaskModal({
                                 <Repeat size={14} />
                                 <span>Daily recurring</span>
                             </button>
+
+                            {/* Subtasks (edit mode) */}
+                            {mode === 'edit' && task && <SubtaskList parentId={task.id} />}
+
+                            {/* History (edit mode) */}
+                            {mode === 'edit' && task && (
+                                <div className="border-t border-zen-border pt-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowHistory(!showHistory)}
+                                        className="w-full flex items-center gap-2 text-sm font-medium text-zen-text-secondary
+                                            hover:text-zen-text transition-colors"
+                                    >
+                                        <History size={14} />
+                                        <span className="flex-1 text-left">History</span>
+                                        <ChevronDown
+                                            size={14}
+                                            className={`transition-transform duration-200 ${showHistory ? 'rotate-180' : ''}`}
+                                        />
+                                    </button>
+                                    {showHistory && <TaskHistory key={task.id} taskId={task.id} />}
+                                </div>
+                            )}
                         </div>
 
                         {/* Actions */}
@@ -7,5 +7,7 @@ export { KanbanColumn } from './KanbanColumn';
 export { CalendarView } from './CalendarView';
 export { CalendarDay } from './CalendarDay';
 export { TaskModal, TaskEditModal } from './TaskModal';
+export { SubtaskList } from './SubtaskList';
 
 
+export { PlainTextModal } from './PlainTextModal';
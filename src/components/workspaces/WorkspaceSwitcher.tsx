@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Workspace switcher for the sidebar
+ *
+ * Shows the open workspace and lists the others to switch to, with a
+ * quick way to add a new one. Renaming, duplicating and deleting live in
+ * WorkspacesCard on the Settings page.
+ *
+ * @module components/workspaces/WorkspaceSwitcher
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Layers, Check, ChevronsUpDown, Plus, Settings } from 'lucide-react';
+import { useDatabase } from '../../hooks/useDatabase';
+import { useWorkspaces } from '../../hooks/useWorkspaces';
+import { useToast } from '../../hooks/useToast';
+import { createWorkspace } from '../../services/workspaces';
+
+interface WorkspaceSwitcherProps {
+    isCollapsed: boolean;
+    /** Open the page where workspaces are managed */
+    onManage: () => void;
+}
+
+export function WorkspaceSwitcher({ isCollapsed, onManage }: WorkspaceSwitcherProps) {
+    const { workspaceId, switchWorkspace } = useDatabase();
+    const workspaces = useWorkspaces();
+    const { showToast } = useToast();
+    const [isOpen, setIsOpen] = useState(false);
+    const [newName, setNewName] = useState<string | null>(null);
+
+    const current = workspaces.find(workspace => workspace.id === workspaceId);
+
+    const close = () => {
+        setIsOpen(false);
+        setNewName(null);
+    };
+
+    const handleSwitch = (id: string) => {
+        close();
+        switchWorkspace(id);
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newName === null) return;
+
+        try {
+            const workspace = createWorkspace(newName);
+            handleSwitch(workspace.id);
+            showToast(`Switched to ${workspace.name}`, 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Could not create the workspace', 'error');
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => (isOpen ? close() : setIsOpen(true))}
+                title={current?.name}
+                className="w-full flex items-center gap-3 px-3 py-2 rounded-zen text-zen-text-secondary
+                    hover:bg-zen-card/50 hover:text-zen-text transition-colors duration-200"
+            >
+                <Layers size={18} className="shrink-0" />
+                {!isCollapsed && (
+                    <>
+                        <span className="flex-1 min-w-0 text-left text-sm font-medium truncate">
+                            {current?.name ?? 'Workspace'}
+                        </span>
+                        <ChevronsUpDown size={14} className="shrink-0 text-zen-text-muted" />
+                    </>
+                )}
+            </button>
+
+            <AnimatePresence>
+                {isOpen && (
+                    <>
+                        {/* Closes the menu when clicking anywhere else */}
+                        <div className="fixed inset-0 z-40" onClick={close} />
+                        <motion.div
+                            initial={{ opacity: 0, y: -4 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -4 }}
+                            transition={{ duration: 0.15 }}
+                            className="absolute left-0 top-full mt-1 z-50 w-56 bg-zen-card rounded-zen-lg
+                                border border-zen-border shadow-zen-lg p-1.5"
+                        >
+                            <ul className="max-h-64 overflow-y-auto">
+                                {workspaces.map(workspace => (
+                                    <li key={workspace.id}>
+                                        <button
+                                            onClick={() => handleSwitch(workspace.id)}
+                                            className="w-full flex items-center gap-2 px-2.5 py-2 rounded-zen text-sm text-zen-text
+                                                hover:bg-zen-surface transition-colors"
+                                        >
+                                            <span className="flex-1 min-w-0 text-left truncate">{workspace.name}</span>
+                                            {workspace.id === workspaceId && (
+                                                <Check size={14} className="shrink-0 text-zen-accent" />
+                                            )}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+
+                            <div className="mt-1 pt-1 border-t border-zen-border">
+                                {newName === null ? (
+                                    <button
+                                        onClick={() => setNewName('')}
+                                        className="w-full flex items-center gap-2 px-2.5 py-2 rounded-zen text-sm text-zen-text-secondary
+                                            hover:bg-zen-surface hover:text-zen-text transition-colors"
+                                    >
+                                        <Plus size={14} />
+                                        New workspace
+                                    </button>
+                                ) : (
+                                    <form onSubmit={handleCreate} className="p-1">
+                                        <input
+                                            value={newName}
+                                            onChange={(e) => setNewName(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Escape' && setNewName(null)}
+                                            placeholder="Workspace name"
+                                            autoFocus
+                                            className="w-full px-2.5 py-1.5 rounded-zen border border-zen-border bg-zen-bg
+                                                text-sm text-zen-text placeholder:text-zen-text-muted
+                                                focus:outline-none focus:border-zen-accent transition-colors"
+                                        />
+                                    </form>
+                                )}
+                                <button
+                                    onClick={() => {
+                                        close();
+                                        onManage();
+                                    }}
+                                    className="w-full flex items-center gap-2 px-2.5 py-2 rounded-zen text-sm text-zen-text-secondary
+                                        hover:bg-zen-surface hover:text-zen-text transition-colors"
+                                >
+                                    <Settings size={14} />
+                                    Manage workspaces
+                                </button>
+                            </div>
+                        </motion.div>
+                    </>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
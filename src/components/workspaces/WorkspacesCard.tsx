@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Workspaces Card Component
+ *
+ * Lists the workspaces on the Settings page to create, open, rename,
+ * duplicate and delete them. Deleting removes the workspace's data and
+ * snapshots for good, so it asks for confirmation first.
+ *
+ * @module components/workspaces/WorkspacesCard
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Layers, Pencil, Copy, Trash2, Plus, AlertCircle } from 'lucide-react';
+import { useDatabase } from '../../hooks/useDatabase';
+import { useWorkspaces } from '../../hooks/useWorkspaces';
+import { useToast } from '../../hooks/useToast';
+import { createWorkspace, renameWorkspace, duplicateWorkspace, deleteWorkspace } from '../../services/workspaces';
+import { DEFAULT_WORKSPACE_ID } from '../../services/storage';
+import type { Workspace } from '../../services/workspaces';
+
+export function WorkspacesCard() {
+    const { workspaceId, switchWorkspace } = useDatabase();
+    const workspaces = useWorkspaces();
+    const { showToast } = useToast();
+    const [newName, setNewName] = useState('');
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    /**
+     * Runs an action with a busy state and error toast.
+     */
+    const runAction = async (action: () => void | Promise<void>, successMessage?: string) => {
+        setIsBusy(true);
+        try {
+            await action();
+            if (successMessage) showToast(successMessage, 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Something went wrong', 'error');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        runAction(() => {
+            const workspace = createWorkspace(newName);
+            setNewName('');
+            showToast(`Created ${workspace.name}`, 'success');
+        });
+    };
+
+    const handleRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+        runAction(() => {
+            renameWorkspace(editing.id, editing.name);
+            setEditing(null);
+        });
+    };
+
+    const handleDuplicate = (workspace: Workspace) => {
+        runAction(async () => {
+            await duplicateWorkspace(workspace.id, `${workspace.name} copy`);
+        }, `Duplicated ${workspace.name}`);
+    };
+
+    const handleDelete = (workspace: Workspace) => {
+        setConfirmDeleteId(null);
+        runAction(() => deleteWorkspace(workspace.id), `Deleted ${workspace.name}`);
+    };
+
+    return (
+        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm space-y-4">
+            <div>
+                <div className="flex items-center gap-2">
+                    <Layers className="text-zen-accent" size={18} />
+                    <h3 className="font-semibold text-zen-text">Workspaces</h3>
+                </div>
+                <p className="text-sm text-zen-text-muted mt-0.5">
+                    Keep separate sets of tasks and projects, e.g. for work and personal life. Each workspace
+                    has its own settings, wheel, timer and snapshots. Switch between them from the sidebar.
+                </p>
+            </div>
+
+            <ul className="space-y-2">
+                {workspaces.map(workspace => {
+                    const isOpen = workspace.id === workspaceId;
+                    const canDelete = !isOpen && workspace.id !== DEFAULT_WORKSPACE_ID;
+
+                    return (
+                        <li key={workspace.id} className="group p-3 bg-zen-surface rounded-zen">
+                            <div className="flex items-center gap-3">
+                                {editing?.id === workspace.id ? (
+                                    <form onSubmit={handleRename} className="flex-1 min-w-0">
+                                        <input
+                                            value={editing.name}
+                                            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                                            onBlur={handleRename}
+                                            onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                                            autoFocus
+                                            className="w-full px-2.5 py-1 rounded-zen border border-zen-border bg-zen-bg
+                                                text-sm text-zen-text focus:outline-none focus:border-zen-accent transition-colors"
+                                        />
+                                    </form>
+                                ) : (
+                                    <p className="flex-1 min-w-0 text-sm text-zen-text truncate">
+                                        {workspace.name}
+                                        {isOpen && <span className="ml-2 text-xs text-zen-accent">Open</span>}
+                                    </p>
+                                )}
+
+                                {!isOpen && (
+                                    <button
+                                        onClick={() => switchWorkspace(workspace.id)}
+                                        disabled={isBusy}
+                                        className="px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-accent
+                                            hover:bg-zen-accent/10 rounded-zen disabled:opacity-50 transition-colors"
+                                    >
+                                        Open
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setEditing({ id: workspace.id, name: workspace.name })}
+                                    disabled={isBusy}
+                                    className="p-1.5 text-zen-text-muted hover:text-zen-text disabled:opacity-50 transition-colors"
+                                    aria-label="Rename workspace"
+                                >
+                                    <Pencil size={14} />
+                                </button>
+                                <button
+                                    onClick={() => handleDuplicate(workspace)}
+                                    disabled={isBusy}
+                                    className="p-1.5 text-zen-text-muted hover:text-zen-text disabled:opacity-50 transition-colors"
+                                    aria-label="Duplicate workspace"
+                                >
+                                    <Copy size={14} />
+                                </button>
+                                {canDelete && (
+                                    <button
+                                        onClick={() => setConfirmDeleteId(workspace.id)}
+                                        disabled={isBusy}
+                                        className="p-1.5 text-zen-text-muted hover:text-rose-500 disabled:opacity-50 transition-colors"
+                                        aria-label="Delete workspace"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </div>
+
+                            <AnimatePresence>
+                                {confirmDeleteId === workspace.id && (
+                                    <motion.div
+                                        initial={{ opacity: 0, height: 0 }}
+                                        animate={{ opacity: 1, height: 'auto' }}
+                                        exit={{ opacity: 0, height: 0 }}
+                                        transition={{ duration: 0.2 }}
+                                        className="overflow-hidden"
+                                    >
+                                        <div className="mt-3 flex items-center gap-3">
+                                            <AlertCircle size={16} className="text-rose-500 shrink-0" />
+                                            <span className="flex-1 text-sm text-zen-text">
+                                                Delete this workspace with all of its tasks, projects and snapshots?
+                                            </span>
+                                            <button
+                                                onClick={() => setConfirmDeleteId(null)}
+                                                className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                            >
+                                                Cancel
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(workspace)}
+                                                className="px-3 py-1.5 text-sm bg-rose-500 text-white rounded-zen hover:bg-rose-600 transition-colors"
+                                            >
+                                                Delete
+                                            </button>
+                                        </div>
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <form onSubmit={handleCreate} className="flex gap-2">
+                <input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="New workspace name"
+                    className="flex-1 px-3 py-2.5 rounded-zen border border-zen-border bg-zen-bg
+                        text-sm text-zen-text placeholder:text-zen-text-muted
+                        focus:outline-none focus:border-zen-accent focus:ring-1 focus:ring-zen-accent/20
+                        transition-all duration-200"
+                />
+                <button
+                    type="submit"
+                    disabled={!newName.trim() || isBusy}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-zen border border-zen-border
+                        text-sm font-medium text-zen-text-secondary hover:bg-zen-surface
+                        disabled:opacity-50 transition-colors duration-200 shrink-0"
+                >
+                    <Plus size={16} />
+                    Create
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,2 @@
+export { WorkspaceSwitcher } from './WorkspaceSwitcher';
+export { WorkspacesCard } from './WorkspacesCard';
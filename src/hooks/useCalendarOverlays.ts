@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Calendar overlay hook
+ *
+ * Keeps calendars imported from .ics files for read-only display on the
+ * task calendar. Overlays persist in localStorage.
+ *
+ * @module hooks/useCalendarOverlays
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import type { CalendarEntry, CalendarOverlay } from '../types';
+
+/**
+ * Hook for managing imported calendar overlays.
+ */
+export function useCalendarOverlays() {
+    const [overlays, setOverlays] = useLocalStorage<CalendarOverlay[]>('lumina-calendar-overlays', []);
+
+    /**
+     * Adds an imported calendar as a new overlay.
+     */
+    const addOverlay = useCallback((name: string, entries: CalendarEntry[]) => {
+        const overlay: CalendarOverlay = {
+            id: `overlay_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name,
+            importedAt: new Date().toISOString(),
+            entries: entries.filter(entry => entry.date),
+        };
+        setOverlays(prev => [...prev, overlay]);
+        return overlay;
+    }, [setOverlays]);
+
+    /**
+     * Removes an overlay from the calendar.
+     */
+    const removeOverlay = useCallback((id: string) => {
+        setOverlays(prev => prev.filter(overlay => overlay.id !== id));
+    }, [setOverlays]);
+
+    // All entries from every overlay, for the calendar grid
+    const overlayEntries = useMemo(() => overlays.flatMap(overlay => overlay.entries), [overlays]);
+
+    return {
+        overlays,
+        overlayEntries,
+        addOverlay,
+        removeOverlay,
+    };
+}
@@ -4,23 +4,72 @@
  * Provides database initialization state to the entire application.
  * Components should check isReady before accessing the database.
  * 
+ * An encrypted database waits, locked, until its passphrase is entered,
+ * and a damaged one waits until the user chooses how to recover it.
+ * Switching workspace closes the database and runs the same startup for
+ * the new workspace's one.
+ * 
  * @module hooks/useDatabase
  */
 
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useRef } from 'react';
 import type { ReactNode } from 'react';
-import { initDatabase, closeDatabase } from '../services/database';
+import {
+    initDatabase,
+    closeDatabase,
+    checkStorageQuota,
+    onRecordsChanged,
+    isDatabaseLocked,
+    unlockDatabase,
+    eraseLockedDatabase,
+    checkStoredDatabase,
+    recoverDatabase,
+    setDatabaseWorkspace,
+} from '../services/database';
+import { takeAutoSnapshotIfDue } from '../services/backup';
+import { migrateLegacySettings } from '../services/settingsRepository';
+import { purgeExpiredTrash } from '../services/trash';
+import { repairOrphanedTasks } from '../services/integrity';
+import { getLastWorkspaceId, rememberLastWorkspace } from '../services/workspaces';
+import type { DatabaseRecovery, RecoveryChoice } from '../services/recovery';
 
 interface DatabaseContextType {
     isReady: boolean;
     isError: boolean;
     error: Error | null;
+    /** Set while the database is encrypted and waiting for its passphrase */
+    isLocked: boolean;
+    /** Enter the passphrase; rejects if it is wrong */
+    unlock: (passphrase: string) => Promise<void>;
+    /** Delete the locked database and start with an empty one */
+    eraseAndStartOver: () => Promise<void>;
+    /** Set while the stored database is damaged and waiting for the user's choice */
+    recovery: DatabaseRecovery | null;
+    /** Replace the damaged database as chosen; rejects if the choice can't be used */
+    recover: (choice: RecoveryChoice) => Promise<void>;
+    /** Set when the storage backend is nearly full */
+    storageWarning: string | null;
+    /** Incremented whenever records change outside the stores; reload data when it changes */
+    revision: number;
+    /** Id of the workspace whose database is open */
+    workspaceId: string;
+    /** Close this workspace's database and open another's */
+    switchWorkspace: (id: string) => void;
 }
 
 const DatabaseContext = createContext<DatabaseContextType>({
     isReady: false,
     isError: false,
     error: null,
+    isLocked: false,
+    unlock: async () => undefined,
+    eraseAndStartOver: async () => undefined,
+    recovery: null,
+    recover: async () => undefined,
+    storageWarning: null,
+    revision: 0,
+    workspaceId: '',
+    switchWorkspace: () => undefined,
 });
 
 interface DatabaseProviderProps {
@@ -35,17 +84,72 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
     const [isReady, setIsReady] = useState(false);
     const [isError, setIsError] = useState(false);
     const [error, setError] = useState<Error | null>(null);
+    const [isLocked, setIsLocked] = useState(false);
+    const [recovery, setRecovery] = useState<DatabaseRecovery | null>(null);
+    const [storageWarning, setStorageWarning] = useState<string | null>(null);
+    const [revision, setRevision] = useState(0);
+    const [workspaceId, setWorkspaceId] = useState(getLastWorkspaceId);
+
+    // Lets startup continue once the database has been unlocked, erased or recovered
+    const continueStartup = useRef<(() => void) | null>(null);
 
     useEffect(() => {
         let mounted = true;
 
         const init = async () => {
             try {
+                await setDatabaseWorkspace(workspaceId);
+                if (!mounted) return;
+                rememberLastWorkspace(workspaceId);
+
+                if (await isDatabaseLocked()) {
+                    if (mounted) setIsLocked(true);
+                    await new Promise<void>(resolve => {
+                        continueStartup.current = resolve;
+                    });
+                    if (!mounted) return;
+                    setIsLocked(false);
+                }
+
+                const damage = await checkStoredDatabase();
+                if (damage) {
+                    if (mounted) setRecovery(damage);
+                    await new Promise<void>(resolve => {
+                        continueStartup.current = resolve;
+                    });
+                    if (!mounted) return;
+                    setRecovery(null);
+                }
+
                 await initDatabase();
+                await migrateLegacySettings();
+
+                try {
+                    await purgeExpiredTrash();
+                } catch (err) {
+                    console.warn('[DatabaseProvider] Emptying old trash failed:', err);
+                }
+
+                try {
+                    await repairOrphanedTasks();
+                } catch (err) {
+                    console.warn('[DatabaseProvider] Integrity check failed:', err);
+                }
+
                 if (mounted) {
                     setIsReady(true);
                     console.log('[DatabaseProvider] Database initialized successfully');
                 }
+
+                const warning = await checkStorageQuota();
+                if (mounted && warning) {
+                    setStorageWarning(warning);
+                }
+
+                // A failed snapshot must not block the app from starting
+                takeAutoSnapshotIfDue().catch((err) => {
+                    console.warn('[DatabaseProvider] Automatic snapshot failed:', err);
+                });
             } catch (err) {
                 if (mounted) {
                     setIsError(true);
@@ -57,14 +161,59 @@ export function DatabaseProvider({ children }: DatabaseProviderProps) {
 
         init();
 
+        // Restores, syncs and bulk changes bypass the stores; bump the revision so hooks reload
+        const unsubscribe = onRecordsChanged(() => setRevision(r => r + 1));
+
         return () => {
             mounted = false;
+            unsubscribe();
             closeDatabase();
         };
-    }, []);
+    }, [workspaceId]);
+
+    const unlock = async (passphrase: string) => {
+        await unlockDatabase(passphrase);
+        continueStartup.current?.();
+    };
+
+    const eraseAndStartOver = async () => {
+        await eraseLockedDatabase();
+        continueStartup.current?.();
+    };
+
+    const recover = async (choice: RecoveryChoice) => {
+        await recoverDatabase(choice);
+        continueStartup.current?.();
+    };
+
+    const switchWorkspace = (id: string) => {
+        if (id === workspaceId) return;
+
+        // Back to the state before startup; the effect then opens the new workspace
+        setIsReady(false);
+        setIsError(false);
+        setError(null);
+        setIsLocked(false);
+        setRecovery(null);
+        setStorageWarning(null);
+        setWorkspaceId(id);
+    };
 
     return (
-        <DatabaseContext.Provider value={{ isReady, isError, error }}>
+        <DatabaseContext.Provider value={{
+            isReady,
+            isError,
+            error,
+            isLocked,
+            unlock,
+            eraseAndStartOver,
+            recovery,
+            recover,
+            storageWarning,
+            revision,
+            workspaceId,
+            switchWorkspace,
+        }}>
             {children}
         </DatabaseContext.Provider>
     );
@@ -0,0 +1,111 @@
+/**
+ * @fileoverview Hooks for undoing task and project changes
+ *
+ * Connects the undo history to the keyboard, the Electron Edit menu and
+ * toasts. Inside text fields the shortcuts keep their usual meaning and
+ * undo typing instead.
+ *
+ * @module hooks/useHistory
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useToast } from './useToast';
+import type { ToastType } from './useToast';
+import { undo, redo, getLastCommand, undoCommand } from '../services/history';
+
+/**
+ * Whether keyboard focus is in a place that has its own undo.
+ */
+function isEditingText(): boolean {
+    const element = document.activeElement;
+    if (!(element instanceof HTMLElement)) return false;
+    return element.isContentEditable
+        || element instanceof HTMLTextAreaElement
+        || (element instanceof HTMLInputElement && !['checkbox', 'radio', 'button'].includes(element.type));
+}
+
+/**
+ * Handles Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS, Ctrl+Y also redoes) and
+ * the Electron Edit menu. Use once, near the root of the app.
+ */
+export function useUndoShortcuts() {
+    const { showToast } = useToast();
+
+    const run = useCallback((action: 'undo' | 'redo') => {
+        const command = action === 'undo' ? undo() : redo();
+        if (command) {
+            showToast(`${action === 'undo' ? 'Undid' : 'Redid'}: ${command.label}`, 'info');
+        } else {
+            showToast(`Nothing to ${action}`, 'info');
+        }
+    }, [showToast]);
+
+    useEffect(() => {
+        const electronAPI = window.electronAPI;
+
+        // The Edit menu owns the shortcuts in Electron and reports them here
+        if (electronAPI?.isElectron) {
+            return electronAPI.onEditCommand((action) => {
+                if (isEditingText()) {
+                    document.execCommand(action);
+                } else {
+                    run(action);
+                }
+            });
+        }
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditingText()) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                run(e.shiftKey ? 'redo' : 'undo');
+            } else if (key === 'y' && !e.shiftKey) {
+                e.preventDefault();
+                run('redo');
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [run]);
+}
+
+/**
+ * Returns a function that makes a change and shows a toast with an "Undo"
+ * button for it. If the change didn't record anything, e.g. because the
+ * write failed, the toast has no button.
+ *
+ * @example
+ * ```tsx
+ * const showUndoToast = useUndoToast();
+ *
+ * showUndoToast(() => deleteTask(id), 'Task moved to trash', 'info');
+ * ```
+ */
+export function useUndoToast() {
+    const { showToast } = useToast();
+
+    return useCallback((change: () => void, message: string, type: ToastType = 'success') => {
+        const previous = getLastCommand();
+        change();
+        const command = getLastCommand();
+
+        if (!command || command === previous) {
+            showToast(message, type);
+            return;
+        }
+
+        showToast(message, type, {
+            label: 'Undo',
+            onClick: () => {
+                if (undoCommand(command)) {
+                    showToast(`Undid: ${command.label}`, 'info');
+                } else {
+                    showToast('Newer changes were made since; press Ctrl+Z to step back', 'info');
+                }
+            },
+        });
+    }, [showToast]);
+}
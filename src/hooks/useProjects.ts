@@ -1,176 +1,60 @@
 /**
- * @fileoverview Project management hook with SQLite and localStorage support
+ * @fileoverview Project management hook
  * 
  * Provides all project-related functionality including creating, updating,
- * deleting, and status management. Uses SQLite when available, falls back to localStorage.
+ * deleting, and status management. Reads from the shared project store, so
+ * every component using it sees the same projects.
  * 
  * @module hooks/useProjects
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import { useLocalStorage } from './useLocalStorage';
-import { useDatabase } from './useDatabase';
-import { isDatabaseInitialized } from '../services/database';
-import * as projectRepo from '../services/projectRepository';
-import type { Project, ProjectStatus, ProjectColor } from '../types';
-
-/**
- * Generates a unique ID for new projects.
- */
-const generateId = () => `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-/**
- * Default demo projects for first-time users.
- */
-const defaultProjects: Project[] = [
-    {
-        id: 'demo-1',
-        name: 'App Redesign',
-        description: 'Modernize the user interface with a fresh, minimal look.',
-        progress: 65,
-        totalTasks: 12,
-        completedTasks: 8,
-        color: 'slate',
-        status: 'active',
-        createdAt: '2025-12-15T10:00:00Z',
-        deadline: '2026-01-15T23:59:59Z',
-        tags: ['design', 'frontend'],
-    },
-    {
-        id: 'demo-2',
-        name: 'Documentation',
-        description: 'Write comprehensive documentation for the API.',
-        progress: 30,
-        totalTasks: 10,
-        completedTasks: 3,
-        color: 'sage',
-        status: 'active',
-        createdAt: '2025-12-20T14:30:00Z',
-        deadline: '2026-01-31T23:59:59Z',
-        tags: ['docs'],
-    },
-];
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useProjectStore, useTaskStore } from './useTaskStore';
+import { groupCommands, recordCommand } from '../services/history';
+import type { ProjectStatus, ProjectTaskAction } from '../types';
 
 /**
  * Hook for managing projects in the application.
- * Uses SQLite when database is ready, falls back to localStorage.
  */
 export function useProjects() {
-    const { isReady: dbReady } = useDatabase();
-    const [localProjects, setLocalProjects] = useLocalStorage<Project[]>('lumina-projects', defaultProjects);
-    const [dbProjects, setDbProjects] = useState<Project[]>([]);
-    const [useDb, setUseDb] = useState(false);
-
-    // Load from SQLite when database is ready
-    useEffect(() => {
-        if (dbReady && isDatabaseInitialized()) {
-            try {
-                const projects = projectRepo.getAllProjects();
-                if (projects.length > 0) {
-                    setDbProjects(projects);
-                    setUseDb(true);
-                } else if (localProjects.length > 0) {
-                    // Migrate localStorage data to SQLite
-                    localProjects.forEach(project => {
-                        projectRepo.insertProject(project);
-                    });
-                    setDbProjects(localProjects);
-                    setUseDb(true);
-                    console.log('[useProjects] Migrated localStorage data to SQLite');
-                } else {
-                    setUseDb(true);
-                }
-            } catch (error) {
-                console.error('[useProjects] SQLite error, using localStorage:', error);
-                setUseDb(false);
-            }
-        }
-    }, [dbReady, localProjects]);
-
-    // Current projects
-    const projects = useDb ? dbProjects : localProjects;
-    const setProjects = useDb
-        ? (updater: Project[] | ((prev: Project[]) => Project[])) => {
-            setDbProjects(typeof updater === 'function' ? updater(dbProjects) : updater);
-        }
-        : setLocalProjects;
+    const store = useProjectStore();
+    const taskStore = useTaskStore();
+    const projects = useSyncExternalStore(store.subscribe, store.getAll);
+    const { updateProject } = store;
 
     /**
-     * Creates a new project with optional settings.
+     * Moves a project to the trash. Its tasks are first moved or unlinked if
+     * asked; otherwise they go to the trash too. The database does that
+     * itself, so reload the tasks and make undo bring them back. Storage
+     * that doesn't (localStorage) leaves them behind, and they are deleted
+     * one by one.
      */
-    const addProject = useCallback((
-        name: string,
-        description: string,
-        options?: {
-            color?: ProjectColor;
-            deadline?: string;
-            tags?: string[];
-        }
-    ) => {
-        const newProject: Project = {
-            id: generateId(),
-            name,
-            description,
-            progress: 0,
-            totalTasks: 0,
-            completedTasks: 0,
-            color: options?.color || 'slate',
-            status: 'active',
-            createdAt: new Date().toISOString(),
-            deadline: options?.deadline,
-            tags: options?.tags || [],
-        };
-
-        if (useDb) {
-            try {
-                projectRepo.insertProject(newProject);
-            } catch (error) {
-                console.error('[useProjects] Failed to insert project:', error);
+    const deleteProject = useCallback((id: string, taskAction: ProjectTaskAction = { type: 'delete' }) => {
+        groupCommands('Delete project', () => {
+            if (taskAction.type !== 'delete') {
+                taskStore.moveProjectTasks(id, taskAction.type === 'move' ? taskAction.projectId : undefined);
             }
-        }
 
-        setProjects((prev: Project[]) => [...prev, newProject]);
-        return newProject;
-    }, [setProjects, useDb]);
+            const projectTasks = taskStore.getAll().filter(task => task.projectId === id);
+            store.deleteProject(id);
 
-    /**
-     * Updates specific fields of a project.
-     */
-    const updateProject = useCallback((id: string, updates: Partial<Project>) => {
-        setProjects((prev: Project[]) => {
-            const updated = prev.map((project) =>
-                project.id === id ? { ...project, ...updates } : project
-            );
-
-            if (useDb) {
-                const updatedProject = updated.find(p => p.id === id);
-                if (updatedProject) {
-                    try {
-                        projectRepo.updateProject(updatedProject);
-                    } catch (error) {
-                        console.error('[useProjects] Failed to update project:', error);
-                    }
-                }
+            if (taskStore.getAdapterKind() !== 'sqlite') {
+                // Subtasks go along with their parent
+                projectTasks.filter(task => !task.parentId).forEach(task => taskStore.deleteTask(task.id));
+                return;
             }
 
-            return updated;
-        });
-    }, [setProjects, useDb]);
-
-    /**
-     * Permanently deletes a project.
-     */
-    const deleteProject = useCallback((id: string) => {
-        if (useDb) {
-            try {
-                projectRepo.deleteProject(id);
-            } catch (error) {
-                console.error('[useProjects] Failed to delete project:', error);
+            // Read back after the project's deletion, which the database handles first
+            taskStore.reload();
+            if (projectTasks.length > 0) {
+                recordCommand({
+                    label: 'Delete project',
+                    undo: () => taskStore.insert(projectTasks),
+                    redo: () => taskStore.reload(),
+                });
             }
-        }
-
-        setProjects((prev: Project[]) => prev.filter((project) => project.id !== id));
-    }, [setProjects, useDb]);
+        });
+    }, [store, taskStore]);
 
     /**
      * Updates project progress based on task completion.
@@ -189,20 +73,20 @@ export function useProjects() {
     }, [updateProject]);
 
     // Filtered project lists by status
-    const activeProjects = projects.filter(p => p.status === 'active');
-    const onHoldProjects = projects.filter(p => p.status === 'on-hold');
-    const completedProjects = projects.filter(p => p.status === 'completed');
+    const activeProjects = useMemo(() => projects.filter(p => p.status === 'active'), [projects]);
+    const onHoldProjects = useMemo(() => projects.filter(p => p.status === 'on-hold'), [projects]);
+    const completedProjects = useMemo(() => projects.filter(p => p.status === 'completed'), [projects]);
 
     return {
         projects,
         activeProjects,
         onHoldProjects,
         completedProjects,
-        addProject,
+        addProject: store.addProject,
         updateProject,
         deleteProject,
         updateProgress,
         changeStatus,
-        isUsingSQLite: useDb,
+        isUsingSQLite: store.getAdapterKind() === 'sqlite',
     };
 }
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Hook for a single stored setting
+ *
+ * Reads a setting from the settings repository and re-renders when it
+ * changes, whether from this component, another one, or a restore.
+ *
+ * @module hooks/useSetting
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { getSetting, setSetting, onSettingChanged } from '../services/settingsRepository';
+import type { Settings, SettingKey } from '../types';
+
+/**
+ * A hook that provides a setting stored in the database.
+ * Works like useState; the value is the default until the database is ready.
+ *
+ * @param key - The setting to read
+ * @returns Tuple of [value, setValue] similar to useState
+ *
+ * @example
+ * ```tsx
+ * const [theme, setTheme] = useSetting('theme');
+ *
+ * setTheme(prev => prev === 'light' ? 'dark' : 'light');
+ * ```
+ */
+export function useSetting<K extends SettingKey>(
+    key: K
+): [Settings[K], (value: Settings[K] | ((prev: Settings[K]) => Settings[K])) => void] {
+    const subscribe = useCallback(
+        (onChange: () => void) => onSettingChanged(changed => {
+            if (changed === null || changed === key) onChange();
+        }),
+        [key]
+    );
+
+    const value = useSyncExternalStore(subscribe, () => getSetting(key));
+
+    const setValue = useCallback((next: Settings[K] | ((prev: Settings[K]) => Settings[K])) => {
+        try {
+            setSetting(key, next instanceof Function ? next(getSetting(key)) : next);
+        } catch (error) {
+            console.warn(`Error saving setting "${key}":`, error);
+        }
+    }, [key]);
+
+    return [value, setValue];
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Store Provider Context
+ *
+ * Owns the single task store and project store for the app, so every page
+ * sees the same data and a change on one page shows up on all of them.
+ * The stores start in memory, switch to SQLite once the database is ready
+ * (or to localStorage if it fails), and reload after a restore or import.
+ *
+ * @module hooks/useStores
+ */
+
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useDatabase } from './useDatabase';
+import { getDatabaseWorkspace, isNewDatabase } from '../services/database';
+import { DEFAULT_WORKSPACE_ID } from '../services/storage';
+import {
+    createMemoryAdapter,
+    createLocalStorageAdapter,
+    createSqliteTaskAdapter,
+    createSqliteProjectAdapter,
+} from '../services/storageAdapter';
+import { migrateLegacyRecords } from '../services/recordStore';
+import { repairOrphanedStoreTasks } from '../services/integrity';
+import { createTaskStore, LEGACY_TASKS_KEY } from '../services/taskStore';
+import { createProjectStore, defaultProjects, LEGACY_PROJECTS_KEY } from '../services/projectStore';
+import { StoreContext } from './useTaskStore';
+import type { StoreContextType } from './useTaskStore';
+import type { Task, Project } from '../types';
+
+interface StoreProviderProps {
+    children: ReactNode;
+}
+
+/**
+ * Point the stores at SQLite and bring in data from older versions.
+ * Only the default workspace does that; older versions had no others, and
+ * a workspace created later starts empty.
+ */
+async function openSqliteStores({ taskStore, projectStore }: StoreContextType): Promise<void> {
+    const isFirstRun = isNewDatabase();
+
+    await Promise.all([
+        taskStore.setAdapter(createSqliteTaskAdapter()),
+        projectStore.setAdapter(createSqliteProjectAdapter()),
+    ]);
+
+    if (getDatabaseWorkspace() !== DEFAULT_WORKSPACE_ID) {
+        taskStore.resetRecurringTasks();
+        return;
+    }
+
+    const movedTasks = await migrateLegacyRecords(taskStore, LEGACY_TASKS_KEY);
+    const movedProjects = await migrateLegacyRecords(projectStore, LEGACY_PROJECTS_KEY);
+    if (movedTasks + movedProjects > 0) {
+        console.log(`[StoreProvider] Migrated ${movedTasks} tasks and ${movedProjects} projects from localStorage`);
+    } else if (isFirstRun && projectStore.getAll().length === 0) {
+        projectStore.insert(defaultProjects);
+    }
+
+    taskStore.resetRecurringTasks();
+}
+
+/**
+ * Point the stores at localStorage when the database is unavailable.
+ */
+async function openLocalStores({ taskStore, projectStore }: StoreContextType): Promise<void> {
+    await Promise.all([
+        taskStore.setAdapter(createLocalStorageAdapter<Task>(LEGACY_TASKS_KEY)),
+        projectStore.setAdapter(createLocalStorageAdapter<Project>(LEGACY_PROJECTS_KEY, defaultProjects)),
+    ]);
+    await repairOrphanedStoreTasks(taskStore, projectStore);
+}
+
+/**
+ * Provider component that shares the task and project stores.
+ * Must be rendered inside DatabaseProvider.
+ */
+export function StoreProvider({ children }: StoreProviderProps) {
+    const { isReady, isError, revision } = useDatabase();
+    const [stores] = useState<StoreContextType>(() => ({
+        taskStore: createTaskStore(createMemoryAdapter<Task>()),
+        projectStore: createProjectStore(createMemoryAdapter<Project>()),
+    }));
+
+    // Switch storage once the database has opened, or failed to
+    useEffect(() => {
+        if (isReady) {
+            openSqliteStores(stores).catch((error) => {
+                console.error('[StoreProvider] Failed to open the stores:', error);
+            });
+        } else if (isError) {
+            console.warn('[StoreProvider] Database unavailable, using localStorage');
+            openLocalStores(stores).catch((error) => {
+                console.error('[StoreProvider] Failed to open the stores:', error);
+            });
+        }
+    }, [isReady, isError, stores]);
+
+    // Restores and imports replace the data underneath the stores
+    useEffect(() => {
+        if (revision > 0) {
+            stores.taskStore.reload();
+            stores.projectStore.reload();
+        }
+    }, [revision, stores]);
+
+    return (
+        <StoreContext.Provider value={stores}>
+            {children}
+        </StoreContext.Provider>
+    );
+}
+
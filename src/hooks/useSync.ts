@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Hooks for syncing with a sync server or a sync folder
+ *
+ * useSyncEngine keeps the app in sync while it's open; useSyncStatus and
+ * useFolderSyncStatus read where each kind of sync is at, for display.
+ *
+ * @module hooks/useSync
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { useDatabase } from './useDatabase';
+import { useSetting } from './useSetting';
+import { syncNow, getSyncStatus, onSyncStatusChanged } from '../services/sync';
+import { syncFolderNow, getFolderSyncStatus, onFolderSyncStatusChanged } from '../services/folderSync';
+import type { SyncStatus } from '../services/sync';
+
+/** How often to sync while the app is open */
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Syncs once the database is ready, then every 30 seconds, when the
+ * connection comes back, and whenever the server settings change. In the
+ * desktop app the sync folder is also synced whenever files in it change.
+ * Use once, near the root of the app.
+ */
+export function useSyncEngine() {
+    const { isReady } = useDatabase();
+    const [serverUrl] = useSetting('syncServerUrl');
+    const [token] = useSetting('syncToken');
+    const [syncFolder] = useSetting('syncFolder');
+
+    useEffect(() => {
+        if (!isReady) return;
+
+        const sync = () => {
+            void syncNow();
+        };
+
+        sync();
+        if (!serverUrl.trim()) return;
+
+        const interval = setInterval(sync, SYNC_INTERVAL_MS);
+        window.addEventListener('online', sync);
+        return () => {
+            clearInterval(interval);
+            window.removeEventListener('online', sync);
+        };
+    }, [isReady, serverUrl, token]);
+
+    useEffect(() => {
+        const api = window.electronAPI;
+        if (!isReady || !api) return;
+
+        const sync = () => {
+            void syncFolderNow();
+        };
+
+        sync();
+        if (!syncFolder) return;
+
+        api.watchSyncFolder(syncFolder).catch(error => console.warn('[Folder sync] Could not watch the folder:', error));
+        const stopListening = api.onSyncFolderChanged(sync);
+        const interval = setInterval(sync, SYNC_INTERVAL_MS);
+        return () => {
+            stopListening();
+            clearInterval(interval);
+            void api.watchSyncFolder('');
+        };
+    }, [isReady, syncFolder]);
+}
+
+/**
+ * The current sync status, updated as syncs start and finish.
+ */
+export function useSyncStatus(): SyncStatus {
+    return useSyncExternalStore(onSyncStatusChanged, getSyncStatus);
+}
+
+/**
+ * The current folder sync status, updated as syncs start and finish.
+ */
+export function useFolderSyncStatus(): SyncStatus {
+    return useSyncExternalStore(onFolderSyncStatusChanged, getFolderSyncStatus);
+}
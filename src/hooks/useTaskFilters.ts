@@ -8,7 +8,7 @@
  */
 
 import { useState, useCallback, useMemo } from 'react';
-import type { Task, TaskFilterState } from '../types';
+import type { Task, Project, TaskFilterState } from '../types';
 
 /** Default filter state with no filters applied */
 const defaultFilters: TaskFilterState = {
@@ -19,19 +19,27 @@ const defaultFilters: TaskFilterState = {
 
 /**
  * Hook for managing task filter state and applying filters.
+ * A project filter stops applying once that project is deleted.
  * 
+ * @param projects - Current projects, to drop a filter on a deleted one
  * @returns Object containing filter state and filter functions
  * 
  * @example
  * ```tsx
- * const { filters, setProjectFilter, applyFilters, clearFilters } = useTaskFilters();
+ * const { filters, setProjectFilter, applyFilters, clearFilters } = useTaskFilters(projects);
  * 
  * // Apply filters to tasks
  * const filteredTasks = applyFilters(allTasks);
  * ```
  */
-export function useTaskFilters() {
-    const [filters, setFilters] = useState<TaskFilterState>(defaultFilters);
+export function useTaskFilters(projects: Project[]) {
+    const [selectedFilters, setFilters] = useState<TaskFilterState>(defaultFilters);
+
+    const projectExists = projects.some(p => p.id === selectedFilters.project);
+    const filters = useMemo(
+        () => projectExists ? selectedFilters : { ...selectedFilters, project: null },
+        [selectedFilters, projectExists]
+    );
 
     /**
      * Sets the project filter.
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Hooks for the shared task and project stores
+ *
+ * The stores are owned by StoreProvider (see hooks/useStores); these hooks
+ * read them from its context. They live apart from the provider so that
+ * file only exports components.
+ *
+ * @module hooks/useTaskStore
+ */
+
+import { createContext, useContext } from 'react';
+import type { TaskStore } from '../services/taskStore';
+import type { ProjectStore } from '../services/projectStore';
+
+export interface StoreContextType {
+    taskStore: TaskStore;
+    projectStore: ProjectStore;
+}
+
+export const StoreContext = createContext<StoreContextType | undefined>(undefined);
+
+/**
+ * Hook to access the shared stores.
+ */
+function useStores(): StoreContextType {
+    const context = useContext(StoreContext);
+    if (context === undefined) {
+        throw new Error('useTaskStore and useProjectStore must be used within a StoreProvider');
+    }
+    return context;
+}
+
+/**
+ * Hook to access the shared task store.
+ */
+export function useTaskStore(): TaskStore {
+    return useStores().taskStore;
+}
+
+/**
+ * Hook to access the shared project store.
+ */
+export function useProjectStore(): ProjectStore {
+    return useStores().projectStore;
+}
@@ -1,17 +1,20 @@
 /**
  * @fileoverview Theme context and hook for dark/light mode
  * 
- * Provides application-wide theming with automatic localStorage persistence.
+ * Provides application-wide theming, persisted in the settings table.
  * The theme is applied by adding/removing the 'dark' class on the document root.
+ * A copy is kept in localStorage so the right theme shows while the database loads.
  * 
  * @module hooks/useTheme
  */
 
 import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
-import { useLocalStorage } from './useLocalStorage';
+import { useSetting } from './useSetting';
+import { useDatabase } from './useDatabase';
+import type { Theme } from '../types';
 
-/** Available theme options */
-type Theme = 'light' | 'dark';
+/** localStorage key holding the last applied theme, read before the database is ready */
+const THEME_HINT_KEY = 'lumina-theme-hint';
 
 /** Context value shape */
 interface ThemeContextType {
@@ -40,9 +43,13 @@ const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
  * ```
  */
 export function ThemeProvider({ children }: { children: ReactNode }) {
-    const [theme, setThemeState] = useLocalStorage<Theme>('lumina-theme', 'light');
+    const { isReady } = useDatabase();
+    const [storedTheme, setThemeState] = useSetting('theme');
     const [mounted, setMounted] = useState(false);
 
+    // Until the settings are loaded, use the theme applied last time
+    const theme: Theme = isReady || localStorage.getItem(THEME_HINT_KEY) !== 'dark' ? storedTheme : 'dark';
+
     // Prevent flash of wrong theme on initial load
     useEffect(() => {
         setMounted(true);
@@ -57,8 +64,11 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
             } else {
                 root.classList.remove('dark');
             }
+            if (isReady) {
+                localStorage.setItem(THEME_HINT_KEY, theme);
+            }
         }
-    }, [theme, mounted]);
+    }, [theme, mounted, isReady]);
 
     /** Toggle between light and dark themes */
     const toggleTheme = () => {
@@ -2,14 +2,13 @@
  * @fileoverview Pomodoro timer hook for focus sessions
  * 
  * Implements the Pomodoro Technique with alternating focus and break sessions.
- * Persists timer state to localStorage so progress isn't lost on page refresh.
+ * Persists timer state to the settings table so progress isn't lost on page refresh.
  * 
  * @module hooks/useTimer
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { useLocalStorage } from './useLocalStorage';
-import type { TimerState } from '../types';
+import { useSetting } from './useSetting';
 
 /** Focus session duration in seconds (25 minutes) */
 const FOCUS_DURATION = 25 * 60;
@@ -43,17 +42,10 @@ const BREAK_DURATION = 5 * 60;
  * ```
  */
 export function useTimer() {
-    // Persist timer state to localStorage
-    const [timerState, setTimerState] = useLocalStorage<TimerState>('zen-timer', {
-        duration: FOCUS_DURATION,
-        focusDuration: FOCUS_DURATION,
-        remaining: FOCUS_DURATION,
-        isRunning: false,
-        sessions: 0,
-        mode: 'focus',
-    });
-
-    // Local state for real-time countdown (more responsive than localStorage)
+    // Persist timer state to the settings table
+    const [timerState, setTimerState] = useSetting('timer');
+
+    // Local state for real-time countdown (avoids a database write every second)
     const [localRemaining, setLocalRemaining] = useState(timerState.remaining);
     const intervalRef = useRef<number | null>(null);
 
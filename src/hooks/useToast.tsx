@@ -2,7 +2,8 @@
  * @fileoverview Toast notification system with context
  * 
  * Provides a global toast notification system for showing brief,
- * non-blocking messages to the user. Toasts auto-dismiss after 3 seconds.
+ * non-blocking messages to the user. Toasts auto-dismiss after 3 seconds,
+ * or 5 seconds when they carry an action button such as "Undo".
  * 
  * @module hooks/useToast
  */
@@ -12,19 +13,26 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { CheckCircle, AlertCircle, Info, X } from 'lucide-react';
 
 /** Types of toast notifications */
-type ToastType = 'success' | 'error' | 'info';
+export type ToastType = 'success' | 'error' | 'info';
+
+/** Button shown inside a toast */
+export interface ToastAction {
+    label: string;
+    onClick: () => void;
+}
 
 /** Individual toast data */
 interface Toast {
     id: string;
     message: string;
     type: ToastType;
+    action?: ToastAction;
 }
 
 /** Context value shape */
 interface ToastContextType {
     /** Show a toast notification */
-    showToast: (message: string, type?: ToastType) => void;
+    showToast: (message: string, type?: ToastType, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -65,15 +73,16 @@ export function ToastProvider({ children }: { children: ReactNode }) {
      * 
      * @param message - Text to display
      * @param type - Toast style: 'success' | 'error' | 'info'
+     * @param action - Optional button, e.g. to undo the change
      */
-    const showToast = useCallback((message: string, type: ToastType = 'success') => {
-        const id = `toast_${Date.now()}`;
-        setToasts((prev) => [...prev, { id, message, type }]);
+    const showToast = useCallback((message: string, type: ToastType = 'success', action?: ToastAction) => {
+        const id = `toast_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+        setToasts((prev) => [...prev, { id, message, type, action }]);
 
-        // Auto remove after 3 seconds
+        // Auto remove after 3 seconds, leaving more time to reach an action
         setTimeout(() => {
             setToasts((prev) => prev.filter((t) => t.id !== id));
-        }, 3000);
+        }, action ? 5000 : 3000);
     }, []);
 
     /** Manually dismiss a toast */
@@ -101,6 +110,18 @@ export function ToastProvider({ children }: { children: ReactNode }) {
                             >
                                 <Icon size={18} />
                                 <span className="text-sm font-medium">{toast.message}</span>
+                                {toast.action && (
+                                    <button
+                                        onClick={() => {
+                                            removeToast(toast.id);
+                                            toast.action?.onClick();
+                                        }}
+                                        className="ml-2 px-2 py-0.5 text-sm font-semibold underline underline-offset-2
+                                            rounded-md hover:bg-white/20 transition-colors"
+                                    >
+                                        {toast.action.label}
+                                    </button>
+                                )}
                                 <button
                                     onClick={() => removeToast(toast.id)}
                                     className="ml-2 p-1 rounded-full hover:bg-white/20 transition-colors"
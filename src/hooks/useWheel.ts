@@ -1,45 +1,22 @@
 /**
  * @fileoverview Random wheel hook for the decision wheel feature
  * 
- * Manages customizable wheel options that persist in localStorage.
+ * Manages customizable wheel options stored in the settings table.
  * 
  * @module hooks/useWheel
  */
 
 import { useCallback } from 'react';
-import { useLocalStorage } from './useLocalStorage';
+import { useSetting } from './useSetting';
+import { resetSetting } from '../services/settingsRepository';
 import type { WheelOption } from '../types';
 
-/**
- * Default wheel segment colors - muted, professional tones
- */
-const defaultColors = [
-    '#475569', // Slate 600
-    '#64748b', // Slate 500
-    '#6b7280', // Gray 500
-    '#78716c', // Warm Gray
-    '#84a98c', // Sage (zen-sage)
-    '#52525b', // Zinc 600
-];
-
-/**
- * Default options for first-time users
- */
-const defaultOptions: WheelOption[] = [
-    { id: 'opt-1', label: 'Study', color: defaultColors[0] },
-    { id: 'opt-2', label: 'Exercise', color: defaultColors[1] },
-    { id: 'opt-3', label: 'Read', color: defaultColors[2] },
-    { id: 'opt-4', label: 'Code', color: defaultColors[3] },
-    { id: 'opt-5', label: 'Rest', color: defaultColors[4] },
-    { id: 'opt-6', label: 'Create', color: defaultColors[5] },
-];
-
 /**
  * Hook for managing the random decision wheel state.
- * Options persist in localStorage across sessions.
+ * Options persist in the database across sessions.
  */
 export function useWheel() {
-    const [options, setOptions] = useLocalStorage<WheelOption[]>('lumina-wheel-options', defaultOptions);
+    const [options, setOptions] = useSetting('wheelOptions');
 
     /**
      * Updates the label of a specific option.
@@ -62,8 +39,8 @@ export function useWheel() {
      * Resets all options to defaults.
      */
     const resetOptions = useCallback(() => {
-        setOptions(defaultOptions);
-    }, [setOptions]);
+        resetSetting('wheelOptions');
+    }, []);
 
     return {
         options,
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Hook for the list of workspaces
+ *
+ * Re-renders when workspaces are added, renamed or deleted, in this
+ * window or another. The open workspace and switching between them come
+ * from useDatabase.
+ *
+ * @module hooks/useWorkspaces
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getWorkspaces, onWorkspacesChanged } from '../services/workspaces';
+import type { Workspace } from '../services/workspaces';
+
+/**
+ * Get every workspace, the default one first.
+ */
+export function useWorkspaces(): Workspace[] {
+    return useSyncExternalStore(onWorkspacesChanged, getWorkspaces);
+}
@@ -5,15 +5,18 @@ import App from './App.tsx'
 import { ThemeProvider } from './hooks/useTheme.tsx'
 import { ToastProvider } from './hooks/useToast.tsx'
 import { DatabaseProvider } from './hooks/useDatabase.tsx'
+import { StoreProvider } from './hooks/useStores.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <DatabaseProvider>
-      <ThemeProvider>
-        <ToastProvider>
-          <App />
-        </ToastProvider>
-      </ThemeProvider>
+      <StoreProvider>
+        <ThemeProvider>
+          <ToastProvider>
+            <App />
+          </ToastProvider>
+        </ThemeProvider>
+      </StoreProvider>
     </DatabaseProvider>
   </StrictMode>,
 )
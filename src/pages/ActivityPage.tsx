@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Activity page
+ *
+ * A feed of everything that happened to tasks and projects, grouped by
+ * day, read from the activity log. Can be narrowed to tasks or projects
+ * and a time range, and downloaded as CSV, e.g. for a weekly retro.
+ *
+ * @module pages/ActivityPage
+ */
+
+import { useState, useEffect } from 'react';
+import { History, Download } from 'lucide-react';
+import { ActivityItem } from '../components/activity';
+import { downloadActivityCsv } from '../services/activityLog';
+import { callDatabase } from '../services/databaseClient';
+import { MS_PER_DAY } from '../services/dates';
+import { useDatabase } from '../hooks/useDatabase';
+import { useTasks } from '../hooks/useTasks';
+import { useProjects } from '../hooks/useProjects';
+import { useToast } from '../hooks/useToast';
+import type { ActivityEvent } from '../types';
+
+type EntityFilter = 'all' | 'task' | 'project';
+
+/** Entries loaded at first and added by "Load more" */
+const PAGE_SIZE = 100;
+
+const entityOptions: { value: EntityFilter; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'task', label: 'Tasks' },
+    { value: 'project', label: 'Projects' },
+];
+
+/** Time ranges in days; 0 means everything */
+const rangeOptions: { value: number; label: string }[] = [
+    { value: 7, label: 'Last 7 days' },
+    { value: 30, label: 'Last 30 days' },
+    { value: 0, label: 'All time' },
+];
+
+interface ActivityQuery {
+    entity: EntityFilter;
+    days: number;
+    limit: number;
+}
+
+/**
+ * Reads the activity log, or returns nothing if that fails.
+ */
+async function loadActivity({ entity, days, limit }: ActivityQuery): Promise<ActivityEvent[]> {
+    try {
+        return await callDatabase('getActivity', {
+            entity: entity === 'all' ? undefined : entity,
+            since: days > 0 ? new Date(Date.now() - days * MS_PER_DAY).toISOString() : undefined,
+            limit,
+        });
+    } catch (error) {
+        console.error('[ActivityPage] Failed to load activity:', error);
+        return [];
+    }
+}
+
+/**
+ * Heading for a day of entries.
+ */
+function formatDay(date: Date): string {
+    const today = new Date();
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+    if (date.toDateString() === today.toDateString()) return 'Today';
+    if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+    return date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Split entries, newest first, into one group per local day.
+ */
+function groupByDay(events: ActivityEvent[]): { day: string; events: ActivityEvent[] }[] {
+    const groups: { day: string; events: ActivityEvent[] }[] = [];
+    for (const event of events) {
+        const day = formatDay(new Date(event.createdAt));
+        const last = groups[groups.length - 1];
+        if (last?.day === day) {
+            last.events.push(event);
+        } else {
+            groups.push({ day, events: [event] });
+        }
+    }
+    return groups;
+}
+
+export function ActivityPage() {
+    const { isReady, revision } = useDatabase();
+    const { tasks } = useTasks();
+    const { projects } = useProjects();
+    const { showToast } = useToast();
+
+    const [query, setQuery] = useState<ActivityQuery>({ entity: 'all', days: 7, limit: PAGE_SIZE });
+
+    // Re-read when the query changes or tasks, projects or the database do
+    const [events, setEvents] = useState<ActivityEvent[]>([]);
+    useEffect(() => {
+        if (!isReady) return;
+        let current = true;
+        loadActivity(query).then((loaded) => {
+            if (current) setEvents(loaded);
+        });
+        return () => {
+            current = false;
+        };
+    }, [isReady, revision, tasks, projects, query]);
+
+    const projectNames = new Map(projects.map(p => [p.id, p.name]));
+
+    const handleExport = () => {
+        try {
+            downloadActivityCsv(events);
+            showToast('Activity exported', 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Export failed', 'error');
+        }
+    };
+
+    return (
+        <div className="space-y-6 max-w-3xl">
+            {/* Header */}
+            <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                    <h1 className="text-2xl font-semibold text-zen-text">Activity</h1>
+                    <p className="text-zen-text-secondary">
+                        What happened to your tasks and projects.
+                    </p>
+                </div>
+                <button
+                    onClick={handleExport}
+                    disabled={events.length === 0}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-zen border border-zen-border
+                        text-sm font-medium text-zen-text-secondary hover:bg-zen-surface
+                        disabled:opacity-50 disabled:cursor-not-allowed
+                        transition-colors duration-200 shrink-0"
+                >
+                    <Download size={16} />
+                    Export CSV
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center bg-zen-surface rounded-zen p-1">
+                    {entityOptions.map(({ value, label }) => (
+                        <button
+                            key={value}
+                            onClick={() => setQuery({ ...query, entity: value, limit: PAGE_SIZE })}
+                            className={`px-3 py-1.5 rounded-md text-sm transition-all
+                                ${query.entity === value
+                                    ? 'bg-zen-card text-zen-text shadow-zen-sm'
+                                    : 'text-zen-text-muted hover:text-zen-text'
+                                }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={query.days}
+                    onChange={(e) => setQuery({ ...query, days: Number(e.target.value), limit: PAGE_SIZE })}
+                    className="text-sm bg-zen-surface border border-zen-border rounded-md
+                               px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                               transition-colors cursor-pointer"
+                >
+                    {rangeOptions.map(opt => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {events.length === 0 ? (
+                <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                    <div className="flex flex-col items-center gap-2 py-6 text-zen-text-muted">
+                        <History size={24} />
+                        <p className="text-sm">No activity in this period.</p>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {groupByDay(events).map(({ day, events: dayEvents }) => (
+                        <div key={day} className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                            <h3 className="font-semibold text-zen-text mb-2">{day}</h3>
+                            <ul className="divide-y divide-zen-border">
+                                {dayEvents.map(event => (
+                                    <ActivityItem
+                                        key={`${event.entity}-${event.id}`}
+                                        event={event}
+                                        showSubject
+                                        projectNames={projectNames}
+                                    />
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+
+                    {events.length === query.limit && (
+                        <div className="flex justify-center">
+                            <button
+                                onClick={() => setQuery({ ...query, limit: query.limit + PAGE_SIZE })}
+                                className="px-4 py-2 text-sm text-zen-text-secondary hover:text-zen-text
+                                    hover:bg-zen-surface rounded-zen transition-colors"
+                            >
+                                Load more
+                            </button>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Backup & Restore page
+ *
+ * Download the database as a `.sqlite` file, restore from a backup file
+ * after checking it, exchange portable JSON exports, import from other
+ * task apps, manage the rolling automatic snapshots, and encrypt the
+ * stored data with a passphrase.
+ *
+ * @module pages/BackupPage
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, Upload, History, RotateCcw, Trash2, Camera, AlertCircle } from 'lucide-react';
+import {
+    downloadBackup,
+    inspectBackup,
+    restoreBackup,
+    listSnapshots,
+    createSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+    downloadSnapshot,
+    isSnapshotSupported,
+} from '../services/backup';
+import type { BackupSummary } from '../services/backup';
+import type { SnapshotInfo } from '../services/storage';
+import { JsonTransferCard, ExternalImportCard, EncryptionCard } from '../components/backup';
+import { useToast } from '../hooks/useToast';
+import { useProjects } from '../hooks/useProjects';
+
+/** Labels for why a snapshot was taken */
+const reasonLabels: Record<SnapshotInfo['reason'], string> = {
+    auto: 'Automatic',
+    manual: 'Manual',
+    'pre-restore': 'Before restore',
+    quarantine: 'Unreadable copy',
+};
+
+/**
+ * Formats a byte count as KB or MB.
+ */
+function formatSize(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function BackupPage() {
+    const { showToast } = useToast();
+    const { projects } = useProjects();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [pendingRestore, setPendingRestore] = useState<{ name: string; data: Uint8Array; summary: BackupSummary } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const refreshSnapshots = useCallback(() => {
+        listSnapshots()
+            .then(setSnapshots)
+            .catch(error => console.error('[BackupPage] Failed to list snapshots:', error));
+    }, []);
+
+    useEffect(() => {
+        refreshSnapshots();
+    }, [refreshSnapshots]);
+
+    /**
+     * Runs an async action with a busy state and error toast.
+     */
+    const runAction = async (action: () => Promise<void>, successMessage: string) => {
+        setIsBusy(true);
+        try {
+            await action();
+            showToast(successMessage, 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Something went wrong', 'error');
+        } finally {
+            setIsBusy(false);
+            refreshSnapshots();
+        }
+    };
+
+    const handleDownload = async () => {
+        try {
+            await downloadBackup();
+            showToast('Backup downloaded', 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Backup failed', 'error');
+        }
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const data = new Uint8Array(await file.arrayBuffer());
+            const summary = await inspectBackup(data);
+            setPendingRestore({ name: file.name, data, summary });
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Not a valid backup file', 'error');
+        }
+    };
+
+    const handleConfirmRestore = () => {
+        if (!pendingRestore) return;
+        const { data } = pendingRestore;
+        setPendingRestore(null);
+        runAction(() => restoreBackup(data), 'Backup restored');
+    };
+
+    return (
+        <div className="space-y-6 max-w-3xl">
+            {/* Header */}
+            <div className="space-y-1">
+                <h1 className="text-2xl font-semibold text-zen-text">Backup & Restore</h1>
+                <p className="text-zen-text-secondary">
+                    Keep a copy of your tasks and projects somewhere safe.
+                </p>
+            </div>
+
+            {/* Download */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Download backup</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">
+                            Save the whole database as a <code>.sqlite</code> file.
+                        </p>
+                    </div>
+                    <button
+                        onClick={handleDownload}
+                        className="flex items-center gap-2 px-4 py-2.5 rounded-zen bg-zen-accent text-white
+                            text-sm font-medium hover:bg-zen-accent/90 transition-colors duration-200 shrink-0"
+                    >
+                        <Download size={16} />
+                        Download
+                    </button>
+                </div>
+            </div>
+
+            {/* Restore from file */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Restore from file</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">
+                            Replace your current data with a backup. The file is checked before anything changes.
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isBusy}
+                        className="flex items-center gap-2 px-4 py-2.5 rounded-zen border border-zen-border
+                            text-sm font-medium text-zen-text-secondary hover:bg-zen-surface
+                            disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 shrink-0"
+                    >
+                        <Upload size={16} />
+                        Choose file
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".sqlite,.db,application/vnd.sqlite3"
+                        onChange={handleFileSelected}
+                        className="hidden"
+                    />
+                </div>
+
+                {/* Restore confirmation */}
+                <AnimatePresence>
+                    {pendingRestore && (
+                        <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            exit={{ opacity: 0, height: 0 }}
+                            transition={{ duration: 0.2 }}
+                            className="overflow-hidden"
+                        >
+                            <div className="mt-4 p-4 rounded-zen bg-zen-surface space-y-3">
+                                <div className="flex items-start gap-2 text-sm text-zen-text">
+                                    <AlertCircle size={16} className="text-priority-medium shrink-0 mt-0.5" />
+                                    <span>
+                                        <span className="font-medium">{pendingRestore.name}</span> contains{' '}
+                                        {pendingRestore.summary.taskCount} tasks and {pendingRestore.summary.projectCount} projects
+                                        (schema v{pendingRestore.summary.schemaVersion}). Restoring replaces all current data.
+                                        {isSnapshotSupported() && ' A snapshot of your current data is taken first.'}
+                                    </span>
+                                </div>
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => setPendingRestore(null)}
+                                        className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleConfirmRestore}
+                                        className="px-3 py-1.5 text-sm bg-rose-500 text-white rounded-zen hover:bg-rose-600 transition-colors"
+                                    >
+                                        Restore
+                                    </button>
+                                </div>
+                            </div>
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+
+            {/* Portable JSON */}
+            <JsonTransferCard projects={projects} />
+
+            {/* Other apps */}
+            <ExternalImportCard projects={projects} />
+
+            {/* Encryption at rest */}
+            <EncryptionCard />
+
+            {/* Snapshots */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                <div className="flex items-center justify-between gap-4 mb-4">
+                    <div className="flex items-center gap-2">
+                        <History className="text-zen-accent" size={18} />
+                        <h3 className="font-semibold text-zen-text">Automatic snapshots</h3>
+                    </div>
+                    {isSnapshotSupported() && (
+                        <button
+                            onClick={() => runAction(() => createSnapshot('manual'), 'Snapshot saved')}
+                            disabled={isBusy}
+                            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                                hover:bg-zen-surface rounded-zen disabled:opacity-50 transition-colors"
+                        >
+                            <Camera size={14} />
+                            Snapshot now
+                        </button>
+                    )}
+                </div>
+
+                {!isSnapshotSupported() ? (
+                    <p className="text-sm text-zen-text-muted">
+                        Snapshots aren't available with the current storage. Download backups manually instead.
+                    </p>
+                ) : snapshots.length === 0 ? (
+                    <p className="text-center text-sm text-zen-text-muted py-6">
+                        No snapshots yet. One is taken automatically each day.
+                    </p>
+                ) : (
+                    <ul className="space-y-2">
+                        {snapshots.map(snapshot => (
+                            <li
+                                key={snapshot.id}
+                                className="group flex items-center gap-3 p-3 bg-zen-surface rounded-zen"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-zen-text">
+                                        {new Date(snapshot.createdAt).toLocaleString()}
+                                    </p>
+                                    <p className="text-xs text-zen-text-muted">
+                                        {reasonLabels[snapshot.reason]} · {formatSize(snapshot.size)}
+                                    </p>
+                                </div>
+                                {snapshot.reason === 'quarantine' ? (
+                                    // Damaged, so it can't be restored; it can be taken elsewhere for repair
+                                    <button
+                                        onClick={() => runAction(() => downloadSnapshot(snapshot.id), 'Unreadable copy downloaded')}
+                                        disabled={isBusy}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-accent
+                                            hover:bg-zen-accent/10 rounded-zen disabled:opacity-50 transition-colors"
+                                    >
+                                        <Download size={14} />
+                                        Download
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={() => runAction(() => restoreSnapshot(snapshot.id), 'Snapshot restored')}
+                                        disabled={isBusy}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-accent
+                                            hover:bg-zen-accent/10 rounded-zen disabled:opacity-50 transition-colors"
+                                    >
+                                        <RotateCcw size={14} />
+                                        Restore
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => runAction(() => deleteSnapshot(snapshot.id), 'Snapshot deleted')}
+                                    disabled={isBusy}
+                                    className="opacity-0 group-hover:opacity-100 p-1.5 text-zen-text-muted hover:text-rose-500 transition-all"
+                                    aria-label="Delete snapshot"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
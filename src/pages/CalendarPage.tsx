@@ -1,45 +1,183 @@
 /**
  * @fileoverview Calendar page for task visualization
- * 
+ *
  * Dedicated page for the monthly calendar view displaying tasks
- * based on their due dates.
- * 
+ * based on their due dates. Dated tasks and project deadlines can be
+ * exported to an .ics file, and .ics files can be imported as tasks
+ * or shown as a read-only overlay.
+ *
  * @module pages/CalendarPage
  */
 
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, Upload, CalendarClock, X } from 'lucide-react';
 import { CalendarView } from '../components/tasks';
-import { useTasks } from '../hooks/useTasks';
+import { useTasks, useToggleTask } from '../hooks/useTasks';
+import { useProjects } from '../hooks/useProjects';
+import { useCalendarOverlays } from '../hooks/useCalendarOverlays';
 import { useToast } from '../hooks/useToast';
+import { downloadIcs, parseIcs, getIcsCalendarName, importIcsAsTasks } from '../services/icalendar';
+import type { CalendarEntry } from '../types';
 
 export function CalendarPage() {
-    const { tasks, toggleTask } = useTasks();
+    const { tasks } = useTasks();
+    const handleToggleTask = useToggleTask();
+    const { projects } = useProjects();
+    const { overlays, overlayEntries, addOverlay, removeOverlay } = useCalendarOverlays();
     const { showToast } = useToast();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pendingImport, setPendingImport] = useState<{ name: string; entries: CalendarEntry[] } | null>(null);
 
-    const handleToggleTask = (id: string) => {
-        const task = tasks.find(t => t.id === id);
-        toggleTask(id);
-        if (task && !task.completed) {
-            showToast('Task completed! 🎉', 'success');
+    const handleAddTask = (dueDate: string) => {
+        showToast(`Add task for ${new Date(dueDate).toLocaleDateString()}`, 'info');
+    };
+
+    const handleExport = () => {
+        downloadIcs(tasks, projects);
+        showToast('Calendar exported', 'success');
+    };
+
+    const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const text = await file.text();
+            const entries = parseIcs(text);
+            if (entries.length === 0) {
+                showToast('No events or to-dos found in the file', 'info');
+                return;
+            }
+            setPendingImport({ name: getIcsCalendarName(text) ?? file.name.replace(/\.ics$/i, ''), entries });
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Could not read the calendar file', 'error');
         }
     };
 
-    const handleAddTask = (dueDate: string) => {
-        showToast(`Add task for ${new Date(dueDate).toLocaleDateString()}`, 'info');
+    const handleImportAsTasks = async () => {
+        if (!pendingImport) return;
+        try {
+            const { added, updated } = await importIcsAsTasks(pendingImport.entries);
+            showToast(`Added ${added} tasks, updated ${updated}`, 'success');
+            setPendingImport(null);
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+        }
+    };
+
+    const handleShowAsOverlay = () => {
+        if (!pendingImport) return;
+        const overlay = addOverlay(pendingImport.name, pendingImport.entries);
+        showToast(`Showing ${overlay.entries.length} entries from ${overlay.name}`, 'success');
+        setPendingImport(null);
     };
 
     return (
         <div className="space-y-6">
             {/* Header */}
-            <div className="space-y-1">
-                <h1 className="text-2xl font-semibold text-zen-text">Calendar</h1>
-                <p className="text-zen-text-secondary">
-                    View your tasks on a monthly calendar. Click a day to add a task.
-                </p>
+            <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                    <h1 className="text-2xl font-semibold text-zen-text">Calendar</h1>
+                    <p className="text-zen-text-secondary">
+                        View your tasks on a monthly calendar. Click a day to add a task.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <button
+                        onClick={handleExport}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                            hover:bg-zen-surface rounded-zen transition-colors"
+                    >
+                        <Download size={14} />
+                        Export .ics
+                    </button>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-text
+                            hover:bg-zen-surface rounded-zen transition-colors"
+                    >
+                        <Upload size={14} />
+                        Import .ics
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".ics,text/calendar"
+                        onChange={handleFileSelected}
+                        className="hidden"
+                    />
+                </div>
             </div>
 
+            {/* Import choice */}
+            <AnimatePresence>
+                {pendingImport && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="overflow-hidden"
+                    >
+                        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-zen-card rounded-zen-lg border border-zen-border shadow-zen-sm text-sm">
+                            <p className="text-zen-text">
+                                <span className="font-medium">{pendingImport.name}</span> has {pendingImport.entries.length} entries.
+                                Add them as tasks, or show them on the calendar without changing your tasks?
+                            </p>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setPendingImport(null)}
+                                    className="px-3 py-1.5 text-zen-text-secondary hover:bg-zen-surface rounded-zen transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleShowAsOverlay}
+                                    className="px-3 py-1.5 border border-zen-border text-zen-text-secondary hover:bg-zen-surface rounded-zen transition-colors"
+                                >
+                                    Show as overlay
+                                </button>
+                                <button
+                                    onClick={handleImportAsTasks}
+                                    className="px-3 py-1.5 bg-zen-accent text-white rounded-zen hover:bg-zen-accent/90 transition-colors"
+                                >
+                                    Add as tasks
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {/* Overlays */}
+            {overlays.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                    {overlays.map(overlay => (
+                        <span
+                            key={overlay.id}
+                            className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 text-xs rounded-full
+                                border border-dashed border-zen-border text-zen-text-secondary"
+                        >
+                            <CalendarClock size={12} />
+                            {overlay.name}
+                            <button
+                                onClick={() => removeOverlay(overlay.id)}
+                                className="p-0.5 rounded-full hover:bg-zen-surface hover:text-zen-text transition-colors"
+                                aria-label={`Remove ${overlay.name}`}
+                            >
+                                <X size={12} />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {/* Calendar */}
             <CalendarView
                 tasks={tasks}
+                overlayEntries={overlayEntries}
                 onTaskToggle={handleToggleTask}
                 onAddTask={handleAddTask}
             />
@@ -3,11 +3,12 @@ import { BentoGrid, BentoCard } from '../components/layout';
 import { TaskList } from '../components/tasks';
 import { ProjectCard } from '../components/projects';
 import { PomodoroTimer } from '../components/focus';
-import { useTasks } from '../hooks/useTasks';
+import { useTasks, useToggleTask } from '../hooks/useTasks';
 import { useProjects } from '../hooks/useProjects';
 
 export function DashboardPage() {
-    const { todayTasks, addTask, toggleTask, deleteTask } = useTasks();
+    const { todayTasks, subtaskProgress, addTask, deleteTask } = useTasks();
+    const toggleTask = useToggleTask();
     const { projects } = useProjects();
 
     const completedToday = todayTasks.filter(t => t.completed).length;
@@ -79,6 +80,7 @@ export function DashboardPage() {
                         onAdd={addTask}
                         onToggle={toggleTask}
                         onDelete={deleteTask}
+                        subtaskProgress={subtaskProgress}
                         showInput={todayTasks.length < 5}
                     />
                 </BentoCard>
@@ -1,13 +1,16 @@
 import { useState } from 'react';
-import { ProjectList, ProjectDetailModal } from '../components/projects';
+import { ProjectList, ProjectDetailModal, DeleteProjectModal } from '../components/projects';
 import { useProjects } from '../hooks/useProjects';
 import { useTasks } from '../hooks/useTasks';
-import type { Project } from '../types';
+import { useUndoToast } from '../hooks/useHistory';
+import type { Project, ProjectTaskAction } from '../types';
 
 export function ProjectsPage() {
     const { projects, addProject, updateProject, changeStatus, deleteProject } = useProjects();
     const { addTask, toggleTask, deleteTask, getTasksByProject } = useTasks();
     const [selectedProject, setSelectedProject] = useState<Project | null>(null);
+    const [deletingProject, setDeletingProject] = useState<Project | null>(null);
+    const showUndoToast = useUndoToast();
 
     const handleOpenProject = (project: Project) => {
         setSelectedProject(project);
@@ -17,6 +20,20 @@ export function ProjectsPage() {
         setSelectedProject(null);
     };
 
+    const handleDeleteProject = (id: string) => {
+        setDeletingProject(projects.find(p => p.id === id) ?? null);
+    };
+
+    const handleConfirmDelete = (taskAction: ProjectTaskAction) => {
+        if (!deletingProject) return;
+        const id = deletingProject.id;
+        showUndoToast(() => deleteProject(id, taskAction), 'Project moved to trash', 'info');
+        setDeletingProject(null);
+        if (selectedProject?.id === id) {
+            setSelectedProject(null);
+        }
+    };
+
     // Get tasks for selected project
     const projectTasks = selectedProject ? getTasksByProject(selectedProject.id) : [];
 
@@ -32,7 +49,7 @@ export function ProjectsPage() {
             <ProjectList
                 projects={projects}
                 onStatusChange={changeStatus}
-                onDelete={deleteProject}
+                onDelete={handleDeleteProject}
                 onAdd={addProject}
                 onOpenProject={handleOpenProject}
             />
@@ -44,11 +61,20 @@ export function ProjectsPage() {
                 isOpen={!!selectedProject}
                 onClose={handleCloseProject}
                 onUpdateProject={updateProject}
-                onDeleteProject={deleteProject}
+                onDeleteProject={handleDeleteProject}
                 onAddTask={addTask}
                 onToggleTask={toggleTask}
                 onDeleteTask={deleteTask}
             />
+
+            {/* Delete Project Modal */}
+            <DeleteProjectModal
+                project={deletingProject}
+                taskCount={deletingProject ? getTasksByProject(deletingProject.id).length : 0}
+                otherProjects={projects.filter(p => p.id !== deletingProject?.id)}
+                onClose={() => setDeletingProject(null)}
+                onConfirm={handleConfirmDelete}
+            />
         </div>
     );
 }
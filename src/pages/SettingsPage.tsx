@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Settings page
+ *
+ * Edit the preferences stored in the settings table: theme, focus session
+ * length, decision wheel options, how long the trash keeps items and the
+ * sync server or folder. Each can be reset to its default. Sync conflicts
+ * waiting for review are listed here too.
+ *
+ * @module pages/SettingsPage
+ */
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Sun, Moon, RotateCcw, AlertCircle } from 'lucide-react';
+import { useSetting } from '../hooks/useSetting';
+import { useToast } from '../hooks/useToast';
+import { resetSetting, resetAllSettings } from '../services/settingsRepository';
+import { isFolderSyncAvailable } from '../services/folderSync';
+import { FolderSyncCard, SyncConflictsCard } from '../components/sync';
+import { WorkspacesCard } from '../components/workspaces';
+import type { Theme } from '../types';
+
+/** Focus session lengths offered, in minutes */
+const focusMinuteOptions = [15, 20, 25, 30, 45, 50, 60, 90];
+
+/** Trash retention choices in days; 0 keeps items until removed by hand */
+const retentionOptions: { value: number; label: string }[] = [
+    { value: 7, label: '7 days' },
+    { value: 14, label: '14 days' },
+    { value: 30, label: '30 days' },
+    { value: 90, label: '90 days' },
+    { value: 0, label: 'Never' },
+];
+
+const themeOptions: { value: Theme; label: string; icon: typeof Sun }[] = [
+    { value: 'light', label: 'Light', icon: Sun },
+    { value: 'dark', label: 'Dark', icon: Moon },
+];
+
+/**
+ * Small text button that resets one setting.
+ */
+function ResetButton({ onClick }: { onClick: () => void }) {
+    return (
+        <button
+            onClick={onClick}
+            className="flex items-center gap-1.5 px-2 py-1 text-xs text-zen-text-muted hover:text-zen-text
+                hover:bg-zen-surface rounded-md transition-colors"
+        >
+            <RotateCcw size={12} />
+            Reset
+        </button>
+    );
+}
+
+export function SettingsPage() {
+    const { showToast } = useToast();
+    const [theme, setTheme] = useSetting('theme');
+    const [timer, setTimer] = useSetting('timer');
+    const [wheelOptions, setWheelOptions] = useSetting('wheelOptions');
+    const [retentionDays, setRetentionDays] = useSetting('trashRetentionDays');
+    const [syncServerUrl, setSyncServerUrl] = useSetting('syncServerUrl');
+    const [syncToken, setSyncToken] = useSetting('syncToken');
+    const [confirmResetAll, setConfirmResetAll] = useState(false);
+
+    const focusMinutes = Math.round((timer.focusDuration ?? 25 * 60) / 60);
+
+    const handleFocusMinutesChange = (minutes: number) => {
+        const focusDuration = minutes * 60;
+        setTimer(prev => prev.mode === 'focus' && !prev.isRunning
+            ? { ...prev, focusDuration, duration: focusDuration, remaining: focusDuration }
+            : { ...prev, focusDuration });
+    };
+
+    const handleWheelLabelChange = (id: string, label: string) => {
+        if (!label.trim()) return;
+        setWheelOptions(prev => prev.map(opt => opt.id === id ? { ...opt, label: label.trim() } : opt));
+    };
+
+    const handleResetAll = () => {
+        try {
+            resetAllSettings();
+            showToast('Settings reset to defaults', 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Reset failed', 'error');
+        }
+        setConfirmResetAll(false);
+    };
+
+    return (
+        <div className="space-y-6 max-w-3xl">
+            {/* Header */}
+            <div className="space-y-1">
+                <h1 className="text-2xl font-semibold text-zen-text">Settings</h1>
+                <p className="text-zen-text-secondary">
+                    Preferences are saved with your data and included in backups.
+                </p>
+            </div>
+
+            {/* Appearance */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Appearance</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">Choose a light or dark theme.</p>
+                    </div>
+                    <div className="flex items-center bg-zen-surface rounded-zen p-1 shrink-0">
+                        {themeOptions.map(({ value, label, icon: Icon }) => (
+                            <button
+                                key={value}
+                                onClick={() => setTheme(value)}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm transition-all
+                                    ${theme === value
+                                        ? 'bg-zen-card text-zen-text shadow-zen-sm'
+                                        : 'text-zen-text-muted hover:text-zen-text'
+                                    }`}
+                            >
+                                <Icon size={14} />
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Focus timer */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Focus timer</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">
+                            {timer.sessions} focus {timer.sessions === 1 ? 'session' : 'sessions'} completed.
+                        </p>
+                    </div>
+                    <ResetButton onClick={() => resetSetting('timer')} />
+                </div>
+                <label className="flex items-center justify-between gap-4 text-sm text-zen-text-secondary">
+                    Focus session length
+                    <select
+                        value={focusMinutes}
+                        onChange={(e) => handleFocusMinutesChange(Number(e.target.value))}
+                        className="text-sm bg-zen-surface border border-zen-border rounded-md
+                                   px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                                   transition-colors cursor-pointer"
+                    >
+                        {!focusMinuteOptions.includes(focusMinutes) && (
+                            <option value={focusMinutes}>{focusMinutes} min</option>
+                        )}
+                        {focusMinuteOptions.map(minutes => (
+                            <option key={minutes} value={minutes}>{minutes} min</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {/* Decision wheel */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Decision wheel</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">Options the wheel picks from.</p>
+                    </div>
+                    <ResetButton onClick={() => resetSetting('wheelOptions')} />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    {wheelOptions.map(option => (
+                        <div key={option.id} className="flex items-center gap-2">
+                            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: option.color }} />
+                            <input
+                                // Remount when the stored label changes, e.g. after a reset
+                                key={option.label}
+                                defaultValue={option.label}
+                                onBlur={(e) => handleWheelLabelChange(option.id, e.target.value)}
+                                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                className="flex-1 min-w-0 px-3 py-1.5 text-sm rounded-md border border-zen-border
+                                    bg-zen-surface text-zen-text focus:outline-none focus:border-zen-accent transition-colors"
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* Trash */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                <label className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Trash</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">
+                            Delete items in the trash for good after this long.
+                        </p>
+                    </div>
+                    <select
+                        value={retentionDays}
+                        onChange={(e) => setRetentionDays(Number(e.target.value))}
+                        className="text-sm bg-zen-surface border border-zen-border rounded-md
+                                   px-3 py-1.5 text-zen-text focus:outline-none focus:border-zen-accent
+                                   transition-colors cursor-pointer"
+                    >
+                        {!retentionOptions.some(opt => opt.value === retentionDays) && (
+                            <option value={retentionDays}>{retentionDays} days</option>
+                        )}
+                        {retentionOptions.map(opt => (
+                            <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {/* Sync */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Sync</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">
+                            Keep tasks and projects in step across devices through a LuminaNote sync server.
+                            Leave the address empty to turn sync off.
+                        </p>
+                    </div>
+                    <ResetButton onClick={() => { resetSetting('syncServerUrl'); resetSetting('syncToken'); }} />
+                </div>
+                <label className="flex items-center justify-between gap-4 text-sm text-zen-text-secondary">
+                    Server address
+                    <input
+                        // Remount when the stored value changes, e.g. after a reset
+                        key={syncServerUrl}
+                        defaultValue={syncServerUrl}
+                        onBlur={(e) => setSyncServerUrl(e.target.value.trim())}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        placeholder="http://localhost:8787"
+                        className="w-64 px-3 py-1.5 text-sm rounded-md border border-zen-border bg-zen-surface
+                            text-zen-text focus:outline-none focus:border-zen-accent transition-colors"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-4 text-sm text-zen-text-secondary">
+                    Token
+                    <input
+                        key={syncToken}
+                        type="password"
+                        defaultValue={syncToken}
+                        onBlur={(e) => setSyncToken(e.target.value.trim())}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                        placeholder="Printed by the sync server"
+                        className="w-64 px-3 py-1.5 text-sm rounded-md border border-zen-border bg-zen-surface
+                            text-zen-text focus:outline-none focus:border-zen-accent transition-colors"
+                    />
+                </label>
+                <p className="text-xs text-zen-text-muted">
+                    Synced data is stored on the server unencrypted, even when encryption is on.
+                </p>
+            </div>
+
+            {isFolderSyncAvailable() && <FolderSyncCard />}
+
+            <SyncConflictsCard />
+
+            <WorkspacesCard />
+
+            {/* Reset all */}
+            <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h3 className="font-semibold text-zen-text">Reset all settings</h3>
+                        <p className="text-sm text-zen-text-muted mt-0.5">
+                            Restore every preference to its default. Tasks and projects are not affected.
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => setConfirmResetAll(true)}
+                        className="flex items-center gap-2 px-4 py-2.5 rounded-zen border border-zen-border
+                            text-sm font-medium text-zen-text-secondary hover:bg-zen-surface
+                            transition-colors duration-200 shrink-0"
+                    >
+                        <RotateCcw size={16} />
+                        Reset all
+                    </button>
+                </div>
+
+                <AnimatePresence>
+                    {confirmResetAll && (
+                        <motion.div
+                            initial={{ opacity: 0, height: 0 }}
+                            animate={{ opacity: 1, height: 'auto' }}
+                            exit={{ opacity: 0, height: 0 }}
+                            transition={{ duration: 0.2 }}
+                            className="overflow-hidden"
+                        >
+                            <div className="mt-4 p-4 rounded-zen bg-zen-surface space-y-3">
+                                <div className="flex items-start gap-2 text-sm text-zen-text">
+                                    <AlertCircle size={16} className="text-priority-medium shrink-0 mt-0.5" />
+                                    <span>Your theme, timer history, wheel options, trash and sync settings will be reset.</span>
+                                </div>
+                                <div className="flex justify-end gap-2">
+                                    <button
+                                        onClick={() => setConfirmResetAll(false)}
+                                        className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={handleResetAll}
+                                        className="px-3 py-1.5 text-sm bg-rose-500 text-white rounded-zen hover:bg-rose-600 transition-colors"
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
+                            </div>
+                        </motion.div>
+                    )}
+                </AnimatePresence>
+            </div>
+        </div>
+    );
+}
@@ -1,19 +1,24 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { List, Columns, Filter as FilterIcon } from 'lucide-react';
-import { TaskList, TaskFilters, KanbanBoard, TaskEditModal } from '../components/tasks';
-import { useTasks } from '../hooks/useTasks';
+import { List, Columns, Filter as FilterIcon, ClipboardList } from 'lucide-react';
+import { TaskList, TaskFilters, KanbanBoard, TaskEditModal, PlainTextModal } from '../components/tasks';
+import { useTasks, useToggleTask } from '../hooks/useTasks';
 import { useProjects } from '../hooks/useProjects';
 import { useTaskFilters } from '../hooks/useTaskFilters';
 import { useToast } from '../hooks/useToast';
+import { useUndoToast } from '../hooks/useHistory';
+import { parseTasks, importParsedTasks } from '../services/plainText';
+import type { PlainTextFormat } from '../services/plainText';
 import type { Task } from '../types';
 
 type TasksViewMode = 'list' | 'kanban';
 
 export function TasksPage() {
-    const { tasks, todayTasks, weekTasks, backlogTasks, addTask, toggleTask, deleteTask, updateTask, reorderTasks } = useTasks();
+    const { tasks, subtaskProgress, todayTasks, weekTasks, backlogTasks, addTask, deleteTask, updateTask, reorderTasks } = useTasks();
+    const handleToggleTask = useToggleTask();
     const { projects } = useProjects();
     const { showToast } = useToast();
+    const showUndoToast = useUndoToast();
     const {
         filters,
         setProjectFilter,
@@ -22,10 +27,11 @@ export function TasksPage() {
         clearFilters,
         hasActiveFilters,
         applyFilters,
-    } = useTaskFilters();
+    } = useTaskFilters(projects);
 
     const [viewMode, setViewMode] = useState<TasksViewMode>('list');
     const [showFilters, setShowFilters] = useState(false);
+    const [isPlainTextOpen, setIsPlainTextOpen] = useState(false);
 
     // Edit modal state
     const [editingTask, setEditingTask] = useState<Task | null>(null);
@@ -38,21 +44,11 @@ export function TasksPage() {
     const allFilteredTasks = applyFilters(tasks);
 
     const handleAddTask = (title: string, category: Task['category'], options?: { priority?: Task['priority']; dueDate?: string }) => {
-        addTask(title, category, options);
-        showToast('Task added successfully', 'success');
-    };
-
-    const handleToggleTask = (id: string) => {
-        const task = tasks.find(t => t.id === id);
-        toggleTask(id);
-        if (task && !task.completed) {
-            showToast('Task completed! 🎉', 'success');
-        }
+        showUndoToast(() => addTask(title, category, options), 'Task added successfully');
     };
 
     const handleDeleteTask = (id: string) => {
-        deleteTask(id);
-        showToast('Task deleted', 'info');
+        showUndoToast(() => deleteTask(id), 'Task moved to trash', 'info');
     };
 
     const handleEditTask = (task: Task) => {
@@ -61,8 +57,17 @@ export function TasksPage() {
     };
 
     const handleSaveEdit = (id: string, updates: Partial<Task>) => {
-        updateTask(id, updates);
-        showToast('Task updated', 'success');
+        showUndoToast(() => updateTask(id, updates), 'Task updated');
+    };
+
+    const handlePlainTextImport = async (text: string, format: PlainTextFormat, category: Task['category']) => {
+        try {
+            const result = await importParsedTasks(parseTasks(text, format), category);
+            const projectNote = result.projects > 0 ? ` and ${result.projects} new projects` : '';
+            showToast(`Added ${result.tasks} tasks${projectNote}`, 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Import failed', 'error');
+        }
     };
 
     const handleReorderToday = (tasks: Task[]) => {
@@ -96,6 +101,17 @@ export function TasksPage() {
 
                 {/* View Mode Toggle & Filter Button */}
                 <div className="flex items-center gap-3">
+                    {/* Plain Text Import/Export */}
+                    <button
+                        onClick={() => setIsPlainTextOpen(true)}
+                        className="flex items-center gap-2 px-3 py-2 rounded-zen transition-all
+                            bg-zen-surface text-zen-text-secondary hover:bg-zen-border"
+                        title="Import or export as todo.txt / Markdown"
+                    >
+                        <ClipboardList size={16} />
+                        <span className="text-sm hidden sm:inline">Text</span>
+                    </button>
+
                     {/* Filter Toggle */}
                     <button
                         onClick={() => setShowFilters(!showFilters)}
@@ -181,6 +197,7 @@ export function TasksPage() {
                                 onDelete={handleDeleteTask}
                                 onEdit={handleEditTask}
                                 onReorder={handleReorderToday}
+                                subtaskProgress={subtaskProgress}
                                 enableDragDrop={true}
                             />
                         </motion.div>
@@ -200,6 +217,7 @@ export function TasksPage() {
                                 onDelete={handleDeleteTask}
                                 onEdit={handleEditTask}
                                 onReorder={handleReorderWeek}
+                                subtaskProgress={subtaskProgress}
                                 enableDragDrop={true}
                             />
                         </motion.div>
@@ -219,6 +237,7 @@ export function TasksPage() {
                                 onDelete={handleDeleteTask}
                                 onEdit={handleEditTask}
                                 onReorder={handleReorderBacklog}
+                                subtaskProgress={subtaskProgress}
                                 enableDragDrop={true}
                             />
                         </motion.div>
@@ -237,6 +256,7 @@ export function TasksPage() {
                             tasks={allFilteredTasks}
                             onToggle={handleToggleTask}
                             onDelete={handleDeleteTask}
+                            subtaskProgress={subtaskProgress}
                         />
                     </motion.div>
                 )}
@@ -252,6 +272,16 @@ export function TasksPage() {
                 }}
                 onSave={handleSaveEdit}
             />
+
+            {/* todo.txt / Markdown Modal */}
+            <PlainTextModal
+                isOpen={isPlainTextOpen}
+                tasks={allFilteredTasks}
+                projects={projects}
+                onClose={() => setIsPlainTextOpen(false)}
+                onImport={handlePlainTextImport}
+                onCopied={() => showToast('Copied to clipboard', 'success')}
+            />
         </div>
     );
 }
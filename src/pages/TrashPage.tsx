@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Trash page
+ *
+ * Lists deleted projects and tasks. Each can be restored or deleted for
+ * good; anything left is purged automatically after the retention period
+ * chosen in Settings.
+ *
+ * @module pages/TrashPage
+ */
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Trash2, RotateCcw, FolderKanban, CheckSquare, AlertCircle } from 'lucide-react';
+import {
+    getTrash,
+    restoreTrashedTask,
+    restoreTrashedProject,
+    purgeTrashedTask,
+    purgeTrashedProject,
+    emptyTrash,
+} from '../services/trash';
+import type { TrashContents } from '../services/trash';
+import { useDatabase } from '../hooks/useDatabase';
+import { useSetting } from '../hooks/useSetting';
+import { useToast } from '../hooks/useToast';
+
+const emptyContents: TrashContents = { projects: [], tasks: [] };
+
+/**
+ * Reads the trash, or returns an empty one if that fails.
+ */
+async function loadTrash(): Promise<TrashContents> {
+    try {
+        return await getTrash();
+    } catch (error) {
+        console.error('[TrashPage] Failed to load trash:', error);
+        return emptyContents;
+    }
+}
+
+/**
+ * Describes when an item was deleted.
+ */
+function formatDeletedAt(deletedAt: string | undefined): string {
+    if (!deletedAt) return '';
+    return `Deleted ${new Date(deletedAt).toLocaleString()}`;
+}
+
+/**
+ * Restore and delete-forever buttons for one trash row.
+ */
+function RowActions({ onRestore, onPurge }: { onRestore: () => void; onPurge: () => void }) {
+    return (
+        <>
+            <button
+                onClick={onRestore}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-zen-text-secondary hover:text-zen-accent
+                    hover:bg-zen-accent/10 rounded-zen transition-colors"
+            >
+                <RotateCcw size={14} />
+                Restore
+            </button>
+            <button
+                onClick={onPurge}
+                className="opacity-0 group-hover:opacity-100 p-1.5 text-zen-text-muted hover:text-rose-500 transition-all"
+                aria-label="Delete forever"
+                title="Delete forever"
+            >
+                <Trash2 size={14} />
+            </button>
+        </>
+    );
+}
+
+export function TrashPage() {
+    const { isReady, revision } = useDatabase();
+    const { showToast } = useToast();
+    const [retentionDays] = useSetting('trashRetentionDays');
+
+    const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+    // Trash actions, restores and imports all bump the revision; re-read then
+    const [contents, setContents] = useState(emptyContents);
+    useEffect(() => {
+        if (!isReady) return;
+        let current = true;
+        loadTrash().then((loaded) => {
+            if (current) setContents(loaded);
+        });
+        return () => {
+            current = false;
+        };
+    }, [isReady, revision]);
+
+    /**
+     * Runs a trash action with an error toast.
+     */
+    const runAction = async (action: () => void | Promise<void>, successMessage: string) => {
+        try {
+            await action();
+            showToast(successMessage, 'success');
+        } catch (error) {
+            showToast(error instanceof Error ? error.message : 'Something went wrong', 'error');
+        }
+    };
+
+    const handleRestoreTask = (id: string) => {
+        runAction(async () => {
+            if (await restoreTrashedTask(id)) {
+                showToast('Its project or parent task is gone, so the task was restored without it', 'info');
+            }
+        }, 'Task restored');
+    };
+
+    const handleEmptyTrash = () => {
+        setConfirmEmpty(false);
+        runAction(emptyTrash, 'Trash emptied');
+    };
+
+    const itemCount = contents.projects.length + contents.tasks.length;
+
+    return (
+        <div className="space-y-6 max-w-3xl">
+            {/* Header */}
+            <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                    <h1 className="text-2xl font-semibold text-zen-text">Trash</h1>
+                    <p className="text-zen-text-secondary">
+                        {retentionDays > 0
+                            ? `Deleted items are removed for good after ${retentionDays} days.`
+                            : 'Deleted items stay here until you remove them.'}
+                    </p>
+                </div>
+                {itemCount > 0 && (
+                    <button
+                        onClick={() => setConfirmEmpty(true)}
+                        className="flex items-center gap-2 px-4 py-2.5 rounded-zen border border-zen-border
+                            text-sm font-medium text-zen-text-secondary hover:text-rose-500 hover:bg-zen-surface
+                            transition-colors duration-200 shrink-0"
+                    >
+                        <Trash2 size={16} />
+                        Empty trash
+                    </button>
+                )}
+            </div>
+
+            {/* Empty confirmation */}
+            <AnimatePresence>
+                {confirmEmpty && (
+                    <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        exit={{ opacity: 0, height: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="overflow-hidden"
+                    >
+                        <div className="p-4 rounded-zen bg-zen-surface space-y-3">
+                            <div className="flex items-start gap-2 text-sm text-zen-text">
+                                <AlertCircle size={16} className="text-priority-medium shrink-0 mt-0.5" />
+                                <span>Permanently delete {itemCount} items? This can't be undone.</span>
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    onClick={() => setConfirmEmpty(false)}
+                                    className="px-3 py-1.5 text-sm text-zen-text-secondary hover:bg-zen-border/50 rounded-zen transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleEmptyTrash}
+                                    className="px-3 py-1.5 text-sm bg-rose-500 text-white rounded-zen hover:bg-rose-600 transition-colors"
+                                >
+                                    Delete forever
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+
+            {itemCount === 0 ? (
+                <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                    <p className="text-center text-sm text-zen-text-muted py-6">The trash is empty.</p>
+                </div>
+            ) : (
+                <>
+                    {/* Projects */}
+                    {contents.projects.length > 0 && (
+                        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                            <div className="flex items-center gap-2 mb-4">
+                                <FolderKanban className="text-zen-accent" size={18} />
+                                <h3 className="font-semibold text-zen-text">Projects</h3>
+                            </div>
+                            <ul className="space-y-2">
+                                {contents.projects.map(({ project, tasks }) => (
+                                    <li key={project.id} className="group flex items-center gap-3 p-3 bg-zen-surface rounded-zen">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-sm text-zen-text truncate">{project.name}</p>
+                                            <p className="text-xs text-zen-text-muted">
+                                                {formatDeletedAt(project.deletedAt)}
+                                                {tasks.length > 0 && ` · ${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`}
+                                            </p>
+                                        </div>
+                                        <RowActions
+                                            onRestore={() => runAction(() => restoreTrashedProject(project.id), 'Project restored')}
+                                            onPurge={() => runAction(() => purgeTrashedProject(project.id), 'Project deleted forever')}
+                                        />
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Tasks */}
+                    {contents.tasks.length > 0 && (
+                        <div className="bg-zen-card rounded-zen-lg p-5 border border-zen-border shadow-zen-sm">
+                            <div className="flex items-center gap-2 mb-4">
+                                <CheckSquare className="text-zen-accent" size={18} />
+                                <h3 className="font-semibold text-zen-text">Tasks</h3>
+                            </div>
+                            <ul className="space-y-2">
+                                {contents.tasks.map(task => (
+                                    <li key={task.id} className="group flex items-center gap-3 p-3 bg-zen-surface rounded-zen">
+                                        <div className="flex-1 min-w-0">
+                                            <p className={`text-sm truncate ${task.completed ? 'line-through text-zen-text-muted' : 'text-zen-text'}`}>
+                                                {task.title}
+                                            </p>
+                                            <p className="text-xs text-zen-text-muted">{formatDeletedAt(task.deletedAt)}</p>
+                                        </div>
+                                        <RowActions
+                                            onRestore={() => handleRestoreTask(task.id)}
+                                            onPurge={() => runAction(() => purgeTrashedTask(task.id), 'Task deleted forever')}
+                                        />
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -4,4 +4,8 @@ export { ProjectsPage } from './ProjectsPage';
 export { FocusPage } from './FocusPage';
 export { CalendarPage } from './CalendarPage';
 export { WheelPage } from './WheelPage';
+export { ActivityPage } from './ActivityPage';
 
+export { BackupPage } from './BackupPage';
+export { TrashPage } from './TrashPage';
+export { SettingsPage } from './SettingsPage';
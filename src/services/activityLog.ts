@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Append-only activity log for tasks and projects
+ *
+ * The task and project repositories write an entry here whenever they
+ * create, change, complete, delete or restore something. Entries are never
+ * updated or removed, not even when the item itself is purged from the
+ * trash, so the log can answer "what happened this week" later on.
+ *
+ * Changes to sort order and to project progress counters are not logged;
+ * they follow from other changes and would only add noise.
+ *
+ * Everything except downloadActivityCsv runs in the database worker and
+ * is called from the main thread through services/databaseClient.
+ *
+ * @module services/activityLog
+ */
+
+import { getDatabase } from './connection';
+import { formatCsv } from './csv';
+import { downloadFile, getDateStamp } from './download';
+import type { Task, Project, ActivityEvent, ActivityType } from '../types';
+
+/** Table and ID column holding each kind of entry */
+const LOGS = {
+    task: { table: 'task_events', idColumn: 'task_id' },
+    project: { table: 'project_events', idColumn: 'project_id' },
+} as const;
+
+type Entity = keyof typeof LOGS;
+
+/** Task fields whose changes are logged */
+const TASK_FIELDS = ['title', 'category', 'priority', 'projectId', 'dueDate', 'dueTime', 'isRecurring'] as const;
+
+/** Project fields whose changes are logged */
+const PROJECT_FIELDS = ['name', 'description', 'color', 'status', 'deadline', 'tags'] as const;
+
+/**
+ * Store a field value as text. Missing, empty and false values all become
+ * null, since the store and the database don't agree on which they use.
+ */
+function toText(value: unknown): string | null {
+    if (value === undefined || value === null || value === '' || value === false) return null;
+    if (Array.isArray(value) && value.length === 0) return null;
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Append one entry to a log.
+ */
+function append(
+    entity: Entity,
+    entityId: string,
+    subject: string,
+    type: ActivityType,
+    change?: { field: string; oldValue: string | null; newValue: string | null }
+): void {
+    const { table, idColumn } = LOGS[entity];
+    getDatabase().run(
+        `INSERT INTO ${table} (${idColumn}, subject, type, field, old_value, new_value, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+            entityId,
+            subject,
+            type,
+            change?.field ?? null,
+            change?.oldValue ?? null,
+            change?.newValue ?? null,
+            new Date().toISOString(),
+        ]
+    );
+}
+
+/**
+ * Append an 'updated' entry for each listed field that differs.
+ */
+function appendChanges<T>(entity: Entity, id: string, subject: string, fields: readonly (keyof T & string)[], before: T, after: T): void {
+    for (const field of fields) {
+        const oldValue = toText(before[field]);
+        const newValue = toText(after[field]);
+        if (oldValue !== newValue) {
+            append(entity, id, subject, 'updated', { field, oldValue, newValue });
+        }
+    }
+}
+
+/**
+ * Log something that happened to a task as a whole.
+ */
+export function logTaskEvent(task: Task, type: ActivityType): void {
+    append('task', task.id, task.title, type);
+}
+
+/**
+ * Log the differences between two versions of a task.
+ */
+export function logTaskChanges(before: Task, after: Task): void {
+    if (before.completed !== after.completed) {
+        logTaskEvent(after, after.completed ? 'completed' : 'reopened');
+    }
+    appendChanges<Task>('task', after.id, after.title, TASK_FIELDS, before, after);
+}
+
+/**
+ * Log an event for every task of a project that has the given deletion
+ * time, i.e. the tasks that went into the trash with the project.
+ */
+export function logProjectTasksEvent(projectId: string, deletedAt: string, type: ActivityType): void {
+    getDatabase().run(
+        `INSERT INTO task_events (task_id, subject, type, created_at)
+         SELECT id, title, ?, ? FROM tasks WHERE project_id = ? AND deleted_at = ?`,
+        [type, new Date().toISOString(), projectId, deletedAt]
+    );
+}
+
+/**
+ * Log something that happened to a project as a whole.
+ */
+export function logProjectEvent(project: Project, type: ActivityType): void {
+    append('project', project.id, project.name, type);
+}
+
+/**
+ * Log the differences between two versions of a project.
+ */
+export function logProjectChanges(before: Project, after: Project): void {
+    appendChanges<Project>('project', after.id, after.name, PROJECT_FIELDS, before, after);
+}
+
+/**
+ * Run a query against the combined log, newest first.
+ */
+function queryEvents(where: string, params: (string | number)[], limit: number): ActivityEvent[] {
+    const db = getDatabase();
+    const stmt = db.prepare(
+        `SELECT * FROM (
+            SELECT 'task' AS entity, id, task_id AS entity_id, subject, type, field, old_value, new_value, created_at FROM task_events
+            UNION ALL
+            SELECT 'project' AS entity, id, project_id AS entity_id, subject, type, field, old_value, new_value, created_at FROM project_events
+         )
+         ${where}
+         ORDER BY created_at DESC, id DESC
+         LIMIT ?`
+    );
+    stmt.bind([...params, limit]);
+
+    const events: ActivityEvent[] = [];
+    while (stmt.step()) {
+        const row = stmt.get();
+        events.push({
+            entity: row[0] as ActivityEvent['entity'],
+            id: row[1] as number,
+            entityId: row[2] as string,
+            subject: row[3] as string,
+            type: row[4] as ActivityType,
+            field: (row[5] as string | null) ?? undefined,
+            oldValue: (row[6] as string | null) ?? undefined,
+            newValue: (row[7] as string | null) ?? undefined,
+            createdAt: row[8] as string,
+        });
+    }
+    stmt.free();
+
+    return events;
+}
+
+/**
+ * Get the history of one task, newest first.
+ */
+export function getTaskEvents(taskId: string, limit = 200): ActivityEvent[] {
+    return queryEvents(`WHERE entity = 'task' AND entity_id = ?`, [taskId], limit);
+}
+
+/**
+ * Get the latest activity across all tasks and projects.
+ *
+ * @param options.entity - Only tasks or only projects
+ * @param options.since - ISO timestamp; only entries at or after it
+ * @param options.limit - Maximum number of entries (default 100)
+ */
+export function getActivity(options: { entity?: Entity; since?: string; limit?: number } = {}): ActivityEvent[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (options.entity) {
+        conditions.push('entity = ?');
+        params.push(options.entity);
+    }
+    if (options.since) {
+        conditions.push('created_at >= ?');
+        params.push(options.since);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return queryEvents(where, params, options.limit ?? 100);
+}
+
+/**
+ * Download entries as a CSV file, oldest first, for use in a spreadsheet.
+ */
+export function downloadActivityCsv(events: ActivityEvent[]): void {
+    const header = ['time', 'kind', 'id', 'subject', 'event', 'field', 'old_value', 'new_value'];
+    const rows = [...events].reverse().map(event => [
+        event.createdAt,
+        event.entity,
+        event.entityId,
+        event.subject,
+        event.type,
+        event.field ?? '',
+        event.oldValue ?? '',
+        event.newValue ?? '',
+    ]);
+    downloadFile(formatCsv(header, rows), `luminanote-activity-${getDateStamp()}.csv`, 'text/csv');
+}
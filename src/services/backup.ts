@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Backup and restore service
+ *
+ * Builds on exportDatabase/importDatabase to offer downloadable `.sqlite`
+ * backups, validated restores from a file, and a rolling set of automatic
+ * snapshots kept next to the live database.
+ *
+ * @module services/backup
+ */
+
+import {
+    exportDatabase,
+    importDatabase,
+    inspectDatabaseFile,
+    getStorageBackend,
+    getDamagedDatabaseData,
+} from './database';
+import { createSnapshotId } from './storage';
+import { downloadFile, getDateStamp } from './download';
+import { MS_PER_DAY } from './dates';
+import type { SnapshotInfo, SnapshotReason, SnapshotStore } from './storage';
+
+/** Number of automatic snapshots kept before the oldest are deleted */
+const MAX_AUTO_SNAPSHOTS = 7;
+
+/**
+ * What a backup file contains, shown before the user confirms a restore.
+ */
+export interface BackupSummary {
+    /** Schema version the file was saved with */
+    schemaVersion: number;
+
+    /** Number of tasks in the file */
+    taskCount: number;
+
+    /** Number of projects in the file */
+    projectCount: number;
+}
+
+/**
+ * Get the snapshot store or fail if the backend has none.
+ */
+function requireSnapshots(): SnapshotStore {
+    const snapshots = getStorageBackend().snapshots;
+    if (!snapshots) {
+        throw new Error('Snapshots are not supported by the current storage backend.');
+    }
+    return snapshots;
+}
+
+/**
+ * Read `PRAGMA user_version` straight from the SQLite file header
+ * (a big-endian integer at byte offset 60), before any migration runs.
+ */
+function readSchemaVersion(data: Uint8Array): number {
+    return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(60);
+}
+
+/**
+ * Whether automatic snapshots are available in this environment.
+ */
+export function isSnapshotSupported(): boolean {
+    return getStorageBackend().snapshots !== undefined;
+}
+
+/**
+ * Check a backup file and describe its contents without restoring it.
+ *
+ * @throws Error if the file isn't a valid LuminaNote database
+ */
+export async function inspectBackup(data: Uint8Array): Promise<BackupSummary> {
+    const { taskCount, projectCount } = await inspectDatabaseFile(data);
+    return { schemaVersion: readSchemaVersion(data), taskCount, projectCount };
+}
+
+/**
+ * Download the current database as a `.sqlite` file.
+ */
+export async function downloadBackup(): Promise<void> {
+    const data = await exportDatabase();
+    if (!data) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+
+    downloadFile(new Uint8Array(data), `luminanote-backup-${getDateStamp()}.sqlite`, 'application/vnd.sqlite3');
+}
+
+/**
+ * Replace the live database with a backup.
+ * A snapshot of the current data is taken first so the restore can be undone.
+ *
+ * @throws Error if the backup is invalid; the live database is left untouched
+ */
+export async function restoreBackup(data: Uint8Array): Promise<void> {
+    // Validate before taking the safety snapshot, so a bad file changes nothing
+    await inspectBackup(data);
+
+    if (isSnapshotSupported()) {
+        await createSnapshot('pre-restore');
+    }
+
+    await importDatabase(data);
+}
+
+/**
+ * List stored snapshots, newest first.
+ */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+    if (!isSnapshotSupported()) return [];
+    return requireSnapshots().list();
+}
+
+/**
+ * Store a copy of the current database. Automatic snapshots are rolling:
+ * the oldest are deleted beyond MAX_AUTO_SNAPSHOTS. Others are only ever
+ * deleted by the user.
+ */
+export async function createSnapshot(reason: SnapshotReason = 'manual'): Promise<void> {
+    const data = await exportDatabase();
+    if (!data) return;
+
+    const snapshots = requireSnapshots();
+    await snapshots.save(createSnapshotId(reason), data);
+
+    if (reason !== 'auto') return;
+
+    const automatic = (await snapshots.list()).filter(snapshot => snapshot.reason === 'auto');
+    for (const old of automatic.slice(MAX_AUTO_SNAPSHOTS)) {
+        await snapshots.remove(old.id);
+    }
+}
+
+/**
+ * Restore a stored snapshot into the live database.
+ */
+export async function restoreSnapshot(id: string): Promise<void> {
+    const data = await requireSnapshots().load(id);
+    if (!data) {
+        throw new Error('Snapshot not found. It may have been deleted.');
+    }
+    await restoreBackup(data);
+}
+
+/**
+ * Download a stored snapshot as a `.sqlite` file, e.g. an unreadable copy
+ * to try repairing it with other tools.
+ */
+export async function downloadSnapshot(id: string): Promise<void> {
+    const data = await requireSnapshots().load(id);
+    if (!data) {
+        throw new Error('Snapshot not found. It may have been deleted.');
+    }
+
+    const name = id.endsWith('-quarantine') ? 'unreadable' : 'snapshot';
+    downloadFile(new Uint8Array(data), `luminanote-${name}-${getDateStamp()}.sqlite`, 'application/vnd.sqlite3');
+}
+
+/**
+ * Download the stored database that failed to open at startup, exactly as
+ * it was found.
+ */
+export function downloadDamagedDatabase(): void {
+    const data = getDamagedDatabaseData();
+    if (!data) {
+        throw new Error('No damaged database was found.');
+    }
+
+    downloadFile(new Uint8Array(data), `luminanote-unreadable-${getDateStamp()}.sqlite`, 'application/vnd.sqlite3');
+}
+
+/**
+ * Delete a stored snapshot.
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+    await requireSnapshots().remove(id);
+}
+
+/**
+ * Take an automatic snapshot if the newest automatic one is more than a day old.
+ * Called once after the database is initialized.
+ */
+export async function takeAutoSnapshotIfDue(): Promise<void> {
+    if (!isSnapshotSupported()) return;
+
+    const [latest] = (await listSnapshots()).filter(snapshot => snapshot.reason === 'auto');
+    const isDue = !latest || Date.now() - new Date(latest.createdAt).getTime() >= MS_PER_DAY;
+
+    if (isDue) {
+        await createSnapshot('auto');
+        console.log('[Backup] Took automatic snapshot');
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Change tracking for sync
+ *
+ * Triggers on the tasks and projects tables record when each row, and each
+ * field of it, last changed:
+ *
+ * - `updated_at` is the time of the row's latest change
+ * - `field_times` is a JSON object with the time each column last changed
+ * - permanently deleting a row leaves a tombstone in `sync_tombstones`
+ *
+ * Because this happens in SQLite itself, every write path is covered
+ * without the repositories having to remember it. Writes that copy in
+ * changes made elsewhere (sync, merging another window's save) must keep
+ * the times they came with, so they run inside withoutChangeTracking.
+ *
+ * @module services/changeTracking
+ */
+
+import type { Database } from 'sql.js';
+
+/** Columns maintained by the triggers rather than the app */
+export const TRACKING_COLUMNS = ['updated_at', 'field_times'];
+
+/** Row in sync_state that switches the triggers off while present */
+const APPLYING_KEY = 'applying';
+
+/** Current time in the same ISO format JavaScript uses */
+const NOW = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+
+/**
+ * Create (or recreate) the triggers that track changes to a table.
+ * Call again from a migration after adding columns, so they are tracked too.
+ *
+ * @param entity - Name stored in tombstones, e.g. `task`
+ * @param columns - The table's columns, including `id` and the tracking columns
+ */
+export function createChangeTrackingTriggers(database: Database, table: string, entity: string, columns: string[]): void {
+    const fields = columns.filter(column => column !== 'id' && !TRACKING_COLUMNS.includes(column));
+    const notApplying = `NOT EXISTS (SELECT 1 FROM sync_state WHERE key = '${APPLYING_KEY}')`;
+    const changed = fields.map(field => `OLD.${field} IS NOT NEW.${field}`).join(' OR ');
+    const times = `COALESCE(NEW.field_times, '{}')`;
+    const updatedTimes = fields.reduce(
+        (json, field) => `json_set(${json}, '$.${field}', CASE WHEN OLD.${field} IS NOT NEW.${field} THEN ${NOW} ELSE json_extract(${times}, '$.${field}') END)`,
+        times
+    );
+
+    for (const suffix of ['insert', 'update', 'delete']) {
+        database.run(`DROP TRIGGER IF EXISTS ${table}_track_${suffix}`);
+    }
+
+    database.run(`
+        CREATE TRIGGER ${table}_track_insert AFTER INSERT ON ${table}
+        WHEN ${notApplying}
+        BEGIN
+            UPDATE ${table} SET
+                updated_at = ${NOW},
+                field_times = json_object(${fields.map(field => `'${field}', ${NOW}`).join(', ')})
+            WHERE id = NEW.id;
+            DELETE FROM sync_tombstones WHERE entity = '${entity}' AND record_id = NEW.id;
+        END
+    `);
+
+    // Only fires for changes to real fields, not the tracking columns it sets itself
+    database.run(`
+        CREATE TRIGGER ${table}_track_update AFTER UPDATE ON ${table}
+        WHEN ${notApplying} AND (${changed})
+        BEGIN
+            UPDATE ${table} SET updated_at = ${NOW}, field_times = ${updatedTimes}
+            WHERE id = NEW.id;
+        END
+    `);
+
+    database.run(`
+        CREATE TRIGGER ${table}_track_delete AFTER DELETE ON ${table}
+        WHEN ${notApplying}
+        BEGIN
+            INSERT OR REPLACE INTO sync_tombstones (entity, record_id, deleted_at) VALUES ('${entity}', OLD.id, ${NOW});
+        END
+    `);
+}
+
+/**
+ * Run writes that already carry their own change times, with the tracking
+ * triggers switched off. Does nothing special on databases without sync
+ * tables (before schema v5).
+ */
+export function withoutChangeTracking<T>(database: Database, fn: () => T): T {
+    const tracked = database.exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'sync_state'").length > 0;
+    const alreadyOff = tracked && database.exec(`SELECT 1 FROM sync_state WHERE key = '${APPLYING_KEY}'`).length > 0;
+    if (!tracked || alreadyOff) return fn();
+
+    database.run('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [APPLYING_KEY, '1']);
+    try {
+        return fn();
+    } finally {
+        database.run('DELETE FROM sync_state WHERE key = ?', [APPLYING_KEY]);
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview The open database, inside the database worker
+ *
+ * The sql.js database lives in a Web Worker (see services/databaseWorker)
+ * so that queries and exports never block the UI. This module holds the
+ * worker's open database for the repositories and other modules that run
+ * SQL there. Nothing on the main thread imports it at runtime; the main
+ * thread reaches the database through services/databaseClient.
+ *
+ * @module services/connection
+ */
+
+import type { Database } from 'sql.js';
+
+// The database the worker has open
+let db: Database | null = null;
+
+// Nesting depth of withTransaction calls
+let transactionDepth = 0;
+
+/**
+ * Get the open database.
+ * Throws if none is open.
+ */
+export function getDatabase(): Database {
+    if (!db) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+    return db;
+}
+
+/**
+ * Check whether a database is open.
+ */
+export function isDatabaseOpen(): boolean {
+    return db !== null;
+}
+
+/**
+ * Replace the open database, closing the one it replaces.
+ */
+export function setDatabase(next: Database | null): void {
+    if (db && db !== next) {
+        db.close();
+    }
+    db = next;
+    transactionDepth = 0;
+}
+
+/**
+ * Run several statements as one atomic unit.
+ * Commits if the callback returns normally; rolls back every change and
+ * rethrows if it throws. Nested calls join the outer transaction, so
+ * repository functions can be composed freely.
+ *
+ * @example
+ * ```ts
+ * withTransaction((db) => {
+ *     db.run('UPDATE tasks SET task_order = 0 WHERE id = ?', [first]);
+ *     db.run('UPDATE tasks SET task_order = 1 WHERE id = ?', [second]);
+ * });
+ * ```
+ */
+export function withTransaction<T>(fn: (database: Database) => T): T {
+    const database = getDatabase();
+
+    if (transactionDepth > 0) {
+        return fn(database);
+    }
+
+    database.run('BEGIN TRANSACTION');
+    transactionDepth++;
+    try {
+        const result = fn(database);
+        database.run('COMMIT');
+        return result;
+    } catch (error) {
+        database.run('ROLLBACK');
+        throw error;
+    } finally {
+        transactionDepth--;
+    }
+}
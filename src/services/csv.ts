@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Minimal CSV reader and writer
+ *
+ * Parses RFC 4180 CSV: quoted fields may contain commas, quotes (doubled)
+ * and line breaks. Used by the importers for other apps' export files and
+ * by the activity log export.
+ *
+ * @module services/csv
+ */
+
+/**
+ * Split CSV text into rows of fields.
+ */
+function parseRows(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parse CSV with a header row into records keyed by upper-cased column name.
+ * Semicolon-separated files, as some locales produce, are detected from the header.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const content = text.replace(/^\uFEFF/, '');
+    const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+    const delimiter = headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+
+    const [header, ...rows] = parseRows(content, delimiter);
+    if (!header) return [];
+
+    const columns = header.map(name => name.trim().toUpperCase());
+    return rows.map(values =>
+        Object.fromEntries(columns.map((column, index) => [column, (values[index] ?? '').trim()]))
+    );
+}
+
+/**
+ * Quote a field if it contains a comma, quote or line break.
+ */
+function formatField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format rows as CSV with a header row. Lines end with CRLF as RFC 4180 asks.
+ */
+export function formatCsv(header: string[], rows: string[][]): string {
+    return [header, ...rows].map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
@@ -3,173 +3,817 @@
  * 
  * Provides a persistent SQLite database for storing tasks, projects, and settings.
  * Uses sql.js (SQLite compiled to WebAssembly) for browser/Electron compatibility.
- * Data is persisted to localStorage and can be exported/imported.
+ * Data is persisted through a storage backend (a file in Electron,
+ * localStorage in the browser) and can be exported/imported.
+ * The schema is upgraded through versioned migrations on every load.
+ *
+ * The database itself lives in a Web Worker (see services/databaseWorker),
+ * reached through services/databaseClient. This module runs on the main
+ * thread and decides when the database is opened, saved and closed; every
+ * change the worker reports schedules a save. Each change also has the
+ * worker export right away, and the result is kept here in the form it is
+ * stored in, so when the window closes it is written synchronously instead
+ * of waiting for a save that can't finish in time.
+ *
+ * Several tabs or windows can have the database open at once. Each save
+ * first checks whether another one has saved since; if so, its changes are
+ * merged in before writing, and windows without unsaved changes simply
+ * reload. See services/windowSync and services/databaseMerge.
+ *
+ * With a passphrase set, everything written to storage is encrypted (see
+ * services/encryption), and the database stays locked at startup until
+ * the passphrase is entered.
+ *
+ * A stored database that turns out to be damaged is never replaced
+ * silently: checkStoredDatabase sets it aside and salvages what it can,
+ * and the user picks how to go on (see services/recovery).
+ *
+ * Each workspace has a database of its own; setDatabaseWorkspace points
+ * this module at another one (see services/workspaces).
  * 
  * @module services/database
  */
 
-import initSqlJs from 'sql.js';
-import type { Database } from 'sql.js';
+// Bundled by Vite as a local asset so the app works fully offline
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { callDatabase, onDatabaseWritten } from './databaseClient';
+import { getDefaultStorage, loadWithLegacyMigration, createSnapshotId, DEFAULT_WORKSPACE_ID } from './storage';
+import {
+    withEncryption,
+    seal,
+    isEncrypted,
+    hasEncryptionKey,
+    setEncryptionKey,
+    createEncryptionKey,
+    unlockEncryptedData,
+} from './encryption';
+import type { DatabaseStorage } from './storage';
+import type { DatabaseRecovery, RecoveryChoice } from './recovery';
+import type { EngineSource } from './databaseWorker';
+import { onSavedElsewhere, announceSave, withSaveLock } from './windowSync';
 
-// Singleton database instance
-let db: Database | null = null;
-let dbInitPromise: Promise<Database> | null = null;
+// Whether the worker has this window's database open
+let isOpen = false;
+let dbInitPromise: Promise<void> | null = null;
 
-// LocalStorage key for database persistence
-const DB_STORAGE_KEY = 'luminanote-sqlite-db';
+// Whether initDatabase found no saved data and started a fresh database
+let createdNew = false;
+
+// Loading of the SQLite engine in the worker, shared by everything that needs it
+let enginePromise: Promise<void> | null = null;
+
+// Workspace whose database is open, or opens next
+let workspaceId = DEFAULT_WORKSPACE_ID;
+
+// Where the exported database bytes are persisted, and the same backend
+// encrypting them when a passphrase is set
+let rawStorage = getDefaultStorage(workspaceId);
+let storage = withEncryption(rawStorage);
+
+// Workspace changes run one after another
+let workspaceChange: Promise<void> = Promise.resolve();
+
+// Saves are queued so an older write can never land after a newer one
+let pendingSave: Promise<void> = Promise.resolve();
+
+// The stored bytes as this window last read or wrote them. If storage
+// holds anything else, another window has saved since.
+let lastSyncedData: Uint8Array | null = null;
+
+// The worker's version of the database this window last saved; the worker
+// compares it with its own to tell whether there are unsaved changes
+let savedVersion = 0;
+
+/** Quiet period after the last change before a scheduled save runs */
+const SAVE_DEBOUNCE_MS = 300;
+
+/** Upper bound on how long a steady stream of changes can delay a save */
+const SAVE_MAX_WAIT_MS = 2000;
+
+// Coalescing save scheduler state
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let firstUnsavedChangeAt: number | null = null;
+
+// The worker's latest export, and the same bytes as stored (encrypted if a
+// passphrase is set), for saveBeforeUnload to write without awaiting
+let unloadCopy: { data: Uint8Array; stored: Uint8Array; version: number } | null = null;
+
+// Raised when a copy being prepared may no longer fit the storage: on a
+// workspace switch or a new passphrase
+let unloadCopyGeneration = 0;
+
+// Whether a copy is being prepared, and whether a change came in meanwhile
+let preparingUnloadCopy = false;
+let unloadCopyOutdated = false;
+
+// Saves by other windows announced, and how many of them a sync with
+// storage has taken in; a difference means the stored copy holds changes
+// this window doesn't have yet
+let savesElsewhere = 0;
+let savesElsewhereSynced = 0;
+
+// Remove the listeners for saves made by other windows and changes made
+// in the worker
+let stopListeningForSaves: (() => void) | null = null;
+let stopListeningForWrites: (() => void) | null = null;
+
+// The stored database found damaged at startup, as read from storage, and
+// a fresh database with the rows salvaged from it; kept until the user
+// chooses how to go on
+let damaged: { data: Uint8Array; salvaged: Uint8Array | null } | null = null;
+
+// Notified after the database is swapped out by a restore, import or
+// workspace switch
+const replaceListeners = new Set<() => void>();
+
+// Notified after records change outside the stores, e.g. by a sync
+const changeListeners = new Set<() => void>();
 
 /**
  * Initialize the SQLite database.
- * Loads existing data from localStorage or creates a new database.
+ * Loads existing data from the storage backend or creates a new database.
  */
-export async function initDatabase(): Promise<Database> {
-    if (db) return db;
+export async function initDatabase(): Promise<void> {
+    if (isOpen) return;
     if (dbInitPromise) return dbInitPromise;
 
     dbInitPromise = (async () => {
-        // Initialize sql.js with WASM
-        const SQL = await initSqlJs({
-            // Load sql-wasm.wasm from CDN
-            locateFile: (file: string) => `https://sql.js.org/dist/${file}`,
-        });
+        // The previous database must be saved and closed before this one opens
+        await pendingSave;
+        await loadEngine();
 
-        // Try to load existing database from localStorage
-        const savedData = localStorage.getItem(DB_STORAGE_KEY);
+        // Read errors are not caught here: starting over with an empty
+        // database would overwrite the user's saved data on the next save.
+        const savedData = await loadStoredData();
+        lastSyncedData = savedData;
+
+        // Not caught either: a damaged file is handled by
+        // checkStoredDatabase, before init, with the user's say.
+        // Old and new databases are brought up to the current schema.
+        await callDatabase('openDatabase', savedData);
+        isOpen = true;
         if (savedData) {
-            try {
-                const uint8Array = new Uint8Array(
-                    atob(savedData).split('').map(c => c.charCodeAt(0))
-                );
-                db = new SQL.Database(uint8Array);
-                console.log('[Database] Loaded existing database from localStorage');
-            } catch (error) {
-                console.warn('[Database] Failed to load saved database, creating new one:', error);
-                db = new SQL.Database();
-                createTables(db);
-            }
+            console.log(`[Database] Loaded existing database from ${storage.name}`);
         } else {
-            db = new SQL.Database();
-            createTables(db);
+            createdNew = true;
             console.log('[Database] Created new database');
         }
+        saveDatabase();
+
+        // Save what the worker changes
+        stopListeningForWrites = onDatabaseWritten(handleDatabaseWritten);
 
-        return db;
+        // Don't lose unsaved changes when the window closes
+        window.addEventListener('pagehide', saveBeforeUnload);
+
+        // Pick up what other tabs and windows save
+        stopListeningForSaves = onSavedElsewhere(workspaceId, () => {
+            savesElsewhere++;
+            queueSync(false);
+        });
     })();
 
     return dbInitPromise;
 }
 
 /**
- * Create database tables if they don't exist.
- */
-function createTables(database: Database): void {
-    database.run(`
-        CREATE TABLE IF NOT EXISTS tasks (
-            id TEXT PRIMARY KEY,
-            title TEXT NOT NULL,
-            completed INTEGER DEFAULT 0,
-            category TEXT NOT NULL,
-            priority TEXT DEFAULT 'medium',
-            created_at TEXT NOT NULL,
-            project_id TEXT,
-            due_date TEXT,
-            task_order INTEGER DEFAULT 0
-        );
-    `);
-
-    database.run(`
-        CREATE TABLE IF NOT EXISTS projects (
-            id TEXT PRIMARY KEY,
-            name TEXT NOT NULL,
-            description TEXT,
-            progress INTEGER DEFAULT 0,
-            total_tasks INTEGER DEFAULT 0,
-            completed_tasks INTEGER DEFAULT 0,
-            color TEXT DEFAULT 'slate',
-            status TEXT DEFAULT 'active',
-            created_at TEXT NOT NULL,
-            deadline TEXT,
-            tags TEXT
-        );
-    `);
-
-    database.run(`
-        CREATE TABLE IF NOT EXISTS settings (
-            key TEXT PRIMARY KEY,
-            value TEXT
-        );
-    `);
-
-    console.log('[Database] Tables created');
-}
-
-/**
- * Save the database to localStorage.
- * Call this after making changes to persist them.
+ * Check the stored database before initDatabase opens it. If it can't be
+ * read or SQLite finds it corrupted, the damaged copy is kept as a
+ * `quarantine` snapshot and whatever rows can still be read are copied
+ * into a fresh database. Nothing is written over the stored data until
+ * recoverDatabase is called with the user's choice.
+ *
+ * @returns What was found wrong, or null if the database is fine
+ */
+export async function checkStoredDatabase(): Promise<DatabaseRecovery | null> {
+    await loadEngine();
+    const data = await loadStoredData();
+    if (!data) return null;
+
+    const { problems, salvaged, salvagedData } = await callDatabase('checkDatabase', data);
+    if (problems.length === 0) return null;
+    console.error('[Database] The saved database is damaged:', problems);
+
+    const quarantined = await quarantineDatabase(data);
+
+    damaged = { data, salvaged: salvagedData };
+    return { problems, salvaged, quarantined };
+}
+
+/**
+ * Keep a copy of a damaged database as a snapshot, unless an identical
+ * copy was already kept on an earlier start.
+ *
+ * @returns Whether a copy is kept
+ */
+async function quarantineDatabase(data: Uint8Array): Promise<boolean> {
+    const snapshots = storage.snapshots;
+    if (!snapshots) return false;
+
+    try {
+        for (const info of await snapshots.list()) {
+            if (info.reason === 'quarantine' && sameBytes(data, await snapshots.load(info.id))) {
+                return true;
+            }
+        }
+        await snapshots.save(createSnapshotId('quarantine'), data);
+        console.log('[Database] Kept a copy of the damaged database');
+        return true;
+    } catch (error) {
+        console.warn('[Database] Could not keep a copy of the damaged database:', error);
+        return false;
+    }
+}
+
+/**
+ * The stored database checkStoredDatabase found damaged, exactly as read,
+ * or null if it found none.
+ */
+export function getDamagedDatabaseData(): Uint8Array | null {
+    return damaged?.data ?? null;
+}
+
+/**
+ * Replace a damaged stored database with what the user chose: the rows
+ * salvaged from it, a snapshot, or nothing at all to start over. Call
+ * initDatabase afterwards.
+ *
+ * @throws Error if the chosen snapshot is missing or damaged too; the
+ *         stored data is left as it was
+ */
+export async function recoverDatabase(choice: RecoveryChoice): Promise<void> {
+    if (!damaged) return;
+
+    let data: Uint8Array | null = null;
+    if (choice.type === 'salvage') {
+        data = damaged.salvaged;
+    } else if (choice.type === 'snapshot') {
+        const snapshot = await storage.snapshots?.load(choice.id);
+        if (!snapshot) {
+            throw new Error('Snapshot not found. It may have been deleted.');
+        }
+        await loadEngine();
+        data = await callDatabase('checkDatabaseFile', snapshot);
+    }
+
+    await withSaveLock(async () => {
+        if (data) {
+            await storage.save(data);
+        } else {
+            await storage.clear();
+        }
+        announceSave(workspaceId);
+    });
+
+    damaged = null;
+    console.warn(`[Database] Replaced the damaged database (${choice.type})`);
+}
+
+/**
+ * Read the stored database of the current workspace. Only the default
+ * workspace can have a copy left in localStorage by older versions.
+ */
+function loadStoredData(): Promise<Uint8Array | null> {
+    return workspaceId === DEFAULT_WORKSPACE_ID ? loadWithLegacyMigration(storage) : storage.load();
+}
+
+/**
+ * Load the sql.js WebAssembly module in the worker from local files.
+ * In Electron the main process reads the binary from disk; in the browser
+ * the worker fetches the asset bundled alongside the app.
+ */
+function loadEngine(): Promise<void> {
+    if (enginePromise) return enginePromise;
+
+    enginePromise = (async () => {
+        try {
+            const electronAPI = window.electronAPI;
+            // The worker resolves relative URLs against its own script
+            const source: EngineSource = electronAPI?.isElectron
+                ? { wasmBinary: await electronAPI.loadSqlWasm() }
+                : { wasmUrl: new URL(sqlWasmUrl, document.baseURI).href };
+            await callDatabase('loadEngine', source);
+        } catch (error) {
+            // Allow a later call to try again
+            enginePromise = null;
+            throw new Error(
+                `Could not load the SQLite engine (sql-wasm.wasm): ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    })();
+
+    return enginePromise;
+}
+
+/**
+ * Save the database through the storage backend as soon as any save
+ * already in progress is done.
  */
 export function saveDatabase(): void {
-    if (!db) return;
+    cancelScheduledSave();
+    if (!isOpen) return;
+
+    queueSync(true);
+}
+
+/**
+ * Queue a sync with storage behind any save already in progress.
+ *
+ * @param write - Write this window's database, rather than only pick up
+ *   changes saved by other windows
+ */
+function queueSync(write: boolean): void {
+    pendingSave = pendingSave
+        .then(() => withSaveLock(() => syncWithStorage(write)))
+        .catch((error) => console.error('[Database] Failed to sync with storage:', error));
+}
+
+/**
+ * Compare two byte arrays.
+ */
+function sameBytes(a: Uint8Array, b: Uint8Array | null): boolean {
+    if (!b || a.byteLength !== b.byteLength) return false;
+    for (let i = 0; i < a.byteLength; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+}
+
+/**
+ * Reconcile this window's database with the stored copy, then write it.
+ * If another window saved in the meantime, its changes are merged in first;
+ * with nothing of our own to write, its copy is simply loaded instead.
+ */
+async function syncWithStorage(write: boolean): Promise<void> {
+    const announcedSaves = savesElsewhere;
+    const stored = await storage.load();
+    const savedElsewhere = stored !== null && !sameBytes(stored, lastSyncedData);
+    let exported: { data: Uint8Array; version: number } | null = null;
+
+    if (savedElsewhere) {
+        // The worker decides whether there are unsaved changes, between
+        // requests, so no local change can slip in
+        const result = await callDatabase('reconcileDatabase', stored, lastSyncedData, savedVersion);
+
+        if (result.replaced) {
+            lastSyncedData = stored;
+            savesElsewhereSynced = announcedSaves;
+            console.log('[Database] Loaded changes saved by another window');
+            notifyRecordsChanged();
+            return;
+        }
+
+        console.log(`[Database] Merged ${result.applied} changes from another window`);
+        if (result.conflicts > 0) {
+            console.warn(`[Database] ${result.conflicts} rows were changed in both windows; kept this window's version`);
+        }
+
+        // The merged database includes every change made before it was exported
+        cancelScheduledSave();
+        exported = result.exported;
+        notifyRecordsChanged();
+    } else if (write) {
+        exported = await callDatabase('exportDatabase');
+    }
+
+    if (!exported) {
+        savesElsewhereSynced = announcedSaves;
+        return;
+    }
+
+    await storage.save(exported.data);
+    lastSyncedData = exported.data;
+    savedVersion = exported.version;
+    savesElsewhereSynced = announcedSaves;
+    announceSave(workspaceId);
+    console.log(`[Database] Saved to ${storage.name}`);
+}
+
+/**
+ * Runs whenever the worker reports a change.
+ */
+function handleDatabaseWritten(): void {
+    scheduleSave();
+    prepareUnloadCopy();
+}
+
+/**
+ * Export the database and seal it for storage, so saveBeforeUnload has
+ * the latest changes at hand. Changes made while a copy is being prepared
+ * are picked up by one more round.
+ */
+async function prepareUnloadCopy(): Promise<void> {
+    if (!rawStorage.saveSync) return;
+    if (preparingUnloadCopy) {
+        unloadCopyOutdated = true;
+        return;
+    }
 
+    preparingUnloadCopy = true;
     try {
-        const data = db.export();
-        const base64 = btoa(String.fromCharCode(...data));
-        localStorage.setItem(DB_STORAGE_KEY, base64);
-        console.log('[Database] Saved to localStorage');
+        do {
+            unloadCopyOutdated = false;
+            const generation = unloadCopyGeneration;
+            const exported = await callDatabase('exportDatabase');
+            const stored = await seal(exported.data);
+            if (generation === unloadCopyGeneration) {
+                unloadCopy = { ...exported, stored };
+            }
+        } while (unloadCopyOutdated && isOpen);
     } catch (error) {
-        console.error('[Database] Failed to save:', error);
+        console.warn('[Database] Failed to prepare the copy saved on close:', error);
+    } finally {
+        preparingUnloadCopy = false;
     }
 }
 
 /**
- * Get the database instance.
- * Throws if database is not initialized.
+ * Forget the prepared copy, and any being prepared, when it would no
+ * longer be right to store it.
  */
-export function getDatabase(): Database {
-    if (!db) {
-        throw new Error('Database not initialized. Call initDatabase() first.');
+function discardUnloadCopy(): void {
+    unloadCopy = null;
+    unloadCopyGeneration++;
+}
+
+/**
+ * Write unsaved changes while the window closes. The page may be gone
+ * before anything awaited finishes, so the copy prepared after the last
+ * change is written synchronously. It isn't written over a save by
+ * another window that this one hasn't merged, which it would undo.
+ */
+function saveBeforeUnload(): void {
+    const copy = unloadCopy;
+    if (!copy || copy.version <= savedVersion || !rawStorage.saveSync) {
+        flushScheduledSave();
+        return;
+    }
+    if (savesElsewhere !== savesElsewhereSynced) {
+        console.warn('[Database] Another window saved just now; changes not saved yet are lost');
+        return;
+    }
+
+    try {
+        rawStorage.saveSync(copy.stored);
+    } catch (error) {
+        console.error('[Database] Failed to save before closing:', error);
+        flushScheduledSave();
+        return;
+    }
+
+    // In case the page stays after all, e.g. when kept for back navigation
+    cancelScheduledSave();
+    lastSyncedData = copy.data;
+    savedVersion = copy.version;
+    announceSave(workspaceId);
+    console.log(`[Database] Saved to ${rawStorage.name} before closing`);
+}
+
+/**
+ * Request a save without writing immediately; runs whenever the worker
+ * reports a change.
+ * Bursts of changes (e.g. a drag-and-drop reorder) are coalesced into one
+ * export: the save runs once changes pause for SAVE_DEBOUNCE_MS, or at
+ * most SAVE_MAX_WAIT_MS after the first unsaved change.
+ */
+function scheduleSave(): void {
+    if (!isOpen) return;
+
+    const now = Date.now();
+    firstUnsavedChangeAt ??= now;
+
+    if (saveTimer) clearTimeout(saveTimer);
+
+    const delay = Math.min(SAVE_DEBOUNCE_MS, firstUnsavedChangeAt + SAVE_MAX_WAIT_MS - now);
+    saveTimer = setTimeout(flushScheduledSave, Math.max(0, delay));
+}
+
+/**
+ * Run a scheduled save right away, if one is waiting.
+ */
+function flushScheduledSave(): void {
+    if (firstUnsavedChangeAt !== null) {
+        saveDatabase();
+    }
+}
+
+/**
+ * Drop any scheduled save; called whenever a full save is written.
+ */
+function cancelScheduledSave(): void {
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+    }
+    firstUnsavedChangeAt = null;
+}
+
+/**
+ * Write any scheduled save now and wait until every queued save has been written.
+ */
+export function flushDatabase(): Promise<void> {
+    flushScheduledSave();
+    return pendingSave;
+}
+
+/**
+ * Get the storage backend the database is persisted to.
+ */
+export function getStorageBackend(): DatabaseStorage {
+    return storage;
+}
+
+/**
+ * Check whether the storage backend is running out of space.
+ * Returns a message to show the user, or null if everything is fine.
+ */
+export async function checkStorageQuota(): Promise<string | null> {
+    try {
+        return (await storage.getQuotaWarning?.()) ?? null;
+    } catch (error) {
+        console.warn('[Database] Failed to check storage quota:', error);
+        return null;
     }
-    return db;
 }
 
 /**
  * Check if database is initialized.
  */
 export function isDatabaseInitialized(): boolean {
-    return db !== null;
+    return isOpen;
+}
+
+/**
+ * Check if this session started with a brand-new database, i.e. a first run.
+ */
+export function isNewDatabase(): boolean {
+    return createdNew;
 }
 
 /**
  * Export database as a downloadable file.
  */
-export function exportDatabase(): Uint8Array | null {
-    if (!db) return null;
-    return db.export();
+export async function exportDatabase(): Promise<Uint8Array | null> {
+    if (!isOpen) return null;
+    return (await callDatabase('exportDatabase')).data;
+}
+
+/**
+ * Count the tasks and projects in a database file without touching the
+ * live database. The file is checked to be a LuminaNote database first.
+ *
+ * @throws Error if the file isn't a valid or compatible database
+ */
+export async function inspectDatabaseFile(data: Uint8Array): Promise<{ taskCount: number; projectCount: number }> {
+    await loadEngine();
+    return callDatabase('inspectDatabaseFile', data);
+}
+
+/**
+ * Register a callback for when the live database is replaced by an import,
+ * restore or workspace switch, so state tied to the old data (like undo
+ * history) can be dropped. Records-changed listeners are notified as well.
+ *
+ * @returns A function that removes the listener
+ */
+export function onDatabaseReplaced(listener: () => void): () => void {
+    replaceListeners.add(listener);
+    return () => {
+        replaceListeners.delete(listener);
+    };
+}
+
+/**
+ * Tell onDatabaseReplaced listeners to drop everything tied to the old
+ * data, then onRecordsChanged listeners to reload.
+ */
+export function notifyDatabaseReplaced(): void {
+    replaceListeners.forEach(listener => listener());
+    notifyRecordsChanged();
+}
+
+/**
+ * Register a callback for when records were changed outside the stores,
+ * by a sync, another window or a bulk operation like emptying the trash,
+ * so cached records can be reloaded.
+ *
+ * @returns A function that removes the listener
+ */
+export function onRecordsChanged(listener: () => void): () => void {
+    changeListeners.add(listener);
+    return () => {
+        changeListeners.delete(listener);
+    };
+}
+
+/**
+ * Tell onRecordsChanged listeners to reload the records they have cached.
+ */
+export function notifyRecordsChanged(): void {
+    changeListeners.forEach(listener => listener());
 }
 
 /**
  * Import database from a file.
+ * The file is validated and upgraded before it replaces the live database,
+ * so an invalid file leaves the current data untouched.
  */
 export async function importDatabase(data: Uint8Array): Promise<void> {
-    const SQL = await initSqlJs({
-        locateFile: (file: string) => `https://sql.js.org/dist/${file}`,
+    await loadEngine();
+    await callDatabase('importDatabase', data);
+
+    // Anything other windows saved is merged into the imported data
+    saveDatabase();
+
+    notifyDatabaseReplaced();
+}
+
+/**
+ * Whether the stored database is encrypted and its passphrase hasn't been
+ * entered yet. initDatabase fails until unlockDatabase succeeds.
+ */
+export async function isDatabaseLocked(): Promise<boolean> {
+    if (hasEncryptionKey()) return false;
+    const data = await rawStorage.load();
+    return data !== null && isEncrypted(data);
+}
+
+/**
+ * Enter the passphrase of an encrypted database.
+ *
+ * @throws Error if the passphrase is wrong
+ */
+export async function unlockDatabase(passphrase: string): Promise<void> {
+    const data = await rawStorage.load();
+    if (!data || !isEncrypted(data)) return;
+
+    setEncryptionKey(await unlockEncryptedData(passphrase, data));
+    console.log('[Database] Unlocked');
+}
+
+/**
+ * Check a passphrase against the stored database.
+ * Always false if the database isn't encrypted.
+ */
+export async function checkDatabasePassphrase(passphrase: string): Promise<boolean> {
+    const data = await rawStorage.load();
+    if (!data || !isEncrypted(data)) return false;
+
+    try {
+        await unlockEncryptedData(passphrase, data);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether the stored database is encrypted with a passphrase.
+ */
+export function isDatabaseEncrypted(): boolean {
+    return hasEncryptionKey();
+}
+
+/**
+ * Encrypt the stored database and its snapshots with a new passphrase, or
+ * store them in the clear again when given null. Everything is rewritten
+ * straight away.
+ */
+export async function setDatabasePassphrase(passphrase: string | null): Promise<void> {
+    const key = passphrase ? await createEncryptionKey(passphrase) : null;
+    await flushDatabase();
+
+    await withSaveLock(async () => {
+        // Read the snapshots while the old key still applies
+        const snapshots = storage.snapshots;
+        const copies: { id: string; data: Uint8Array }[] = [];
+        for (const info of (await snapshots?.list()) ?? []) {
+            const data = await snapshots?.load(info.id);
+            if (data) copies.push({ id: info.id, data });
+        }
+
+        setEncryptionKey(key);
+        discardUnloadCopy();
+
+        if (isOpen) {
+            const exported = await callDatabase('exportDatabase');
+            cancelScheduledSave();
+            await storage.save(exported.data);
+            lastSyncedData = exported.data;
+            savedVersion = exported.version;
+            announceSave(workspaceId);
+        }
+        for (const copy of copies) {
+            await snapshots?.save(copy.id, copy.data);
+        }
     });
 
-    if (db) {
-        db.close();
+    console.log(passphrase ? '[Database] Encrypted with a new passphrase' : '[Database] Encryption turned off');
+}
+
+/**
+ * Delete an encrypted database whose passphrase is lost, along with its
+ * snapshots, so the app can start over with an empty one.
+ */
+export async function eraseLockedDatabase(): Promise<void> {
+    const snapshots = rawStorage.snapshots;
+    for (const info of (await snapshots?.list()) ?? []) {
+        await snapshots?.remove(info.id);
     }
+    await rawStorage.clear();
+    console.warn('[Database] Erased the locked database');
+}
 
-    db = new SQL.Database(data);
-    saveDatabase();
+/**
+ * The workspace whose database is open, or opens on the next initDatabase.
+ */
+export function getDatabaseWorkspace(): string {
+    return workspaceId;
+}
+
+/**
+ * Whether a workspace's database is open. Work that awaits in between
+ * reading and writing the database (sync) checks this, so it never writes
+ * into another workspace opened meanwhile.
+ */
+export function isWorkspaceOpen(id: string): boolean {
+    return workspaceId === id && isOpen;
+}
+
+/**
+ * Close the current workspace's database, wait for its last save, and
+ * point storage at another workspace. Call initDatabase afterwards to open
+ * it; it may be locked with a passphrase of its own.
+ */
+export function setDatabaseWorkspace(id: string): Promise<void> {
+    workspaceChange = workspaceChange.then(async () => {
+        if (id === workspaceId) return;
+
+        // An init still running would open the old database after it was closed
+        await dbInitPromise?.catch(() => undefined);
+        closeDatabase();
+        await pendingSave;
+        dbInitPromise = null;
+
+        damaged = null;
+        createdNew = false;
+        lastSyncedData = null;
+        savedVersion = 0;
+        savesElsewhere = 0;
+        savesElsewhereSynced = 0;
+        setEncryptionKey(null);
+        discardUnloadCopy();
+
+        workspaceId = id;
+        rawStorage = getDefaultStorage(id);
+        storage = withEncryption(rawStorage);
+        console.log(`[Database] Switched to workspace ${id}`);
+
+        // Cached settings, undo history and store contents belong to the old one
+        notifyDatabaseReplaced();
+    });
+    return workspaceChange;
+}
+
+/**
+ * Copy a workspace's database into another, empty workspace, leaving out
+ * where it synced to. The current workspace is copied as it is in memory,
+ * encrypted with its passphrase if it has one; others are copied from
+ * storage, and can't be if they are encrypted.
+ *
+ * @throws Error if the source workspace is encrypted and not open
+ */
+export async function copyWorkspaceDatabase(fromId: string, toId: string): Promise<void> {
+    const live = fromId === workspaceId && isOpen;
+    const data = live ? null : await getDefaultStorage(fromId).load();
+    if (!live && !data) return;
+    if (data && isEncrypted(data)) {
+        throw new Error('This workspace is encrypted. Switch to it first to duplicate it.');
+    }
+
+    await loadEngine();
+    const copy = await callDatabase('copyDatabase', data);
+    const target = getDefaultStorage(toId);
+    await (live ? withEncryption(target) : target).save(copy);
 }
 
 /**
  * Close the database connection.
  */
 export function closeDatabase(): void {
-    if (db) {
+    if (isOpen) {
+        window.removeEventListener('pagehide', saveBeforeUnload);
+        stopListeningForSaves?.();
+        stopListeningForSaves = null;
+        stopListeningForWrites?.();
+        stopListeningForWrites = null;
         saveDatabase();
-        db.close();
-        db = null;
+        isOpen = false;
         dbInitPromise = null;
+
+        // After the last save, which still needs the database
+        pendingSave = pendingSave
+            .then(() => callDatabase('closeDatabase'))
+            .catch((error) => console.error('[Database] Failed to close:', error));
     }
 }
@@ -0,0 +1,119 @@
+/**
+ * @fileoverview Main-thread client for the database worker
+ *
+ * Starts the database worker (see services/databaseWorker) on first use
+ * and sends it requests by name. Each call returns a promise of the
+ * result; requests are handled one after another in the order they were
+ * sent, so a read sent after a write always sees it.
+ *
+ * @example
+ * ```ts
+ * const tasks = await callDatabase('getAllTasks');
+ * await runTransaction([
+ *     ['insertTask', task],
+ *     ['updateTaskOrder', ids],
+ * ]);
+ * ```
+ *
+ * @module services/databaseClient
+ */
+
+import type { DatabaseHandlers, DatabaseRequest, DatabaseResponse } from './databaseWorker';
+import type { OperationCall } from './databaseOperations';
+
+type Handler<K extends keyof DatabaseHandlers> = DatabaseHandlers[K] extends (...args: infer A) => infer R
+    ? { args: A; result: Awaited<R> }
+    : never;
+
+interface PendingRequest {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+// The worker, started on the first call
+let worker: Worker | null = null;
+
+// Requests waiting for a reply, by id
+const pending = new Map<number, PendingRequest>();
+let nextRequestId = 1;
+
+// Notified whenever a request has changed the database
+const writeListeners = new Set<() => void>();
+
+/**
+ * Get the worker, starting it if needed.
+ */
+function getWorker(): Worker {
+    if (worker) return worker;
+
+    worker = new Worker(new URL('./databaseWorker.ts', import.meta.url), { type: 'module' });
+
+    worker.addEventListener('message', (event: MessageEvent<DatabaseResponse>) => {
+        const response = event.data;
+        const request = pending.get(response.id);
+        if (!request) return;
+        pending.delete(response.id);
+
+        if ('error' in response) {
+            request.reject(new Error(response.error));
+            return;
+        }
+        if (response.changed) {
+            writeListeners.forEach(listener => listener());
+        }
+        request.resolve(response.result);
+    });
+
+    // A worker that fails to load or crashes can't answer anything
+    worker.addEventListener('error', (event) => {
+        console.error('[Database] The database worker failed:', event.message);
+        const error = new Error(`The database worker failed: ${event.message || 'unknown error'}`);
+        pending.forEach(request => request.reject(error));
+        pending.clear();
+        worker?.terminate();
+        worker = null;
+    });
+
+    return worker;
+}
+
+/**
+ * Run a database operation or command in the worker.
+ *
+ * @throws Error with the worker's message if the operation fails
+ */
+export function callDatabase<K extends keyof DatabaseHandlers>(
+    name: K,
+    ...args: Handler<K>['args']
+): Promise<Handler<K>['result']> {
+    return new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+
+        const request: DatabaseRequest = { id, name, args };
+        getWorker().postMessage(request);
+    });
+}
+
+/**
+ * Run several operations as one transaction: either all of them are
+ * stored or, if one fails, none.
+ *
+ * @returns Each call's result, in order
+ */
+export function runTransaction(calls: OperationCall[]): Promise<unknown[]> {
+    return callDatabase('runTransaction', calls);
+}
+
+/**
+ * Register a callback for whenever a request changes the database. It runs
+ * before the request's promise resolves.
+ *
+ * @returns A function that removes the listener
+ */
+export function onDatabaseWritten(listener: () => void): () => void {
+    writeListeners.add(listener);
+    return () => {
+        writeListeners.delete(listener);
+    };
+}
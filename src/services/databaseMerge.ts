@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Three-way merge of two copies of the database
+ *
+ * When another tab or window has saved while this one still had unsaved
+ * changes, both copies descend from the version this window last read or
+ * wrote (the base). Rows are compared against that base: whatever only the
+ * other window changed is copied in, and whatever this window changed is
+ * kept. If both changed the same row, this window's version wins, since it
+ * is about to be written and is the more recent edit.
+ *
+ * Append-only tables have no stable key across windows (each window hands
+ * out its own AUTOINCREMENT ids), so their rows are matched by content.
+ *
+ * Rows are copied with the change times they have, so change tracking is
+ * off while merging.
+ *
+ * @module services/databaseMerge
+ */
+
+import type { Database } from 'sql.js';
+import { getColumns } from './migrations';
+import { withoutChangeTracking } from './changeTracking';
+
+/** Tables merged row by row, with the columns that identify a row */
+const KEYED_TABLES: Record<string, string[]> = {
+    tasks: ['id'],
+    projects: ['id'],
+    settings: ['key'],
+    sync_state: ['key'],
+    sync_tombstones: ['entity', 'record_id'],
+    sync_conflicts: ['id'],
+};
+
+/** Tables that are only ever appended to; their `id` column is ignored */
+const APPEND_ONLY_TABLES = ['task_events', 'project_events'];
+
+/**
+ * Outcome of a merge.
+ */
+export interface MergeResult {
+    /** Rows inserted, replaced or deleted to take in the other copy's changes */
+    applied: number;
+
+    /** Rows changed in both copies, where the local version was kept */
+    conflicts: number;
+}
+
+/**
+ * Read the given columns of every row; empty if the table doesn't exist.
+ */
+function readRows(database: Database, table: string, columns: string[]): unknown[][] {
+    if (getColumns(database, table).length === 0) return [];
+
+    const result = database.exec(`SELECT ${columns.join(', ')} FROM ${table}`);
+    return result.length > 0 ? result[0].values : [];
+}
+
+/**
+ * Serialize the key columns of a row.
+ */
+function rowKey(row: unknown[], keyIndexes: number[]): string {
+    return JSON.stringify(keyIndexes.map(index => row[index]));
+}
+
+/**
+ * Index rows by their key, serialized for comparison.
+ */
+function indexRows(rows: unknown[][], keyIndexes: number[]): Map<string, string> {
+    return new Map(rows.map(row => [rowKey(row, keyIndexes), JSON.stringify(row)]));
+}
+
+/**
+ * Bring one keyed table in `local` up to date with `remote`.
+ */
+function mergeKeyedTable(local: Database, base: Database, remote: Database, table: string, keyColumns: string[]): MergeResult {
+    const columns = getColumns(local, table);
+    const keyIndexes = keyColumns.map(column => columns.indexOf(column));
+    if (keyIndexes.some(index => index < 0)) return { applied: 0, conflicts: 0 };
+
+    const remoteRows = readRows(remote, table, columns);
+    const baseIndex = indexRows(readRows(base, table, columns), keyIndexes);
+    const localIndex = indexRows(readRows(local, table, columns), keyIndexes);
+    const remoteIndex = indexRows(remoteRows, keyIndexes);
+    const remoteByKey = new Map(remoteRows.map(row => [rowKey(row, keyIndexes), row]));
+
+    const placeholders = columns.map(() => '?').join(', ');
+    let applied = 0;
+    let conflicts = 0;
+
+    for (const key of new Set([...baseIndex.keys(), ...remoteIndex.keys()])) {
+        const baseRow = baseIndex.get(key);
+        const remoteRow = remoteIndex.get(key);
+        if (remoteRow === baseRow) continue;
+
+        if (localIndex.get(key) !== baseRow) {
+            if (localIndex.get(key) !== remoteRow) conflicts++;
+            continue;
+        }
+
+        const row = remoteByKey.get(key);
+        if (row) {
+            local.run(`INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`, row);
+        } else {
+            const where = keyColumns.map(column => `${column} = ?`).join(' AND ');
+            local.run(`DELETE FROM ${table} WHERE ${where}`, JSON.parse(key));
+        }
+        applied++;
+    }
+
+    return { applied, conflicts };
+}
+
+/**
+ * Copy rows that only `remote` has appended into an append-only table.
+ */
+function mergeAppendOnlyTable(local: Database, base: Database, remote: Database, table: string): number {
+    const columns = getColumns(local, table).filter(column => column !== 'id');
+    if (columns.length === 0) return 0;
+
+    const known = new Set([
+        ...readRows(base, table, columns).map(row => JSON.stringify(row)),
+        ...readRows(local, table, columns).map(row => JSON.stringify(row)),
+    ]);
+    const added = readRows(remote, table, columns).filter(row => !known.has(JSON.stringify(row)));
+
+    const placeholders = columns.map(() => '?').join(', ');
+    for (const row of added) {
+        local.run(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`, row);
+    }
+    return added.length;
+}
+
+/**
+ * Apply the changes `remote` made since `base` to `local`, in one
+ * transaction. All three must be at the same schema version.
+ */
+export function mergeDatabases(local: Database, base: Database, remote: Database): MergeResult {
+    const total: MergeResult = { applied: 0, conflicts: 0 };
+
+    local.run('BEGIN TRANSACTION');
+    try {
+        withoutChangeTracking(local, () => {
+            for (const [table, keyColumns] of Object.entries(KEYED_TABLES)) {
+                const result = mergeKeyedTable(local, base, remote, table, keyColumns);
+                total.applied += result.applied;
+                total.conflicts += result.conflicts;
+            }
+            for (const table of APPEND_ONLY_TABLES) {
+                total.applied += mergeAppendOnlyTable(local, base, remote, table);
+            }
+        });
+        local.run('COMMIT');
+    } catch (error) {
+        local.run('ROLLBACK');
+        throw error;
+    }
+
+    return total;
+}
@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Database operations the main thread can run
+ *
+ * Every function the main thread may call in the database worker, by
+ * name. The worker looks calls up here (see services/databaseWorker) and
+ * the client types them from here (see services/databaseClient), so an
+ * operation only has to be added in this one place. Arguments and results
+ * must survive structured cloning: plain data, no functions.
+ *
+ * @module services/databaseOperations
+ */
+
+import { getDatabase, withTransaction } from './connection';
+import * as taskRepository from './taskRepository';
+import * as projectRepository from './projectRepository';
+import { getTaskEvents, getActivity } from './activityLog';
+import { prepareServerSync, applyServerChanges } from './syncRecords';
+import {
+    setSyncFolder,
+    getLogOffset,
+    applyLogEntries,
+    collectFolderChanges,
+    markFolderPushed,
+    getSyncConflicts,
+    resolveSyncConflict,
+} from './folderSyncRecords';
+
+/**
+ * Read every row of the settings table as raw JSON text, by key.
+ */
+function getSettingRows(): Record<string, string> {
+    const result = getDatabase().exec('SELECT key, value FROM settings');
+    if (result.length === 0) return {};
+    return Object.fromEntries(result[0].values
+        .filter(row => row[1] !== null)
+        .map(row => [row[0] as string, row[1] as string]));
+}
+
+/**
+ * Store raw setting values.
+ *
+ * @param overwrite - Replace values that are already stored; otherwise
+ *                    only keys without a value are written
+ * @returns The keys that were written
+ */
+function writeSettingRows(rows: Record<string, string>, overwrite = true): string[] {
+    const sql = overwrite
+        ? 'INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)'
+        : 'INSERT OR IGNORE INTO settings (key, value) VALUES (?, ?)';
+
+    return withTransaction((database) => {
+        const written: string[] = [];
+        for (const [key, value] of Object.entries(rows)) {
+            database.run(sql, [key, value]);
+            if (database.getRowsModified() > 0) written.push(key);
+        }
+        return written;
+    });
+}
+
+/**
+ * Remove stored settings so they fall back to their defaults.
+ */
+function deleteSettingRows(keys: string[]): void {
+    withTransaction((database) => {
+        keys.forEach(key => database.run('DELETE FROM settings WHERE key = ?', [key]));
+    });
+}
+
+/**
+ * Delete every task, project and setting, e.g. before an import that
+ * replaces them.
+ */
+function deleteAllRecords(): void {
+    withTransaction((database) => {
+        database.run('DELETE FROM tasks');
+        database.run('DELETE FROM projects');
+        database.run('DELETE FROM settings');
+    });
+}
+
+/**
+ * Operations by name.
+ */
+export const operations = {
+    getAllTasks: taskRepository.getAllTasks,
+    queryTasks: taskRepository.queryTasks,
+    countTasks: taskRepository.countTasks,
+    countTasksByCategory: taskRepository.countTasksByCategory,
+    getTasksByCategory: taskRepository.getTasksByCategory,
+    getDeletedTasks: taskRepository.getDeletedTasks,
+    insertTask: taskRepository.insertTask,
+    updateTask: taskRepository.updateTask,
+    deleteTask: taskRepository.deleteTask,
+    restoreTask: taskRepository.restoreTask,
+    purgeTask: taskRepository.purgeTask,
+    purgeDeletedTasks: taskRepository.purgeDeletedTasks,
+    toggleTask: taskRepository.toggleTask,
+    updateTaskOrder: taskRepository.updateTaskOrder,
+    getTaskCount: taskRepository.getTaskCount,
+
+    getAllProjects: projectRepository.getAllProjects,
+    getDeletedProjects: projectRepository.getDeletedProjects,
+    getProjectById: projectRepository.getProjectById,
+    getProjectsByStatus: projectRepository.getProjectsByStatus,
+    insertProject: projectRepository.insertProject,
+    updateProject: projectRepository.updateProject,
+    deleteProject: projectRepository.deleteProject,
+    restoreProject: projectRepository.restoreProject,
+    purgeProject: projectRepository.purgeProject,
+    purgeDeletedProjects: projectRepository.purgeDeletedProjects,
+
+    getTaskEvents,
+    getActivity,
+
+    getSettingRows,
+    writeSettingRows,
+    deleteSettingRows,
+    deleteAllRecords,
+
+    prepareServerSync,
+    applyServerChanges,
+
+    setSyncFolder,
+    getLogOffset,
+    applyLogEntries,
+    collectFolderChanges,
+    markFolderPushed,
+    getSyncConflicts,
+    resolveSyncConflict,
+};
+
+/** The operations the main thread can run */
+export type DatabaseOperations = typeof operations;
+
+/** Name of an operation */
+export type OperationName = keyof DatabaseOperations;
+
+/**
+ * One operation call, e.g. `['insertTask', task]`. A list of them can run
+ * as one transaction with runTransaction.
+ */
+export type OperationCall = {
+    [K in OperationName]: [K, ...Parameters<DatabaseOperations[K]>];
+}[OperationName];
+
+/**
+ * Run several operation calls as one transaction. Either all of them are
+ * stored or, if one throws, none.
+ *
+ * @returns Each call's result, in order
+ */
+export function runTransaction(calls: OperationCall[]): unknown[] {
+    return withTransaction(() => calls.map(([name, ...args]) =>
+        (operations[name] as (...params: unknown[]) => unknown)(...args)
+    ));
+}
@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Database worker
+ *
+ * Runs sql.js in a Web Worker so that queries, migrations, merges and the
+ * full export on every save never block the UI thread. The worker owns the
+ * one open database; the main thread sends it messages through
+ * services/databaseClient and gets the results back asynchronously.
+ *
+ * Besides the operations in services/databaseOperations, the worker has
+ * commands for the database as a whole: opening and closing it, exporting
+ * it for a save, merging another window's save into it, and checking files
+ * (backups, snapshots, damaged databases) without touching the open one.
+ * Reading and writing storage stays on the main thread.
+ *
+ * The worker counts its changes: every operation that modifies the
+ * database raises the version, and a save reports the version it
+ * exported. Whether the database has changes no save has stored yet is
+ * decided here, between messages, so no write can slip in between the
+ * check and whatever depends on it.
+ *
+ * @module services/databaseWorker
+ */
+
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic } from 'sql.js';
+import { getDatabase, isDatabaseOpen, setDatabase } from './connection';
+import { runMigrations, validateSchema } from './migrations';
+import { mergeDatabases } from './databaseMerge';
+import { checkIntegrity, salvageTables } from './recovery';
+import { forgetSyncState } from './syncRecords';
+import { operations, runTransaction } from './databaseOperations';
+import type { SalvagedTable } from './recovery';
+
+/**
+ * Where the worker loads the SQLite engine from: the binary itself (read
+ * from disk by Electron) or the URL of the bundled asset.
+ */
+export type EngineSource = { wasmBinary: Uint8Array } | { wasmUrl: string };
+
+/**
+ * A stored database's bytes together with the version they were
+ * exported at.
+ */
+export interface ExportedDatabase {
+    data: Uint8Array;
+    version: number;
+}
+
+/**
+ * Outcome of reconciling the open database with another window's save.
+ */
+export type ReconcileResult =
+    | { replaced: true }
+    | { replaced: false; exported: ExportedDatabase; applied: number; conflicts: number };
+
+/**
+ * What checking a stored database found.
+ */
+export interface DatabaseCheck {
+    /** What SQLite reported; empty if the database is sound */
+    problems: string[];
+
+    /** What could be read back from a damaged database, table by table */
+    salvaged: SalvagedTable[];
+
+    /** A fresh database holding the salvaged rows, if it is damaged */
+    salvagedData: Uint8Array | null;
+}
+
+/** A message from the main thread */
+export interface DatabaseRequest {
+    id: number;
+    name: string;
+    args: unknown[];
+}
+
+/** The worker's reply to a request */
+export type DatabaseResponse =
+    | { id: number; result: unknown; changed: boolean }
+    | { id: number; error: string };
+
+// The loaded SQLite engine
+let SQL: SqlJsStatic | null = null;
+
+// Raised whenever the open database changes
+let version = 0;
+
+/**
+ * Get the loaded engine.
+ */
+function requireEngine(): SqlJsStatic {
+    if (!SQL) {
+        throw new Error('The SQLite engine is not loaded yet.');
+    }
+    return SQL;
+}
+
+/**
+ * Open a database file that is not the open database. The file is checked
+ * to be a LuminaNote database and upgraded to the current schema. The
+ * caller must close it.
+ *
+ * @throws Error if the file isn't a valid or compatible database
+ */
+function openFile(data: Uint8Array): Database {
+    const opened = new (requireEngine().Database)(data);
+
+    try {
+        validateSchema(opened);
+        runMigrations(opened);
+    } catch (error) {
+        opened.close();
+        throw error;
+    }
+
+    return opened;
+}
+
+/**
+ * Export the open database with the version it is at.
+ */
+function exportOpenDatabase(): ExportedDatabase {
+    return { data: getDatabase().export(), version };
+}
+
+/**
+ * Commands for the database as a whole.
+ */
+const commands = {
+    /**
+     * Load the SQLite engine. Loading it again does nothing.
+     */
+    loadEngine: async (source: EngineSource): Promise<void> => {
+        if (SQL) return;
+        SQL = 'wasmBinary' in source
+            ? await initSqlJs({ wasmBinary: source.wasmBinary })
+            : await initSqlJs({ locateFile: () => source.wasmUrl });
+    },
+
+    /**
+     * Open stored data, or a new database when there is none, and bring
+     * it up to the current schema.
+     */
+    openDatabase: (data: Uint8Array | null): void => {
+        const opened = data ? new (requireEngine().Database)(data) : new (requireEngine().Database)();
+        try {
+            runMigrations(opened);
+        } catch (error) {
+            opened.close();
+            throw error;
+        }
+        setDatabase(opened);
+        version++;
+    },
+
+    /**
+     * Close the open database.
+     */
+    closeDatabase: (): void => {
+        setDatabase(null);
+    },
+
+    /**
+     * Export the open database, e.g. to save it.
+     */
+    exportDatabase: (): ExportedDatabase => exportOpenDatabase(),
+
+    /**
+     * Replace the open database with a file, e.g. a restored backup.
+     *
+     * @throws Error if the file isn't a valid or compatible database; the
+     *         open database is left untouched
+     */
+    importDatabase: (data: Uint8Array): void => {
+        setDatabase(openFile(data));
+        version++;
+    },
+
+    /**
+     * Bring in what another window saved. With no changes here since the
+     * last save, its copy simply replaces the open database; otherwise its
+     * changes are merged in and the merged database is exported to be
+     * written back.
+     *
+     * @param stored - What the other window saved
+     * @param base - What this window last read or wrote, if anything
+     * @param savedVersion - The version this window last saved
+     */
+    reconcileDatabase: (stored: Uint8Array, base: Uint8Array | null, savedVersion: number): ReconcileResult => {
+        const engine = requireEngine();
+
+        if (version === savedVersion) {
+            const loaded = new engine.Database(stored);
+            try {
+                runMigrations(loaded);
+            } catch (error) {
+                loaded.close();
+                throw error;
+            }
+            setDatabase(loaded);
+            return { replaced: true };
+        }
+
+        const baseDatabase = base ? new engine.Database(base) : new engine.Database();
+        const remote = new engine.Database(stored);
+        try {
+            runMigrations(baseDatabase);
+            runMigrations(remote);
+            const { applied, conflicts } = mergeDatabases(getDatabase(), baseDatabase, remote);
+            version++;
+            return { replaced: false, exported: exportOpenDatabase(), applied, conflicts };
+        } finally {
+            baseDatabase.close();
+            remote.close();
+        }
+    },
+
+    /**
+     * Check stored data for damage. If SQLite can't open it or finds it
+     * corrupted, whatever rows can still be read are copied into a fresh
+     * database.
+     */
+    checkDatabase: (data: Uint8Array): DatabaseCheck => {
+        const engine = requireEngine();
+
+        let opened: Database | null = null;
+        let problems: string[];
+        try {
+            opened = new engine.Database(data);
+            problems = checkIntegrity(opened);
+        } catch (error) {
+            problems = [error instanceof Error ? error.message : String(error)];
+        }
+
+        if (problems.length === 0) {
+            opened?.close();
+            return { problems, salvaged: [], salvagedData: null };
+        }
+
+        const salvaged = new engine.Database();
+        try {
+            runMigrations(salvaged);
+            let tables: SalvagedTable[] = [];
+            if (opened) {
+                tables = salvageTables(opened, salvaged);
+            }
+            return { problems, salvaged: tables, salvagedData: salvaged.export() };
+        } finally {
+            opened?.close();
+            salvaged.close();
+        }
+    },
+
+    /**
+     * Check a database file, e.g. a snapshot, and export it upgraded to the
+     * current schema.
+     *
+     * @throws Error if the file isn't a valid database or is damaged
+     */
+    checkDatabaseFile: (data: Uint8Array): Uint8Array => {
+        const opened = openFile(data);
+        try {
+            if (checkIntegrity(opened).length > 0) {
+                throw new Error('This snapshot is damaged too. Try an older one.');
+            }
+            return opened.export();
+        } finally {
+            opened.close();
+        }
+    },
+
+    /**
+     * Count what a backup file contains.
+     *
+     * @throws Error if the file isn't a valid LuminaNote database
+     */
+    inspectDatabaseFile: (data: Uint8Array): { taskCount: number; projectCount: number } => {
+        const opened = openFile(data);
+        try {
+            const count = (table: string) => Number(opened.exec(`SELECT COUNT(*) FROM ${table}`)[0].values[0][0]);
+            return { taskCount: count('tasks'), projectCount: count('projects') };
+        } finally {
+            opened.close();
+        }
+    },
+
+    /**
+     * Prepare a copy of a database for a new workspace: upgraded to the
+     * current schema, with everything about where it synced to removed.
+     *
+     * @param data - The database to copy, or null for the open one
+     */
+    copyDatabase: (data: Uint8Array | null): Uint8Array => {
+        const copy = openFile(data ?? getDatabase().export());
+        try {
+            forgetSyncState(copy);
+            return copy.export();
+        } finally {
+            copy.close();
+        }
+    },
+
+    runTransaction,
+};
+
+/**
+ * Commands and operations by name.
+ */
+const handlers = { ...commands, ...operations };
+
+/** Everything the main thread can call in the worker */
+export type DatabaseHandlers = typeof handlers;
+
+/**
+ * Count the changes made to the open database so far.
+ */
+function totalChanges(): number {
+    if (!isDatabaseOpen()) return 0;
+    const result = getDatabase().exec('SELECT total_changes()');
+    return Number(result[0].values[0][0]);
+}
+
+/**
+ * Run one request. Operations that change the database raise the version;
+ * commands keep it themselves.
+ */
+async function handle(request: DatabaseRequest): Promise<DatabaseResponse> {
+    const handler = handlers[request.name as keyof DatabaseHandlers] as ((...args: unknown[]) => unknown) | undefined;
+    if (!handler) {
+        return { id: request.id, error: `Unknown database operation "${request.name}"` };
+    }
+
+    const isCommand = request.name in commands && request.name !== 'runTransaction';
+    const before = isCommand ? 0 : totalChanges();
+    try {
+        const result = await handler(...request.args);
+        const changed = !isCommand && totalChanges() !== before;
+        if (changed) version++;
+        return { id: request.id, result, changed };
+    } catch (error) {
+        return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * Byte buffers in a result, which are moved to the main thread rather
+ * than copied.
+ */
+function findTransferable(result: unknown): ArrayBuffer[] {
+    const values = result instanceof Uint8Array ? [result]
+        : typeof result === 'object' && result !== null ? Object.values(result) : [];
+    return values
+        .flatMap(value => value instanceof Uint8Array ? [value]
+            : typeof value === 'object' && value !== null && 'data' in value && value.data instanceof Uint8Array ? [value.data] : [])
+        .map(bytes => bytes.buffer as ArrayBuffer);
+}
+
+// Requests are handled strictly one after another, in the order they arrive
+let queue: Promise<void> = Promise.resolve();
+
+self.addEventListener('message', (event: MessageEvent<DatabaseRequest>) => {
+    queue = queue.then(async () => {
+        const response = await handle(event.data);
+        self.postMessage(response, { transfer: 'result' in response ? findTransferable(response.result) : [] });
+    });
+});
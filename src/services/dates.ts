@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Date helpers shared by the import and export formats
+ *
+ * Tasks store due dates as local `YYYY-MM-DD` strings. These helpers
+ * convert between that form and Date objects without going through UTC.
+ *
+ * @module services/dates
+ */
+
+import type { Task } from '../types';
+
+export const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a local date as YYYY-MM-DD.
+ */
+export function formatDateKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight.
+ */
+export function parseDateKey(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Pick a category from how soon a task is due: Today for overdue and
+ * today, This Week for the next six days, Backlog otherwise.
+ */
+export function categoryForDate(date: string | undefined): Task['category'] {
+    if (!date) return 'backlog';
+
+    const daysAway = Math.round((parseDateKey(date).getTime() - parseDateKey(formatDateKey(new Date())).getTime()) / MS_PER_DAY);
+    if (daysAway <= 0) return 'today';
+    if (daysAway < 7) return 'week';
+    return 'backlog';
+}
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Browser file download helper
+ *
+ * Saves generated content (backups, exports) through a temporary link,
+ * which works the same in the browser and in Electron.
+ *
+ * @module services/download
+ */
+
+/**
+ * Trigger a download of the given content.
+ */
+export function downloadFile(content: BlobPart, filename: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Today's date as `YYYY-MM-DD`, for use in download file names.
+ */
+export function getDateStamp(): string {
+    return new Date().toISOString().split('T')[0];
+}
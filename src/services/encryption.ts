@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Passphrase encryption of the stored database
+ *
+ * When a passphrase is set, every copy of the database written to storage
+ * (the live database and its snapshots) is encrypted with AES-GCM. The key
+ * is derived from the passphrase with PBKDF2 and only ever kept in memory;
+ * the passphrase itself is never stored. Without it the data can't be
+ * recovered.
+ *
+ * Encrypted data is laid out as:
+ *
+ *   "LUMINAENC1" | salt (16 bytes) | IV (12 bytes) | ciphertext
+ *
+ * The salt is chosen when the passphrase is set and reused for every save
+ * until it changes; each save gets a fresh IV.
+ *
+ * @module services/encryption
+ */
+
+import type { DatabaseStorage, SnapshotStore } from './storage';
+
+/** Marks the start of encrypted data; a plain SQLite file starts with "SQLite format 3" */
+const MAGIC = new TextEncoder().encode('LUMINAENC1');
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const HEADER_BYTES = MAGIC.length + SALT_BYTES + IV_BYTES;
+
+/** PBKDF2-SHA-256 rounds; slow enough to make guessing passphrases expensive */
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * An AES key derived from a passphrase, with the salt it was derived with.
+ */
+export interface EncryptionKey {
+    key: CryptoKey;
+    salt: Uint8Array;
+}
+
+// Key for the current passphrase, or null while the data is stored in the clear
+let activeKey: EncryptionKey | null = null;
+
+/**
+ * Whether bytes are encrypted data rather than a plain database.
+ */
+export function isEncrypted(data: Uint8Array): boolean {
+    return data.length >= HEADER_BYTES && MAGIC.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Whether a passphrase is set for this session.
+ */
+export function hasEncryptionKey(): boolean {
+    return activeKey !== null;
+}
+
+/**
+ * Use this key for everything written from now on, or stop encrypting.
+ */
+export function setEncryptionKey(key: EncryptionKey | null): void {
+    activeKey = key;
+}
+
+/**
+ * Derive the AES-GCM key for a passphrase.
+ */
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<EncryptionKey> {
+    const material = await crypto.subtle.importKey(
+        'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+    return { key, salt };
+}
+
+/**
+ * Derive a key for a new passphrase, with a fresh salt.
+ */
+export function createEncryptionKey(passphrase: string): Promise<EncryptionKey> {
+    return deriveKey(passphrase, crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+/**
+ * Derive the key for encrypted data from its passphrase, checking that the
+ * passphrase is right by decrypting the data.
+ *
+ * @throws Error if the passphrase is wrong
+ */
+export async function unlockEncryptedData(passphrase: string, data: Uint8Array): Promise<EncryptionKey> {
+    const key = await deriveKey(passphrase, data.slice(MAGIC.length, MAGIC.length + SALT_BYTES));
+    await decryptData(data, key);
+    return key;
+}
+
+/**
+ * Encrypt bytes with a key.
+ */
+export async function encryptData(data: Uint8Array, { key, salt }: EncryptionKey): Promise<Uint8Array> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data as BufferSource);
+
+    const result = new Uint8Array(HEADER_BYTES + ciphertext.byteLength);
+    result.set(MAGIC, 0);
+    result.set(salt, MAGIC.length);
+    result.set(iv, MAGIC.length + SALT_BYTES);
+    result.set(new Uint8Array(ciphertext), HEADER_BYTES);
+    return result;
+}
+
+/**
+ * Decrypt bytes written by encryptData.
+ *
+ * @throws Error if the key doesn't match or the data was tampered with
+ */
+export async function decryptData(data: Uint8Array, { key, salt }: EncryptionKey): Promise<Uint8Array> {
+    const dataSalt = data.subarray(MAGIC.length, MAGIC.length + SALT_BYTES);
+    if (!dataSalt.every((byte, i) => byte === salt[i])) {
+        throw new Error('This data was encrypted with a different passphrase. If it was changed in another window, reload this one.');
+    }
+
+    const iv = data.slice(MAGIC.length + SALT_BYTES, HEADER_BYTES);
+    try {
+        const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data.subarray(HEADER_BYTES) as BufferSource);
+        return new Uint8Array(plaintext);
+    } catch {
+        throw new Error('Wrong passphrase, or the encrypted data is damaged.');
+    }
+}
+
+/**
+ * Encrypt with the current key, or pass data through if there is none.
+ * This is what the storage wrapped by withEncryption is given to store.
+ */
+export function seal(data: Uint8Array): Promise<Uint8Array> {
+    return activeKey ? encryptData(data, activeKey) : Promise.resolve(data);
+}
+
+/**
+ * Decrypt with the current key; plain data is passed through.
+ */
+function open(data: Uint8Array | null): Promise<Uint8Array | null> {
+    if (!data || !isEncrypted(data)) return Promise.resolve(data);
+    if (!activeKey) return Promise.reject(new Error('The database is locked. Enter the passphrase first.'));
+    return decryptData(data, activeKey);
+}
+
+/**
+ * Wrap a storage backend so everything it stores, snapshots included, is
+ * encrypted while a passphrase is set. Reads always return plain bytes.
+ */
+export function withEncryption(storage: DatabaseStorage): DatabaseStorage {
+    const inner = storage.snapshots;
+    const snapshots: SnapshotStore | undefined = inner && {
+        list: inner.list,
+        save: async (id, data) => inner.save(id, await seal(data)),
+        load: async (id) => open(await inner.load(id)),
+        remove: inner.remove,
+    };
+
+    return {
+        ...storage,
+        load: async () => open(await storage.load()),
+        save: async (data) => storage.save(await seal(data)),
+        // Encrypting can't be done synchronously; seal first and use the inner backend
+        saveSync: undefined,
+        snapshots,
+    };
+}
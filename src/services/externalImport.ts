@@ -0,0 +1,556 @@
+/**
+ * @fileoverview Importers for other task apps' export files
+ *
+ * Reads exports from Todoist, Trello and Microsoft To Do and maps them onto
+ * LuminaNote tasks and projects. Parsing produces a preview, including a
+ * report of anything that was skipped or changed, and nothing is written
+ * until the preview is confirmed.
+ *
+ * Supported files:
+ * - Todoist: project CSV export (TYPE, CONTENT, PRIORITY, DATE columns),
+ *   or Sync API JSON (`projects` and `items`)
+ * - Trello: board JSON export; each open list becomes a project
+ * - Microsoft To Do: Graph API JSON (`lists`, each with `tasks`), or an
+ *   Outlook tasks CSV (Subject, Due Date, Status/Complete, Priority)
+ *
+ * @module services/externalImport
+ */
+
+import { isDatabaseInitialized, notifyRecordsChanged } from './database';
+import { callDatabase, runTransaction } from './databaseClient';
+import { parseCsv } from './csv';
+import { formatDateKey, categoryForDate } from './dates';
+import type { OperationCall } from './databaseOperations';
+import type { Task, Project, ProjectColor } from '../types';
+
+/** Apps whose exports can be imported */
+export type ImportSource = 'todoist' | 'trello' | 'microsoft-todo';
+
+/**
+ * An item from the export that was dropped or imported differently.
+ */
+export interface ImportIssue {
+    /** Title of the item, as written in the export */
+    title: string;
+
+    /** Why it was skipped or changed */
+    reason: string;
+}
+
+/**
+ * Everything an import would create, shown to the user before it runs.
+ */
+export interface ImportPreview {
+    source: ImportSource;
+
+    /** Projects that don't exist yet and will be created */
+    projects: Project[];
+
+    /** Tasks to create; `projectId` points at a new or existing project */
+    tasks: Task[];
+
+    /** Items that won't be imported */
+    skipped: ImportIssue[];
+
+    /** Items that will be imported with something left out */
+    warnings: ImportIssue[];
+}
+
+/**
+ * Summary of a completed import.
+ */
+export interface ExternalImportResult {
+    tasks: number;
+    projects: number;
+}
+
+/** Display names for each source */
+export const importSourceLabels: Record<ImportSource, string> = {
+    todoist: 'Todoist',
+    trello: 'Trello',
+    'microsoft-todo': 'Microsoft To Do',
+};
+
+/** Colors handed out to imported projects in turn */
+const PROJECT_COLORS: ProjectColor[] = ['slate', 'sage', 'amber', 'rose'];
+
+/**
+ * Generates an id in the same style as the hooks do.
+ */
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Collects tasks, projects and issues while an export is being read.
+ * Projects are matched by name to existing ones and to each other.
+ *
+ * @param existingProjects - Projects already in the database
+ */
+function createPreviewBuilder(source: ImportSource, existingProjects: Project[]) {
+    const preview: ImportPreview = { source, projects: [], tasks: [], skipped: [], warnings: [] };
+    const projectIdsByName = new Map(
+        existingProjects.map(p => [p.name.trim().toLowerCase(), p.id])
+    );
+
+    return {
+        preview,
+
+        /** Find or create a project by name and return its id */
+        project(name: string, options?: { description?: string; tags?: string[] }): string {
+            const key = name.trim().toLowerCase();
+            const existing = projectIdsByName.get(key);
+            if (existing) return existing;
+
+            const project: Project = {
+                id: generateId('proj'),
+                name: name.trim(),
+                description: options?.description ?? '',
+                progress: 0,
+                totalTasks: 0,
+                completedTasks: 0,
+                color: PROJECT_COLORS[preview.projects.length % PROJECT_COLORS.length],
+                status: 'active',
+                createdAt: new Date().toISOString(),
+                tags: options?.tags ?? [],
+            };
+            preview.projects.push(project);
+            projectIdsByName.set(key, project.id);
+            return project.id;
+        },
+
+        /**
+         * Queue a task; category and order are assigned when the import runs.
+         * Completed tasks without a completion time from the source are
+         * taken as completed now.
+         */
+        task(fields: Pick<Task, 'title'> & Partial<Task>): void {
+            const now = new Date().toISOString();
+            preview.tasks.push({
+                id: generateId('task'),
+                completed: false,
+                category: 'backlog',
+                priority: 'medium',
+                createdAt: now,
+                ...fields,
+                title: fields.title.trim(),
+                completedAt: fields.completed ? fields.completedAt ?? now : undefined,
+            });
+        },
+
+        skip(title: string, reason: string): void {
+            preview.skipped.push({ title: title || '(untitled)', reason });
+        },
+
+        warn(title: string, reason: string): void {
+            preview.warnings.push({ title, reason });
+        },
+    };
+}
+
+type PreviewBuilder = ReturnType<typeof createPreviewBuilder>;
+
+/**
+ * Read a date or date-time string as a local date and optional time.
+ * Returns null if the value can't be understood.
+ */
+function parseExternalDate(value: string | undefined | null, includeTime = false): { date: string; time?: string } | null {
+    if (!value) return null;
+
+    // Plain dates are taken as written, without a time zone shift
+    const plain = /^(\d{4}-\d{2}-\d{2})$/.exec(value.trim());
+    if (plain) return { date: plain[1] };
+
+    const parsed = new Date(value);
+    if (Number.isNaN(parsed.getTime())) return null;
+
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return {
+        date: formatDateKey(parsed),
+        time: includeTime ? `${pad(parsed.getHours())}:${pad(parsed.getMinutes())}` : undefined,
+    };
+}
+
+/**
+ * Read a point in time as an ISO timestamp, or undefined if there is none
+ * or it can't be understood.
+ *
+ * @param utc - Take a time without a zone as UTC rather than local time
+ */
+function parseExternalTimestamp(value: string | undefined | null, utc = false): string | undefined {
+    if (!value) return undefined;
+    const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim());
+    const parsed = new Date(utc && !hasZone ? `${value.trim()}Z` : value);
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+/**
+ * Strip the extension from a file name, for use as a project name.
+ */
+function baseName(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '').trim() || 'Imported';
+}
+
+/**
+ * Parse JSON, turning syntax errors into a readable message.
+ */
+function parseJson(text: string, source: ImportSource): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new Error(`The file is not a valid ${importSourceLabels[source]} JSON export.`);
+    }
+}
+
+// =============================================================================
+// TODOIST
+// =============================================================================
+
+/**
+ * Map a Todoist priority. The CSV export uses 1 for p1 (highest),
+ * while the API uses 4 for p1. p4 means no priority.
+ */
+function todoistPriority(level: number, apiScale: boolean): Task['priority'] {
+    const p = apiScale ? 5 - level : level;
+    if (p === 1) return 'high';
+    if (p === 3) return 'low';
+    return 'medium';
+}
+
+/**
+ * Read a Todoist due string. Only exact dates and daily repeats can be kept.
+ */
+function readTodoistDue(
+    builder: PreviewBuilder,
+    title: string,
+    dateText: string
+): Pick<Task, 'dueDate' | 'isRecurring'> {
+    const text = dateText.trim();
+    if (!text) return {};
+
+    if (/^every\s+(day|weekday)$|^daily$/i.test(text)) {
+        return { isRecurring: true };
+    }
+
+    const parsed = parseExternalDate(text);
+    if (parsed) return { dueDate: parsed.date };
+
+    builder.warn(title, `Due date "${text}" couldn't be read; imported without one`);
+    return {};
+}
+
+/**
+ * Todoist project template CSV.
+ */
+function readTodoistCsv(builder: PreviewBuilder, text: string, fileName: string): void {
+    const rows = parseCsv(text);
+    if (rows.length > 0 && !('CONTENT' in rows[0])) {
+        throw new Error('The CSV has no CONTENT column. Is it a Todoist export?');
+    }
+
+    const projectId = builder.project(baseName(fileName));
+
+    for (const row of rows) {
+        const title = row.CONTENT ?? '';
+        const type = (row.TYPE || 'task').toLowerCase();
+
+        if (type === 'section') {
+            builder.skip(title, 'Sections are not imported; their tasks are');
+        } else if (type === 'note') {
+            builder.skip(title, 'Comments are not imported');
+        } else if (!title) {
+            builder.skip(title, 'Task has no title');
+        } else {
+            builder.task({
+                title,
+                priority: todoistPriority(Number(row.PRIORITY) || 4, false),
+                projectId,
+                ...readTodoistDue(builder, title, row.DATE ?? ''),
+            });
+        }
+    }
+}
+
+/**
+ * Todoist Sync API JSON.
+ */
+function readTodoistJson(builder: PreviewBuilder, text: string): void {
+    const data = parseJson(text, 'todoist') as {
+        projects?: { id: string; name: string; is_deleted?: boolean; is_archived?: boolean }[];
+        items?: {
+            content?: string;
+            priority?: number;
+            project_id?: string;
+            checked?: boolean;
+            completed_at?: string | null;
+            is_deleted?: boolean;
+            due?: { date?: string; string?: string; is_recurring?: boolean } | null;
+        }[];
+    };
+    if (!Array.isArray(data.items)) {
+        throw new Error('The JSON has no "items" list. Is it a Todoist export?');
+    }
+
+    const projectNames = new Map((data.projects ?? []).map(p => [String(p.id), p]));
+
+    for (const item of data.items) {
+        const title = item.content ?? '';
+        const project = item.project_id ? projectNames.get(String(item.project_id)) : undefined;
+
+        if (item.is_deleted) {
+            builder.skip(title, 'Deleted in Todoist');
+            continue;
+        }
+        if (!title) {
+            builder.skip(title, 'Task has no title');
+            continue;
+        }
+
+        const due = item.due ? parseExternalDate(item.due.date, true) : null;
+        const isDaily = item.due?.is_recurring && /^every\s+(day|weekday)$|^daily$/i.test(item.due.string ?? '');
+        if (item.due?.is_recurring && !isDaily) {
+            builder.warn(title, `Repeats "${item.due.string ?? ''}"; only daily repeats are supported`);
+        }
+
+        builder.task({
+            title,
+            completed: Boolean(item.checked),
+            completedAt: parseExternalTimestamp(item.completed_at),
+            priority: todoistPriority(item.priority ?? 1, true),
+            projectId: project && project.name !== 'Inbox' ? builder.project(project.name) : undefined,
+            dueDate: due?.date,
+            dueTime: due?.time !== '00:00' ? due?.time : undefined,
+            isRecurring: isDaily || undefined,
+        });
+    }
+}
+
+// =============================================================================
+// TRELLO
+// =============================================================================
+
+/**
+ * Guess a priority from a card's labels.
+ */
+function trelloPriority(labels: { name?: string; color?: string }[] = []): Task['priority'] {
+    if (labels.some(l => /high|urgent|important|critical/i.test(l.name ?? '') || l.color === 'red')) return 'high';
+    if (labels.some(l => /low|someday|minor/i.test(l.name ?? ''))) return 'low';
+    return 'medium';
+}
+
+/**
+ * Trello board JSON export.
+ */
+function readTrelloJson(builder: PreviewBuilder, text: string): void {
+    const board = parseJson(text, 'trello') as {
+        name?: string;
+        lists?: { id: string; name: string; closed?: boolean }[];
+        cards?: {
+            name?: string;
+            idList?: string;
+            closed?: boolean;
+            due?: string | null;
+            dueComplete?: boolean;
+            desc?: string;
+            labels?: { name?: string; color?: string }[];
+        }[];
+    };
+    if (!Array.isArray(board.lists) || !Array.isArray(board.cards)) {
+        throw new Error('The JSON has no lists or cards. Is it a Trello board export?');
+    }
+
+    const boardName = board.name?.trim() || 'Trello';
+    const listsById = new Map(board.lists.map(list => [list.id, list]));
+
+    for (const card of board.cards) {
+        const title = card.name ?? '';
+        const list = card.idList ? listsById.get(card.idList) : undefined;
+
+        if (card.closed) {
+            builder.skip(title, 'Card is archived');
+        } else if (list?.closed) {
+            builder.skip(title, `List "${list.name}" is archived`);
+        } else if (!title.trim()) {
+            builder.skip(title, 'Card has no title');
+        } else {
+            const due = parseExternalDate(card.due, true);
+            builder.task({
+                title,
+                completed: Boolean(card.dueComplete) || /^(done|complete|completed|finished)$/i.test(list?.name ?? ''),
+                priority: trelloPriority(card.labels),
+                projectId: list ? builder.project(`${boardName}: ${list.name}`, { tags: [boardName] }) : undefined,
+                dueDate: due?.date,
+                dueTime: due?.time,
+            });
+            if (card.desc?.trim()) {
+                builder.warn(title, 'Card description is not imported');
+            }
+        }
+    }
+}
+
+// =============================================================================
+// MICROSOFT TO DO
+// =============================================================================
+
+/**
+ * Map a To Do importance or Outlook priority.
+ */
+function microsoftPriority(value: string | undefined): Task['priority'] {
+    const level = (value ?? '').toLowerCase();
+    if (level === 'high') return 'high';
+    if (level === 'low') return 'low';
+    return 'medium';
+}
+
+/**
+ * Microsoft Graph JSON: a list of task lists, each with its tasks.
+ */
+function readMicrosoftTodoJson(builder: PreviewBuilder, text: string): void {
+    type GraphTask = {
+        title?: string;
+        status?: string;
+        importance?: string;
+        dueDateTime?: { dateTime?: string } | null;
+        completedDateTime?: { dateTime?: string; timeZone?: string } | null;
+        recurrence?: { pattern?: { type?: string; interval?: number } } | null;
+    };
+    type GraphList = { displayName?: string; wellknownListName?: string; tasks?: GraphTask[] };
+
+    const data = parseJson(text, 'microsoft-todo') as GraphList[] | { lists?: GraphList[]; value?: GraphList[] };
+    const lists = Array.isArray(data) ? data : data.lists ?? data.value;
+    if (!Array.isArray(lists)) {
+        throw new Error('The JSON has no task lists. Is it a Microsoft To Do export?');
+    }
+
+    for (const list of lists) {
+        // The built-in "Tasks" list holds unsorted tasks, so it doesn't become a project
+        const isDefaultList = list.wellknownListName === 'defaultList';
+        const projectId = !isDefaultList && list.displayName ? builder.project(list.displayName) : undefined;
+
+        for (const task of list.tasks ?? []) {
+            const title = task.title ?? '';
+            if (!title.trim()) {
+                builder.skip(title, 'Task has no title');
+                continue;
+            }
+
+            const pattern = task.recurrence?.pattern;
+            const isDaily = pattern?.type === 'daily' && (pattern.interval ?? 1) === 1;
+            if (pattern && !isDaily) {
+                builder.warn(title, `Repeats ${pattern.type ?? ''}; only daily repeats are supported`);
+            }
+
+            builder.task({
+                title,
+                completed: task.status === 'completed',
+                completedAt: parseExternalTimestamp(
+                    task.completedDateTime?.dateTime,
+                    task.completedDateTime?.timeZone === 'UTC'
+                ),
+                priority: microsoftPriority(task.importance),
+                projectId,
+                // To Do due dates are whole days stored as midnight
+                dueDate: task.dueDateTime?.dateTime?.slice(0, 10),
+                isRecurring: isDaily || undefined,
+            });
+        }
+    }
+}
+
+/**
+ * Outlook tasks CSV, as exported from Outlook or To Do export tools.
+ */
+function readMicrosoftTodoCsv(builder: PreviewBuilder, text: string): void {
+    const rows = parseCsv(text);
+    if (rows.length > 0 && !('SUBJECT' in rows[0]) && !('TITLE' in rows[0])) {
+        throw new Error('The CSV has no Subject or Title column. Is it a Microsoft To Do export?');
+    }
+
+    for (const row of rows) {
+        const title = row.SUBJECT ?? row.TITLE ?? '';
+        if (!title) {
+            builder.skip(title, 'Task has no title');
+            continue;
+        }
+
+        const dueText = row['DUE DATE'] ?? row.DUE ?? '';
+        const due = parseExternalDate(dueText);
+        if (dueText && !due) {
+            builder.warn(title, `Due date "${dueText}" couldn't be read; imported without one`);
+        }
+
+        const listName = row.LIST ?? row.FOLDER;
+        builder.task({
+            title,
+            completed: /^(true|yes|completed)$/i.test(row.COMPLETE ?? row.STATUS ?? ''),
+            completedAt: parseExternalTimestamp(row['DATE COMPLETED']),
+            priority: microsoftPriority(row.PRIORITY ?? row.IMPORTANCE),
+            projectId: listName ? builder.project(listName) : undefined,
+            dueDate: due?.date,
+        });
+    }
+}
+
+// =============================================================================
+// ENTRY POINTS
+// =============================================================================
+
+/**
+ * Read an export file and build a preview of what would be imported.
+ * JSON or CSV is detected from the content.
+ *
+ * @throws Error if the file doesn't look like an export from the chosen app
+ */
+export async function previewExternalImport(source: ImportSource, fileName: string, text: string): Promise<ImportPreview> {
+    if (!isDatabaseInitialized()) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+
+    const builder = createPreviewBuilder(source, await callDatabase('getAllProjects'));
+    const isJson = /^\s*[[{]/.test(text);
+
+    switch (source) {
+        case 'todoist':
+            if (isJson) readTodoistJson(builder, text);
+            else readTodoistCsv(builder, text, fileName);
+            break;
+        case 'trello':
+            if (!isJson) throw new Error('Trello exports are JSON files. Export the board as JSON from its menu.');
+            readTrelloJson(builder, text);
+            break;
+        case 'microsoft-todo':
+            if (isJson) readMicrosoftTodoJson(builder, text);
+            else readMicrosoftTodoCsv(builder, text);
+            break;
+    }
+
+    return builder.preview;
+}
+
+/**
+ * Write a confirmed preview through the repositories.
+ * Tasks go to Today, This Week or Backlog based on their due date and are
+ * placed after the tasks already in that category.
+ */
+export async function runExternalImport(preview: ImportPreview): Promise<ExternalImportResult> {
+    if (!isDatabaseInitialized()) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+
+    // Each category's next free place
+    const orders = new Map(Object.entries(await callDatabase('countTasksByCategory')) as [Task['category'], number][]);
+
+    const calls: OperationCall[] = preview.projects.map((project): OperationCall => ['insertProject', project]);
+    for (const task of preview.tasks) {
+        const category = categoryForDate(task.dueDate);
+        const order = orders.get(category) ?? 0;
+        orders.set(category, order + 1);
+
+        calls.push(['insertTask', { ...task, category, order }]);
+    }
+    await runTransaction(calls);
+
+    notifyRecordsChanged();
+    console.log(`[Import] Imported ${preview.tasks.length} tasks from ${importSourceLabels[preview.source]}`);
+
+    return { tasks: preview.tasks.length, projects: preview.projects.length };
+}
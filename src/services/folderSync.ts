@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Folder sync for the desktop app
+ *
+ * An alternative to the sync server: devices share a folder kept in step
+ * by another tool (Syncthing, Dropbox, a network drive). Each device only
+ * ever appends to its own change log in that folder, so no two devices
+ * write the same file:
+ *
+ * ```
+ * <folder>/luminanote-<device id>.jsonl
+ * ```
+ *
+ * Each line is a RecordChange (see services/syncRecords) listing the fields the
+ * device changed itself. A sync reads the lines other devices added since
+ * the last byte offset it read, merges them like the sync server does,
+ * then appends this device's own changes.
+ *
+ * Incoming changes that lose to a local one aren't dropped silently: they
+ * go to the sync_conflicts table for the user to review, keep or apply.
+ * Settled conflicts stay in the table, marked resolved, so reading a log
+ * again doesn't bring them back.
+ *
+ * Reading and writing the database happens in the database worker, in
+ * services/folderSyncRecords.
+ *
+ * @module services/folderSync
+ */
+
+import {
+    isDatabaseInitialized,
+    notifyRecordsChanged,
+    getDatabaseWorkspace,
+    isWorkspaceOpen,
+} from './database';
+import { callDatabase } from './databaseClient';
+import { DEFAULT_WORKSPACE_ID } from './storage';
+import { getSetting } from './settingsRepository';
+import type { SyncStatus } from './sync';
+import type { LogEntry, SyncConflictEntry } from './folderSyncRecords';
+
+export type { SyncConflictEntry };
+
+/**
+ * localStorage key of this device's id; not in the database, which may be
+ * copied between devices. Other workspaces than the default add `:<id>`,
+ * so two workspaces syncing through one folder never share a log.
+ */
+const DEVICE_ID_KEY = 'lumina-device-id';
+
+let status: SyncStatus = { state: 'off', lastSyncedAt: null, error: null };
+const listeners = new Set<() => void>();
+let running: Promise<void> | null = null;
+
+/**
+ * Replace the status and tell subscribers.
+ */
+function setStatus(next: SyncStatus): void {
+    status = next;
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Whether folder sync can be used here (the desktop app only).
+ */
+export function isFolderSyncAvailable(): boolean {
+    return window.electronAPI !== undefined;
+}
+
+/**
+ * This device's id in the current workspace, which names its change log.
+ * Created on first use.
+ */
+export function getDeviceId(): string {
+    const workspace = getDatabaseWorkspace();
+    const key = workspace === DEFAULT_WORKSPACE_ID ? DEVICE_ID_KEY : `${DEVICE_ID_KEY}:${workspace}`;
+
+    let id = localStorage.getItem(key);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(key, id);
+    }
+    return id;
+}
+
+/**
+ * Ask the user for a sync folder.
+ * @returns The chosen folder, or null if they cancelled
+ */
+export async function chooseSyncFolder(): Promise<string | null> {
+    return window.electronAPI ? window.electronAPI.chooseSyncFolder() : null;
+}
+
+/**
+ * Apply the lines another device added to its log since the last read.
+ * @returns The number of changes applied and of conflicts found
+ */
+async function pullLog(
+    folder: string,
+    log: { deviceId: string; size: number },
+    workspace: string
+): Promise<{ applied: number; conflicts: number }> {
+    let offset = await callDatabase('getLogOffset', log.deviceId);
+
+    // The log was replaced or cut short; applying it again from the start is harmless
+    if (log.size < offset) offset = 0;
+    if (log.size === offset) return { applied: 0, conflicts: 0 };
+
+    const { text, offset: end } = await window.electronAPI!.readSyncLog(folder, log.deviceId, offset);
+    if (!isWorkspaceOpen(workspace)) return { applied: 0, conflicts: 0 };
+
+    const encoder = new TextEncoder();
+    const entries: LogEntry[] = [];
+    let position = offset;
+    for (const line of text.split('\n')) {
+        const lineOffset = position;
+        position += encoder.encode(line).length + 1;
+        if (!line.trim()) continue;
+        try {
+            entries.push({ change: JSON.parse(line), offset: lineOffset });
+        } catch {
+            console.warn(`[Folder sync] Skipped an unreadable line in the log of ${log.deviceId}`);
+        }
+    }
+
+    return callDatabase('applyLogEntries', log.deviceId, entries, end);
+}
+
+/**
+ * Merge the other devices' logs, then append this device's changes.
+ */
+async function runFolderSync(): Promise<void> {
+    const folder = getSetting('syncFolder');
+    if (!window.electronAPI || !folder || !isDatabaseInitialized()) {
+        setStatus({ ...status, state: 'off', error: null });
+        return;
+    }
+
+    setStatus({ ...status, state: 'syncing', error: null });
+    const workspace = getDatabaseWorkspace();
+    try {
+        const deviceId = getDeviceId();
+
+        // A different folder has different logs: start over
+        await callDatabase('setSyncFolder', folder);
+
+        let applied = 0;
+        let conflicts = 0;
+        for (const log of await window.electronAPI.listSyncLogs(folder)) {
+            if (log.deviceId === deviceId) continue;
+            const result = await pullLog(folder, log, workspace);
+            applied += result.applied;
+            conflicts += result.conflicts;
+        }
+
+        // Taken after pulling, so changes just copied in aren't pushed as this device's own
+        const startedAt = new Date().toISOString();
+        const changes = await callDatabase('collectFolderChanges');
+        if (changes.length > 0) {
+            const lines = changes.map(change => JSON.stringify(change));
+            await window.electronAPI.appendSyncLog(folder, deviceId, lines.join('\n') + '\n');
+        }
+
+        // Closed meanwhile; its next sync appends these changes again, which is harmless
+        if (!isWorkspaceOpen(workspace)) {
+            setStatus({ state: 'off', lastSyncedAt: null, error: null });
+            return;
+        }
+        await callDatabase('markFolderPushed', startedAt);
+
+        if (changes.length > 0 || applied > 0) {
+            console.log(`[Folder sync] Wrote ${changes.length} and applied ${applied} changes`);
+        }
+        if (conflicts > 0) {
+            console.warn(`[Folder sync] ${conflicts} conflicting changes kept for review`);
+        }
+        if (applied > 0 || conflicts > 0) {
+            notifyRecordsChanged();
+        }
+        setStatus({ state: 'idle', lastSyncedAt: new Date().toISOString(), error: null });
+    } catch (error) {
+        console.warn('[Folder sync] Sync failed:', error);
+        setStatus({ ...status, state: 'error', error: error instanceof Error ? error.message : 'Sync failed' });
+    }
+}
+
+/**
+ * Sync with the folder now, or wait for the sync already running. Never
+ * rejects; failures show in the status.
+ */
+export function syncFolderNow(): Promise<void> {
+    if (!running) {
+        running = runFolderSync().finally(() => {
+            running = null;
+        });
+    }
+    return running;
+}
+
+/**
+ * Get the current folder sync status.
+ */
+export function getFolderSyncStatus(): SyncStatus {
+    return status;
+}
+
+/**
+ * Subscribe to folder sync status changes.
+ * @returns Unsubscribe function
+ */
+export function onFolderSyncStatusChanged(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * List the conflicts waiting for review, newest first.
+ */
+export function getSyncConflicts(): Promise<SyncConflictEntry[]> {
+    return callDatabase('getSyncConflicts');
+}
+
+/**
+ * Settle a conflict, either keeping what this device has or applying the
+ * other device's change. Applied changes are new local edits, so they are
+ * written to this device's log and win everywhere.
+ *
+ * @param useIncoming - Apply the other device's change instead of keeping this one
+ */
+export async function resolveSyncConflict(id: string, useIncoming: boolean): Promise<void> {
+    await callDatabase('resolveSyncConflict', id, useIncoming);
+    notifyRecordsChanged();
+}
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Folder sync state and conflicts, inside the database worker
+ *
+ * The part of folder sync (services/folderSync) that runs SQL: how far
+ * each device's change log has been read, which of this device's changes
+ * have been written to its own log, and the sync_conflicts table of
+ * incoming changes that lost to a local one and wait for review.
+ *
+ * @module services/folderSyncRecords
+ */
+
+import type { Database } from 'sql.js';
+import { getDatabase, withTransaction } from './connection';
+import { getColumns } from './migrations';
+import { withoutChangeTracking } from './changeTracking';
+import { collectChanges, applyChange, readSyncState, writeSyncState } from './syncRecords';
+import type { RecordChange, SyncConflict, SyncEntity } from './syncRecords';
+import * as taskRepository from './taskRepository';
+import * as projectRepository from './projectRepository';
+
+/**
+ * A conflict waiting for review, as listed to the user.
+ */
+export interface SyncConflictEntry extends SyncConflict {
+    id: string;
+
+    /** Device whose change lost */
+    deviceId: string | null;
+
+    /** When the conflict was found */
+    detectedAt: string;
+
+    /** Task title or project name */
+    title: string;
+}
+
+/**
+ * A line read from another device's change log.
+ */
+export interface LogEntry {
+    change: RecordChange;
+
+    /** Byte offset of the line in the log */
+    offset: number;
+}
+
+/** Keys in sync_state; all start with `folder_` so they can be reset together */
+const FOLDER_KEY = 'folder_path';
+const PUSHED_THROUGH_KEY = 'folder_pushed_through';
+const OFFSET_KEY_PREFIX = 'folder_offset:';
+
+/** Table and title column of each synced entity */
+const RECORD_TABLES: Record<SyncEntity, { table: string; titleColumn: string }> = {
+    task: { table: 'tasks', titleColumn: 'title' },
+    project: { table: 'projects', titleColumn: 'name' },
+};
+
+/**
+ * Remember the folder being synced with. A different folder has different
+ * logs, so everything known about the previous one is forgotten.
+ */
+export function setSyncFolder(folder: string): void {
+    if (readSyncState(getDatabase(), FOLDER_KEY) === folder) return;
+
+    withTransaction((database) => {
+        database.run("DELETE FROM sync_state WHERE key LIKE 'folder\\_%' ESCAPE '\\'");
+        writeSyncState(database, FOLDER_KEY, folder);
+    });
+}
+
+/**
+ * The byte offset up to which a device's log has been read.
+ */
+export function getLogOffset(deviceId: string): number {
+    return Number(readSyncState(getDatabase(), `${OFFSET_KEY_PREFIX}${deviceId}`) ?? 0);
+}
+
+/**
+ * Save a conflict for review. The id is derived from where the change is
+ * in the log, so reading a line again doesn't list its conflict twice.
+ *
+ * @returns Whether the conflict is new
+ */
+function recordConflict(database: Database, conflict: SyncConflict, deviceId: string, lineOffset: number): boolean {
+    database.run(
+        `INSERT OR IGNORE INTO sync_conflicts
+            (id, entity, record_id, kind, field, local_value, incoming_value, device_id, detected_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+            `${deviceId}:${lineOffset}:${conflict.field ?? conflict.kind}`,
+            conflict.entity,
+            conflict.recordId,
+            conflict.kind,
+            conflict.field,
+            JSON.stringify(conflict.localValue ?? null),
+            JSON.stringify(conflict.incomingValue ?? null),
+            deviceId,
+            new Date().toISOString(),
+        ]
+    );
+    return database.getRowsModified() > 0;
+}
+
+/**
+ * Apply lines read from another device's log and remember where reading
+ * stopped.
+ *
+ * @param end - Byte offset after the last line read
+ * @returns The number of changes applied and of conflicts found
+ */
+export function applyLogEntries(deviceId: string, entries: LogEntry[], end: number): { applied: number; conflicts: number } {
+    let conflicts = 0;
+    const applied = withTransaction((database) => {
+        const count = withoutChangeTracking(database, () => entries.filter(entry =>
+            applyChange(database, entry.change, (conflict) => {
+                if (recordConflict(database, conflict, deviceId, entry.offset)) conflicts++;
+            })
+        ).length);
+        writeSyncState(database, `${OFFSET_KEY_PREFIX}${deviceId}`, String(end));
+        return count;
+    });
+    return { applied, conflicts };
+}
+
+/**
+ * Collect this device's changes since its previous push, each listing the
+ * fields changed here. The first push lists everything, but none of it as
+ * a new edit.
+ */
+export function collectFolderChanges(): RecordChange[] {
+    const since = readSyncState(getDatabase(), PUSHED_THROUGH_KEY);
+    return collectChanges(since).map(change => ({
+        ...change,
+        changed: since === null ? [] : Object.keys(change.fieldTimes).filter(field => change.fieldTimes[field] >= since),
+    }));
+}
+
+/**
+ * Remember that changes up to a time have been written to this device's log.
+ */
+export function markFolderPushed(startedAt: string): void {
+    withTransaction((database) => writeSyncState(database, PUSHED_THROUGH_KEY, startedAt));
+}
+
+/**
+ * Parse a stored JSON value, treating anything unreadable as null.
+ */
+function parseValue(raw: unknown): unknown {
+    try {
+        return JSON.parse(raw as string);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * List the conflicts waiting for review, newest first.
+ */
+export function getSyncConflicts(): SyncConflictEntry[] {
+    const database = getDatabase();
+    const result = database.exec(`
+        SELECT c.id, c.entity, c.record_id, c.kind, c.field, c.local_value, c.incoming_value,
+               c.device_id, c.detected_at, COALESCE(t.title, p.name)
+        FROM sync_conflicts c
+        LEFT JOIN tasks t ON c.entity = 'task' AND t.id = c.record_id
+        LEFT JOIN projects p ON c.entity = 'project' AND p.id = c.record_id
+        WHERE c.resolved_at IS NULL
+        ORDER BY c.detected_at DESC
+    `);
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row) => {
+        const entity = row[1] as SyncEntity;
+        const incomingValue = parseValue(row[6]);
+        const incomingTitle = (incomingValue as Record<string, unknown> | null)?.[RECORD_TABLES[entity]?.titleColumn];
+        return {
+            id: row[0] as string,
+            entity,
+            recordId: row[2] as string,
+            kind: row[3] as SyncConflict['kind'],
+            field: row[4] as string | null,
+            localValue: parseValue(row[5]),
+            incomingValue,
+            deviceId: row[7] as string | null,
+            detectedAt: row[8] as string,
+            title: (row[9] as string | null) ?? (typeof incomingTitle === 'string' ? incomingTitle : 'Unknown'),
+        };
+    });
+}
+
+/**
+ * Settle a conflict, either keeping what this device has or applying the
+ * other device's change. Applied changes are new local edits, so they are
+ * written to this device's log and win everywhere.
+ *
+ * @param useIncoming - Apply the other device's change instead of keeping this one
+ */
+export function resolveSyncConflict(id: string, useIncoming: boolean): void {
+    const conflict = getSyncConflicts().find(entry => entry.id === id);
+    if (!conflict) return;
+    const target = RECORD_TABLES[conflict.entity];
+
+    withTransaction((database) => {
+        if (useIncoming && target) {
+            if (conflict.kind === 'field' && conflict.field && getColumns(database, target.table).includes(conflict.field)) {
+                database.run(`UPDATE ${target.table} SET ${conflict.field} = ? WHERE id = ?`, [conflict.incomingValue, conflict.recordId]);
+            } else if (conflict.kind === 'deleted-elsewhere') {
+                // To the trash rather than gone for good, in case it's wanted after all
+                if (conflict.entity === 'task') {
+                    taskRepository.deleteTask(conflict.recordId);
+                } else {
+                    projectRepository.deleteProject(conflict.recordId);
+                }
+            } else if (conflict.kind === 'deleted-here' && conflict.incomingValue) {
+                const columns = getColumns(database, target.table);
+                const fields = Object.entries(conflict.incomingValue as Record<string, unknown>)
+                    .filter(([column]) => columns.includes(column));
+                database.run(
+                    `INSERT OR IGNORE INTO ${target.table} (id, ${fields.map(([column]) => column).join(', ')})
+                     VALUES (?, ${fields.map(() => '?').join(', ')})`,
+                    [conflict.recordId, ...fields.map(([, value]) => value)]
+                );
+            }
+        }
+        database.run('UPDATE sync_conflicts SET resolved_at = ? WHERE id = ?', [new Date().toISOString(), id]);
+    });
+}
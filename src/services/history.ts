@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Undo/redo history for task and project changes
+ *
+ * Stores record a command for each change a user makes: a label plus
+ * functions that reverse and re-apply it. Commands run while undoing or
+ * redoing aren't recorded again. The history is cleared whenever the
+ * database is replaced, since older commands no longer match the data.
+ *
+ * @module services/history
+ */
+
+import { onDatabaseReplaced } from './database';
+
+/**
+ * A change that can be reversed and re-applied.
+ */
+export interface Command {
+    /** Short description shown to the user, e.g. "Delete task" */
+    label: string;
+    undo: () => void;
+    redo: () => void;
+}
+
+/** Oldest commands are dropped beyond this many */
+const MAX_HISTORY = 100;
+
+let undoStack: Command[] = [];
+let redoStack: Command[] = [];
+
+// Commands collected by groupCommands, or null outside a group
+let group: Command[] | null = null;
+
+// Set while a command is being undone or redone
+let replaying = false;
+
+onDatabaseReplaced(() => clearHistory());
+
+/**
+ * Record a change that has just been made.
+ */
+export function recordCommand(command: Command): void {
+    if (replaying) return;
+
+    if (group) {
+        group.push(command);
+        return;
+    }
+
+    undoStack = [...undoStack.slice(-(MAX_HISTORY - 1)), command];
+    redoStack = [];
+}
+
+/**
+ * Drop a recorded command, e.g. because the change it describes failed
+ * to be stored. A command recorded inside a group stays part of it.
+ */
+export function forgetCommand(command: Command): void {
+    undoStack = undoStack.filter(entry => entry !== command);
+    redoStack = redoStack.filter(entry => entry !== command);
+}
+
+/**
+ * Record every command made inside `fn` as a single step.
+ */
+export function groupCommands(label: string, fn: () => void): void {
+    if (group || replaying) {
+        fn();
+        return;
+    }
+
+    const commands: Command[] = [];
+    group = commands;
+    try {
+        fn();
+    } finally {
+        group = null;
+    }
+
+    if (commands.length > 0) {
+        recordCommand({
+            label,
+            undo: () => [...commands].reverse().forEach(command => command.undo()),
+            redo: () => commands.forEach(command => command.redo()),
+        });
+    }
+}
+
+/**
+ * Run a command's undo or redo without recording anything new.
+ */
+function replay(fn: () => void): void {
+    replaying = true;
+    try {
+        fn();
+    } finally {
+        replaying = false;
+    }
+}
+
+/**
+ * Undo the most recent change.
+ *
+ * @returns The undone command, or null if there was nothing to undo
+ */
+export function undo(): Command | null {
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return null;
+
+    replay(command.undo);
+    undoStack = undoStack.slice(0, -1);
+    redoStack = [...redoStack, command];
+    return command;
+}
+
+/**
+ * Re-apply the most recently undone change.
+ *
+ * @returns The redone command, or null if there was nothing to redo
+ */
+export function redo(): Command | null {
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return null;
+
+    replay(command.redo);
+    redoStack = redoStack.slice(0, -1);
+    undoStack = [...undoStack, command];
+    return command;
+}
+
+/**
+ * Get the command that undo() would reverse.
+ */
+export function getLastCommand(): Command | undefined {
+    return undoStack[undoStack.length - 1];
+}
+
+/**
+ * Undo a specific command, but only while it is still the latest one.
+ *
+ * @returns True if the command was undone
+ */
+export function undoCommand(command: Command): boolean {
+    if (getLastCommand() !== command) return false;
+    undo();
+    return true;
+}
+
+/**
+ * Forget all recorded changes.
+ */
+export function clearHistory(): void {
+    undoStack = [];
+    redoStack = [];
+}
@@ -0,0 +1,506 @@
+/**
+ * @fileoverview iCalendar (.ics) export and import
+ *
+ * Writes dated tasks as VTODO entries and project deadlines as all-day
+ * VEVENT entries (RFC 5545), and reads VEVENT/VTODO entries back from
+ * files made by other calendar apps. Imported entries can become tasks
+ * or be shown as a read-only overlay on the calendar.
+ *
+ * Times are exported as floating local times. On import, UTC times are
+ * converted to local time and TZID times are taken as written.
+ * Repeating entries support FREQ, INTERVAL, COUNT and UNTIL.
+ *
+ * @module services/icalendar
+ */
+
+import { isDatabaseInitialized, notifyRecordsChanged } from './database';
+import { callDatabase, runTransaction } from './databaseClient';
+import { downloadFile, getDateStamp } from './download';
+import { MS_PER_DAY, formatDateKey, parseDateKey, categoryForDate } from './dates';
+import type { OperationCall } from './databaseOperations';
+import type { Task, Project, CalendarEntry } from '../types';
+
+/** Suffix of UIDs written by LuminaNote, so re-imports update the same record */
+const UID_DOMAIN = '@luminanote';
+
+/** Non-standard property that keeps a task's category across a round trip */
+const CATEGORY_PROPERTY = 'X-LUMINANOTE-CATEGORY';
+
+/** RFC 5545 limits content lines to 75 octets before folding */
+const MAX_LINE_OCTETS = 75;
+
+/** iCalendar PRIORITY values written for each LuminaNote priority */
+const priorityToIcs: Record<Task['priority'], number> = {
+    high: 1,
+    medium: 5,
+    low: 9,
+};
+
+/**
+ * Summary of an import into tasks.
+ */
+export interface IcsImportResult {
+    /** Tasks created from new entries */
+    added: number;
+
+    /** Existing tasks or project deadlines updated from entries */
+    updated: number;
+}
+
+/**
+ * A parsed content line: `NAME;PARAM=value:VALUE`.
+ */
+interface ContentLine {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/**
+ * Escape a TEXT value.
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets.
+ * Continuation lines start with a single space.
+ */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+        const octets = encoder.encode(char).length;
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (currentOctets + octets > limit) {
+            parts.push(current);
+            current = '';
+            currentOctets = 0;
+        }
+        current += char;
+        currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+/**
+ * Format a YYYY-MM-DD date as an iCalendar DATE (`20260131`).
+ */
+function formatIcsDate(date: string): string {
+    return date.split('T')[0].replace(/-/g, '');
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (`20260131T093000Z`).
+ */
+function formatIcsTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build a date property, as a DATE or as a floating local DATE-TIME when a time is given.
+ */
+function dateProperty(name: string, date: string, time?: string): string {
+    if (!time) return `${name};VALUE=DATE:${formatIcsDate(date)}`;
+    return `${name}:${formatIcsDate(date)}T${time.replace(':', '')}00`;
+}
+
+/**
+ * Add one day to a YYYY-MM-DD date.
+ */
+function nextDay(date: string): string {
+    const [year, month, day] = date.split('T')[0].split('-').map(Number);
+    return formatDateKey(new Date(year, month - 1, day + 1));
+}
+
+/**
+ * Build the VTODO lines for a task, or none if it has no date to export.
+ * Daily recurring tasks without a due date repeat from their creation date.
+ */
+function taskToLines(task: Task, stamp: string): string[] {
+    const startDate = task.dueDate ?? (task.isRecurring ? formatDateKey(new Date(task.createdAt)) : undefined);
+    if (!startDate) return [];
+
+    const lines = [
+        'BEGIN:VTODO',
+        `UID:${task.id}${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `CREATED:${formatIcsTimestamp(new Date(task.createdAt))}`,
+        `SUMMARY:${escapeText(task.title)}`,
+        `PRIORITY:${priorityToIcs[task.priority]}`,
+        `STATUS:${task.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+        `${CATEGORY_PROPERTY}:${task.category}`,
+    ];
+
+    if (task.isRecurring) {
+        lines.push(dateProperty('DTSTART', startDate, task.dueTime));
+        lines.push('RRULE:FREQ=DAILY');
+    }
+    if (task.dueDate) {
+        lines.push(dateProperty('DUE', task.dueDate, task.dueTime));
+    }
+    const completedAt = task.completedAt ?? task.lastCompletedAt;
+    if (task.completed && completedAt) {
+        lines.push(`COMPLETED:${formatIcsTimestamp(new Date(completedAt))}`);
+    }
+
+    lines.push('END:VTODO');
+    return lines;
+}
+
+/**
+ * Build the all-day VEVENT lines for a project deadline.
+ */
+function projectToLines(project: Project, stamp: string): string[] {
+    if (!project.deadline) return [];
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${project.id}${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `SUMMARY:${escapeText(`${project.name} deadline`)}`,
+        dateProperty('DTSTART', project.deadline),
+        dateProperty('DTEND', nextDay(project.deadline)),
+        'TRANSP:TRANSPARENT',
+    ];
+
+    if (project.description) {
+        lines.push(`DESCRIPTION:${escapeText(project.description)}`);
+    }
+    if (project.tags.length > 0) {
+        lines.push(`CATEGORIES:${project.tags.map(escapeText).join(',')}`);
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/**
+ * Build an .ics calendar from dated tasks and project deadlines.
+ */
+export function exportIcs(tasks: Task[], projects: Project[]): string {
+    const stamp = formatIcsTimestamp(new Date());
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//LuminaNote//LuminaNote//EN',
+        'CALSCALE:GREGORIAN',
+        'X-WR-CALNAME:LuminaNote',
+        ...tasks.flatMap(task => taskToLines(task, stamp)),
+        ...projects.flatMap(project => projectToLines(project, stamp)),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Download dated tasks and project deadlines as an .ics file.
+ */
+export function downloadIcs(tasks: Task[], projects: Project[]): void {
+    downloadFile(exportIcs(tasks, projects), `luminanote-${getDateStamp()}.ics`, 'text/calendar');
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/**
+ * Reverse escapeText.
+ */
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a content line into name, parameters and value.
+ * The value starts at the first colon that isn't inside a quoted parameter.
+ */
+function parseContentLine(line: string): ContentLine | null {
+    let inQuotes = false;
+    let colonIndex = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+            colonIndex = i;
+            break;
+        }
+    }
+    if (colonIndex === -1) return null;
+
+    const [name, ...paramParts] = line.slice(0, colonIndex).split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+        const [key, ...rest] = part.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+/**
+ * Read a DATE or DATE-TIME value as a local date and optional time.
+ */
+function parseIcsDate(line: ContentLine): { date: string; time?: string } | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+    if (!match) return null;
+
+    const [, year, month, day, hours, minutes, , utc] = match;
+    if (!hours || line.params.VALUE === 'DATE') {
+        return { date: `${year}-${month}-${day}` };
+    }
+
+    if (utc) {
+        const local = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes));
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return { date: formatDateKey(local), time: `${pad(local.getHours())}:${pad(local.getMinutes())}` };
+    }
+
+    return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+}
+
+/**
+ * Map an iCalendar PRIORITY (1 highest, 9 lowest, 0 undefined).
+ */
+function parsePriority(value: string | undefined): Task['priority'] {
+    const priority = Number(value);
+    if (!priority) return 'medium';
+    if (priority <= 4) return 'high';
+    if (priority === 5) return 'medium';
+    return 'low';
+}
+
+/**
+ * Build an entry from the properties of one VEVENT or VTODO.
+ */
+function toCalendarEntry(kind: CalendarEntry['kind'], props: Map<string, ContentLine>): CalendarEntry | null {
+    const uid = props.get('UID')?.value;
+    if (!uid) return null;
+
+    // To-dos are placed on their due date, events on their start
+    const dateLine = kind === 'todo' ? props.get('DUE') ?? props.get('DTSTART') : props.get('DTSTART');
+    const when = dateLine ? parseIcsDate(dateLine) : null;
+    const category = props.get(CATEGORY_PROPERTY)?.value;
+    const description = props.get('DESCRIPTION')?.value;
+
+    return {
+        uid,
+        kind,
+        title: unescapeText(props.get('SUMMARY')?.value ?? '') || '(untitled)',
+        description: description ? unescapeText(description) : undefined,
+        date: when?.date,
+        time: when?.time,
+        completed: props.get('STATUS')?.value.toUpperCase() === 'COMPLETED' || props.has('COMPLETED'),
+        priority: parsePriority(props.get('PRIORITY')?.value),
+        category: category === 'today' || category === 'week' || category === 'backlog' ? category : undefined,
+        rrule: props.get('RRULE')?.value,
+    };
+}
+
+/**
+ * Read the VEVENT and VTODO entries of an .ics file.
+ * Nested components such as VALARM are ignored.
+ *
+ * @throws Error if the text isn't an iCalendar file
+ */
+export function parseIcs(text: string): CalendarEntry[] {
+    // Unfold continuation lines before splitting
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new Error('The file is not an iCalendar (.ics) file.');
+    }
+
+    const entries: CalendarEntry[] = [];
+    let current: { kind: CalendarEntry['kind']; props: Map<string, ContentLine> } | null = null;
+    let nestedDepth = 0;
+
+    for (const raw of lines) {
+        const line = parseContentLine(raw);
+        if (!line) continue;
+
+        const component = line.value.trim().toUpperCase();
+        if (line.name === 'BEGIN') {
+            if (current) {
+                nestedDepth++;
+            } else if (component === 'VEVENT' || component === 'VTODO') {
+                current = { kind: component === 'VEVENT' ? 'event' : 'todo', props: new Map() };
+            }
+        } else if (line.name === 'END' && current) {
+            if (nestedDepth > 0) {
+                nestedDepth--;
+            } else {
+                const entry = toCalendarEntry(current.kind, current.props);
+                if (entry) entries.push(entry);
+                current = null;
+            }
+        } else if (current && nestedDepth === 0 && !current.props.has(line.name)) {
+            current.props.set(line.name, line);
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Read the calendar's display name, if the file sets one.
+ */
+export function getIcsCalendarName(text: string): string | null {
+    const match = /^X-WR-CALNAME[^:]*:(.*)$/m.exec(text);
+    return match ? unescapeText(match[1].trim()) || null : null;
+}
+
+// =============================================================================
+// RECURRENCE
+// =============================================================================
+
+/**
+ * Whether an entry falls on the given YYYY-MM-DD day, including repeats.
+ * Rules using BYDAY, BYMONTHDAY and similar parts only match their start date.
+ */
+export function occursOn(entry: CalendarEntry, day: string): boolean {
+    if (!entry.date) return false;
+    if (day === entry.date) return true;
+    if (!entry.rrule || day < entry.date) return false;
+
+    const rule = Object.fromEntries(
+        entry.rrule.split(';').map(part => part.split('=') as [string, string])
+    );
+    if (Object.keys(rule).some(key => key.startsWith('BY'))) return false;
+
+    const interval = Number(rule.INTERVAL) || 1;
+    const count = rule.COUNT ? Number(rule.COUNT) : undefined;
+    if (rule.UNTIL) {
+        const until = `${rule.UNTIL.slice(0, 4)}-${rule.UNTIL.slice(4, 6)}-${rule.UNTIL.slice(6, 8)}`;
+        if (day > until) return false;
+    }
+
+    const start = parseDateKey(entry.date);
+    const target = parseDateKey(day);
+    const days = Math.round((target.getTime() - start.getTime()) / MS_PER_DAY);
+    const months = (target.getFullYear() - start.getFullYear()) * 12 + target.getMonth() - start.getMonth();
+
+    let periods: number;
+    switch (rule.FREQ) {
+        case 'DAILY':
+            periods = days;
+            break;
+        case 'WEEKLY':
+            if (days % 7 !== 0) return false;
+            periods = days / 7;
+            break;
+        case 'MONTHLY':
+            if (target.getDate() !== start.getDate()) return false;
+            periods = months;
+            break;
+        case 'YEARLY':
+            if (months % 12 !== 0 || target.getDate() !== start.getDate()) return false;
+            periods = months / 12;
+            break;
+        default:
+            return false;
+    }
+
+    return periods % interval === 0 && (count === undefined || periods / interval < count);
+}
+
+// =============================================================================
+// IMPORTING AS TASKS
+// =============================================================================
+
+/**
+ * Local record id for an entry. Entries exported by LuminaNote keep their
+ * original id; others get a stable id derived from their UID.
+ */
+function idFromUid(uid: string): string {
+    if (uid.endsWith(UID_DOMAIN)) return uid.slice(0, -UID_DOMAIN.length);
+    return `ics_${uid.replace(/[^\w.-]/g, '_')}`;
+}
+
+/**
+ * Turn calendar entries into tasks.
+ *
+ * Entries that were exported from LuminaNote, or imported before, update
+ * the matching task instead of creating a new one. Events that match a
+ * project update its deadline. New tasks are placed in Today, This Week or
+ * Backlog depending on how soon they are due.
+ */
+export async function importIcsAsTasks(entries: CalendarEntry[]): Promise<IcsImportResult> {
+    if (!isDatabaseInitialized()) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+
+    const ids = entries.map(entry => idFromUid(entry.uid));
+    const tasksById = new Map((await callDatabase('queryTasks', { ids })).map(task => [task.id, task]));
+    const projectsById = new Map((await callDatabase('getAllProjects')).map(project => [project.id, project]));
+    const categoryCounts = new Map(Object.entries(await callDatabase('countTasksByCategory')) as [Task['category'], number][]);
+
+    const result: IcsImportResult = { added: 0, updated: 0 };
+    const calls: OperationCall[] = [];
+
+    for (const entry of entries) {
+        const id = idFromUid(entry.uid);
+        const existing = tasksById.get(id);
+
+        if (existing) {
+            calls.push(['updateTask', {
+                ...existing,
+                title: entry.title,
+                completed: entry.completed,
+                dueDate: entry.date,
+                dueTime: entry.time,
+            }]);
+            result.updated++;
+            continue;
+        }
+
+        const project = entry.kind === 'event' ? projectsById.get(id) : undefined;
+        if (project) {
+            calls.push(['updateProject', { ...project, deadline: entry.date }]);
+            result.updated++;
+            continue;
+        }
+
+        const category = entry.category ?? categoryForDate(entry.date);
+        const order = categoryCounts.get(category) ?? 0;
+        categoryCounts.set(category, order + 1);
+
+        const task: Task = {
+            id,
+            title: entry.title,
+            completed: entry.completed,
+            category,
+            priority: entry.priority,
+            createdAt: new Date().toISOString(),
+            dueDate: entry.date,
+            dueTime: entry.time,
+            isRecurring: entry.rrule?.includes('FREQ=DAILY') ?? false,
+            order,
+        };
+        calls.push(['insertTask', task]);
+        tasksById.set(id, task);
+        result.added++;
+    }
+
+    await runTransaction(calls);
+
+    notifyRecordsChanged();
+    console.log(`[iCalendar] Imported ${result.added} new and ${result.updated} updated entries`);
+
+    return result;
+}
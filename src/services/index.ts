@@ -6,12 +6,20 @@
 export {
     initDatabase,
     saveDatabase,
-    getDatabase,
+    flushDatabase,
+    checkStorageQuota,
     isDatabaseInitialized,
+    isNewDatabase,
     exportDatabase,
     importDatabase,
+    inspectDatabaseFile,
+    onDatabaseReplaced,
+    notifyDatabaseReplaced,
+    onRecordsChanged,
+    notifyRecordsChanged,
     closeDatabase
 } from './database';
 
-export * as taskRepository from './taskRepository';
-export * as projectRepository from './projectRepository';
+// Repositories run in the database worker; call them through the client
+export { callDatabase, runTransaction, onDatabaseWritten } from './databaseClient';
+export * as settingsRepository from './settingsRepository';
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Integrity checks between tasks, their parents and projects
+ *
+ * A task's `projectId` should name a project that exists and, unless the
+ * task itself is in the trash, isn't in the trash. The same goes for a
+ * subtask's `parentId` and its parent task. Older versions, purging the
+ * trash and data restored from elsewhere can all leave tasks pointing at
+ * a project or parent that is gone. Such tasks are kept and unlinked, the
+ * same as restoring a task whose project was deleted.
+ *
+ * @module services/integrity
+ */
+
+import { notifyRecordsChanged } from './database';
+import { callDatabase, runTransaction } from './databaseClient';
+import type { RecordStore } from './recordStore';
+import type { Task, Project } from '../types';
+
+/**
+ * Whether a task points at a project or task it can't belong to.
+ *
+ * @param target - ID the task points at, if any
+ * @param records - Every project or task by ID, including those in the trash
+ */
+function isMissing(task: Task, target: string | undefined, records: Map<string, Task | Project>): boolean {
+    if (!target) return false;
+
+    const record = records.get(target);
+    return !record || (Boolean(record.deletedAt) && !task.deletedAt);
+}
+
+/**
+ * Unlink every task in a list from a missing project or parent.
+ *
+ * @returns The tasks that changed
+ */
+function unlinkOrphans(tasks: Task[], projects: Map<string, Project>): Task[] {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+    return tasks
+        .map((task) => {
+            const projectId = isMissing(task, task.projectId, projects) ? undefined : task.projectId;
+            const parentId = isMissing(task, task.parentId, tasksById) ? undefined : task.parentId;
+            return projectId === task.projectId && parentId === task.parentId ? task : { ...task, projectId, parentId };
+        })
+        .filter(task => task !== tasksById.get(task.id));
+}
+
+/**
+ * Unlink tasks in the database, including those in the trash, from
+ * projects and parent tasks that are missing. Run once the database has
+ * opened.
+ *
+ * @returns Number of tasks unlinked
+ */
+export async function repairOrphanedTasks(): Promise<number> {
+    const projects = new Map(
+        [...await callDatabase('getAllProjects'), ...await callDatabase('getDeletedProjects')].map(p => [p.id, p])
+    );
+    const orphaned = unlinkOrphans([...await callDatabase('getAllTasks'), ...await callDatabase('getDeletedTasks')], projects);
+    if (orphaned.length === 0) return 0;
+
+    await runTransaction(orphaned.map(task => ['updateTask', task]));
+
+    console.warn(`[Integrity] Unlinked ${orphaned.length} tasks from missing projects or parents`);
+    notifyRecordsChanged();
+    return orphaned.length;
+}
+
+/**
+ * Unlink tasks in a store from projects the project store doesn't have,
+ * and from parent tasks it doesn't have. Used when the database is
+ * unavailable and both live in localStorage.
+ *
+ * @returns Number of tasks unlinked
+ */
+export async function repairOrphanedStoreTasks(tasks: RecordStore<Task>, projects: RecordStore<Project>): Promise<number> {
+    const projectsById = new Map(projects.getAll().map(p => [p.id, p]));
+    const orphaned = unlinkOrphans(tasks.getAll(), projectsById);
+    if (orphaned.length === 0) return 0;
+
+    if (!(await tasks.update(orphaned))) return 0;
+
+    console.warn(`[Integrity] Unlinked ${orphaned.length} tasks from missing projects or parents`);
+    return orphaned.length;
+}
@@ -0,0 +1,425 @@
+/**
+ * @fileoverview Portable JSON export and import
+ *
+ * Unlike a `.sqlite` backup, the JSON format is readable, versioned and can
+ * be merged into existing data, so a project's tasks can be shared without
+ * overwriting the recipient's database.
+ *
+ * Format (version 1):
+ *
+ * ```json
+ * {
+ *   "format": "luminanote",
+ *   "version": 1,
+ *   "exportedAt": "2026-01-01T12:00:00.000Z",
+ *   "tasks": [Task, ...],
+ *   "projects": [Project, ...],
+ *   "settings": { "key": "value" },
+ *   "wheelOptions": [WheelOption, ...] | null,
+ *   "timer": TimerState | null
+ * }
+ * ```
+ *
+ * `tasks` and `projects` use the `Task` and `Project` shapes from `types`.
+ * Optional fields may be omitted. `settings` holds raw rows of the settings
+ * table; wheel options and timer history are kept in their own fields.
+ * `wheelOptions` and `timer` are null when they weren't exported, e.g. in a
+ * single-project export.
+ *
+ * @module services/jsonTransfer
+ */
+
+import { isDatabaseInitialized, notifyDatabaseReplaced, notifyRecordsChanged } from './database';
+import { callDatabase, runTransaction } from './databaseClient';
+import { createSnapshot, isSnapshotSupported } from './backup';
+import { downloadFile, getDateStamp } from './download';
+import { getSetting, hasSetting, settingDefinitions } from './settingsRepository';
+import type { OperationCall } from './databaseOperations';
+import type { Task, Project, TimerState, WheelOption } from '../types';
+
+/** Identifies a LuminaNote JSON export */
+const FORMAT_NAME = 'luminanote';
+
+/** Current version of the JSON format; bump when the shape changes */
+export const JSON_FORMAT_VERSION = 1;
+
+/** Settings exported in their own fields rather than in `settings` */
+const SEPARATE_SETTING_KEYS = new Set(['wheelOptions', 'timer']);
+
+/**
+ * A parsed LuminaNote JSON export.
+ */
+export interface JsonExport {
+    format: typeof FORMAT_NAME;
+    version: number;
+    exportedAt: string;
+    tasks: Task[];
+    projects: Project[];
+    settings: Record<string, string>;
+    wheelOptions: WheelOption[] | null;
+    timer: TimerState | null;
+}
+
+/** How an import combines with existing data */
+export type ImportMode = 'merge' | 'replace';
+
+/**
+ * What to do when an imported record has the same id as an existing one
+ * but different contents. Only used when merging.
+ */
+export type ConflictStrategy = 'keep-local' | 'keep-incoming' | 'keep-both';
+
+/**
+ * Per-record-type outcome of an import.
+ */
+export interface ImportCounts {
+    /** New records added */
+    added: number;
+
+    /** Existing records overwritten with the imported version */
+    updated: number;
+
+    /** Imported records dropped because they were identical or the local copy was kept */
+    skipped: number;
+
+    /** Conflicting records imported as copies with a new id */
+    duplicated: number;
+}
+
+/**
+ * Summary of an import, shown to the user afterwards.
+ */
+export interface JsonImportResult {
+    tasks: ImportCounts;
+    projects: ImportCounts;
+
+    /** Tasks whose project wasn't in the file or the database, so they were left without one */
+    unlinkedTasks: number;
+
+    /** Subtasks whose parent wasn't in the file or the database, so they became top-level tasks */
+    unlinkedSubtasks: number;
+}
+
+const TASK_CATEGORIES: Task['category'][] = ['today', 'week', 'backlog'];
+const TASK_PRIORITIES: Task['priority'][] = ['low', 'medium', 'high'];
+const PROJECT_COLORS: Project['color'][] = ['slate', 'sage', 'amber', 'rose'];
+const PROJECT_STATUSES: Project['status'][] = ['active', 'on-hold', 'completed'];
+
+/**
+ * Generates an id in the same style as the hooks do.
+ */
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Narrow an unknown value to a plain object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an optional string field, treating empty strings as absent.
+ */
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Pick a value from a fixed set, falling back to a default.
+ */
+function oneOf<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+    return allowed.includes(value as T) ? value as T : fallback;
+}
+
+/**
+ * Build a Task with a fixed key order from loosely typed input.
+ * Also used on local tasks so the two can be compared field by field.
+ *
+ * @throws Error if required fields are missing
+ */
+function normalizeTask(value: unknown, index: number): Task {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.title !== 'string') {
+        throw new Error(`Task #${index + 1} is missing an id or title.`);
+    }
+
+    return {
+        id: value.id,
+        title: value.title,
+        completed: Boolean(value.completed),
+        category: oneOf(value.category, TASK_CATEGORIES, 'backlog'),
+        priority: oneOf(value.priority, TASK_PRIORITIES, 'medium'),
+        createdAt: optionalString(value.createdAt) ?? new Date().toISOString(),
+        projectId: optionalString(value.projectId),
+        parentId: optionalString(value.parentId),
+        dueDate: optionalString(value.dueDate),
+        dueTime: optionalString(value.dueTime),
+        isRecurring: Boolean(value.isRecurring),
+        lastCompletedAt: optionalString(value.lastCompletedAt),
+        completedAt: optionalString(value.completedAt),
+        order: typeof value.order === 'number' ? value.order : 0,
+    };
+}
+
+/**
+ * Build a Project with a fixed key order from loosely typed input.
+ *
+ * @throws Error if required fields are missing
+ */
+function normalizeProject(value: unknown, index: number): Project {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+        throw new Error(`Project #${index + 1} is missing an id or name.`);
+    }
+
+    return {
+        id: value.id,
+        name: value.name,
+        description: typeof value.description === 'string' ? value.description : '',
+        progress: typeof value.progress === 'number' ? value.progress : 0,
+        totalTasks: typeof value.totalTasks === 'number' ? value.totalTasks : 0,
+        completedTasks: typeof value.completedTasks === 'number' ? value.completedTasks : 0,
+        color: oneOf(value.color, PROJECT_COLORS, 'slate'),
+        status: oneOf(value.status, PROJECT_STATUSES, 'active'),
+        createdAt: optionalString(value.createdAt) ?? new Date().toISOString(),
+        deadline: optionalString(value.deadline),
+        tags: Array.isArray(value.tags) ? value.tags.filter((t): t is string => typeof t === 'string') : [],
+    };
+}
+
+/**
+ * Whether two normalized records have the same contents.
+ */
+function isSameRecord(a: Task | Project, b: Task | Project): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Read the settings table, except the rows exported in their own fields.
+ */
+async function getAllSettings(): Promise<Record<string, string>> {
+    const rows = await callDatabase('getSettingRows');
+    return Object.fromEntries(Object.entries(rows).filter(([key]) => !SEPARATE_SETTING_KEYS.has(key)));
+}
+
+/**
+ * Make sure the database is open before reading or writing it.
+ */
+function requireDatabase(): void {
+    if (!isDatabaseInitialized()) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+}
+
+/**
+ * Build an export of the current data.
+ *
+ * @param projectId - Export only this project and its tasks, without settings,
+ *                    wheel options or timer history
+ */
+export async function exportJson(projectId?: string): Promise<JsonExport> {
+    requireDatabase();
+
+    const tasks = await callDatabase('getAllTasks');
+    const projects = await callDatabase('getAllProjects');
+    const base = { format: FORMAT_NAME, version: JSON_FORMAT_VERSION, exportedAt: new Date().toISOString() } as const;
+
+    if (projectId) {
+        return {
+            ...base,
+            tasks: tasks.filter(t => t.projectId === projectId),
+            projects: projects.filter(p => p.id === projectId),
+            settings: {},
+            wheelOptions: null,
+            timer: null,
+        };
+    }
+
+    return {
+        ...base,
+        tasks,
+        projects,
+        settings: await getAllSettings(),
+        wheelOptions: hasSetting('wheelOptions') ? getSetting('wheelOptions') : null,
+        timer: hasSetting('timer') ? getSetting('timer') : null,
+    };
+}
+
+/**
+ * Download an export as a `.json` file.
+ *
+ * @param projectId - Export only this project and its tasks
+ */
+export async function downloadJson(projectId?: string): Promise<void> {
+    const data = await exportJson(projectId);
+    const scope = projectId && data.projects[0]
+        ? data.projects[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+        : 'export';
+
+    downloadFile(JSON.stringify(data, null, 2), `luminanote-${scope || 'project'}-${getDateStamp()}.json`, 'application/json');
+}
+
+/**
+ * Parse and validate the text of a JSON export.
+ * Records are normalized so optional fields can be left out of hand-written files.
+ *
+ * @throws Error describing the first problem found
+ */
+export function parseJsonExport(text: string): JsonExport {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    if (!isRecord(raw) || raw.format !== FORMAT_NAME) {
+        throw new Error('The file is not a LuminaNote export.');
+    }
+    if (typeof raw.version !== 'number' || raw.version > JSON_FORMAT_VERSION) {
+        throw new Error(
+            `The file was exported by a newer version of LuminaNote (format v${String(raw.version)}, this app supports v${JSON_FORMAT_VERSION}).`
+        );
+    }
+
+    const tasks = Array.isArray(raw.tasks) ? raw.tasks : [];
+    const projects = Array.isArray(raw.projects) ? raw.projects : [];
+    const settings = isRecord(raw.settings) ? raw.settings : {};
+
+    return {
+        format: FORMAT_NAME,
+        version: raw.version,
+        exportedAt: optionalString(raw.exportedAt) ?? '',
+        tasks: tasks.map(normalizeTask),
+        projects: projects.map(normalizeProject),
+        settings: Object.fromEntries(
+            Object.entries(settings).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        ),
+        wheelOptions: Array.isArray(raw.wheelOptions) ? raw.wheelOptions as WheelOption[] : null,
+        timer: isRecord(raw.timer) ? raw.timer as unknown as TimerState : null,
+    };
+}
+
+/**
+ * Merge incoming records into existing ones by id.
+ *
+ * @returns The records to write, the counts, and a map of ids that were changed
+ */
+function mergeRecords<T extends Task | Project>(
+    local: T[],
+    incoming: T[],
+    strategy: ConflictStrategy,
+    prefix: string
+): { toInsert: T[]; toUpdate: T[]; counts: ImportCounts; idMap: Map<string, string> } {
+    const localById = new Map(local.map(r => [r.id, r]));
+    const toInsert: T[] = [];
+    const toUpdate: T[] = [];
+    const idMap = new Map<string, string>();
+    const counts: ImportCounts = { added: 0, updated: 0, skipped: 0, duplicated: 0 };
+
+    for (const record of incoming) {
+        const existing = localById.get(record.id);
+
+        if (!existing) {
+            toInsert.push(record);
+            counts.added++;
+        } else if (isSameRecord(existing, record) || strategy === 'keep-local') {
+            counts.skipped++;
+        } else if (strategy === 'keep-incoming') {
+            toUpdate.push(record);
+            counts.updated++;
+        } else {
+            const newId = generateId(prefix);
+            idMap.set(record.id, newId);
+            toInsert.push({ ...record, id: newId });
+            counts.duplicated++;
+        }
+    }
+
+    return { toInsert, toUpdate, counts, idMap };
+}
+
+/**
+ * Write an export into the database.
+ *
+ * - `replace` deletes all tasks, projects and settings first, and overwrites
+ *   wheel options and timer history if the file has them. A snapshot is
+ *   taken beforehand where snapshots are supported.
+ * - `merge` matches records by id. New records are added and conflicts are
+ *   resolved with `strategy`. Tasks follow their project when it is imported
+ *   under a new id, and lose a project that exists on neither side. Subtasks
+ *   follow their parent task the same way.
+ *   Settings and wheel options only fill in what is missing locally.
+ */
+export async function importJson(
+    data: JsonExport,
+    mode: ImportMode,
+    strategy: ConflictStrategy = 'keep-local'
+): Promise<JsonImportResult> {
+    requireDatabase();
+
+    if (mode === 'replace' && isSnapshotSupported()) {
+        await createSnapshot('pre-restore');
+    }
+
+    const localTasks = mode === 'merge' ? (await callDatabase('getAllTasks')).map(normalizeTask) : [];
+    const localProjects = mode === 'merge' ? (await callDatabase('getAllProjects')).map(normalizeProject) : [];
+
+    const projectMerge = mergeRecords(localProjects, data.projects, strategy, 'proj');
+    const knownProjectIds = new Set([...localProjects, ...projectMerge.toInsert].map(p => p.id));
+
+    // Point tasks at their project's new id, or unlink them if it doesn't exist
+    let unlinkedTasks = 0;
+    const incomingTasks = data.tasks.map(task => {
+        if (!task.projectId) return task;
+        const projectId = projectMerge.idMap.get(task.projectId) ?? task.projectId;
+        if (knownProjectIds.has(projectId)) return { ...task, projectId };
+        unlinkedTasks++;
+        return { ...task, projectId: undefined };
+    });
+
+    const taskMerge = mergeRecords(localTasks, incomingTasks, strategy, 'task');
+    const knownTaskIds = new Set([...localTasks, ...taskMerge.toInsert].map(t => t.id));
+
+    // Point subtasks at their parent's new id, or make them top-level if it doesn't exist
+    let unlinkedSubtasks = 0;
+    const linkParent = (task: Task): Task => {
+        if (!task.parentId) return task;
+        const parentId = taskMerge.idMap.get(task.parentId) ?? task.parentId;
+        if (parentId !== task.id && knownTaskIds.has(parentId)) return { ...task, parentId };
+        unlinkedSubtasks++;
+        return { ...task, parentId: undefined };
+    };
+    const tasksToInsert = taskMerge.toInsert.map(linkParent);
+    const tasksToUpdate = taskMerge.toUpdate.map(linkParent);
+
+    const settings = Object.fromEntries(Object.entries(data.settings)
+        .filter(([key]) => !SEPARATE_SETTING_KEYS.has(key)));
+    const separateSettings: Record<string, string> = {};
+    if (settingDefinitions.wheelOptions.isValid(data.wheelOptions) && (mode === 'replace' || !hasSetting('wheelOptions'))) {
+        separateSettings.wheelOptions = JSON.stringify(data.wheelOptions);
+    }
+    const timer = data.timer && { ...data.timer, isRunning: false };
+    if (settingDefinitions.timer.isValid(timer) && (mode === 'replace' || !hasSetting('timer'))) {
+        separateSettings.timer = JSON.stringify(timer);
+    }
+
+    const calls: OperationCall[] = mode === 'replace' ? [['deleteAllRecords']] : [];
+    calls.push(
+        ...projectMerge.toInsert.map((project): OperationCall => ['insertProject', project]),
+        ...projectMerge.toUpdate.map((project): OperationCall => ['updateProject', project]),
+        ...tasksToInsert.map((task): OperationCall => ['insertTask', task]),
+        ...tasksToUpdate.map((task): OperationCall => ['updateTask', task]),
+        ['writeSettingRows', settings, mode === 'replace' || strategy === 'keep-incoming'],
+        ['writeSettingRows', separateSettings],
+    );
+    await runTransaction(calls);
+
+    // Only a replace makes the undo history meaningless; a merge just adds
+    if (mode === 'replace') {
+        notifyDatabaseReplaced();
+    } else {
+        notifyRecordsChanged();
+    }
+    console.log(`[JsonTransfer] Imported ${data.tasks.length} tasks and ${data.projects.length} projects (${mode})`);
+
+    return { tasks: taskMerge.counts, projects: projectMerge.counts, unlinkedTasks, unlinkedSubtasks };
+}
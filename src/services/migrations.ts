@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Versioned schema migrations for the SQLite database
+ *
+ * Each migration upgrades the schema by exactly one version. The current
+ * version is tracked with SQLite's built-in `PRAGMA user_version`, so a
+ * database only ever runs the steps it hasn't seen yet. Existing rows are
+ * kept as-is; new columns are added with defaults that match the old behavior.
+ *
+ * To change the schema, append a new migration to the end of the list.
+ * Never edit or reorder a migration that has already shipped.
+ *
+ * @module services/migrations
+ */
+
+import type { Database } from 'sql.js';
+import { createChangeTrackingTriggers } from './changeTracking';
+
+/**
+ * A single schema upgrade step.
+ */
+interface Migration {
+    /** Schema version after this migration has run */
+    version: number;
+
+    /** Short human-readable summary, used for logging */
+    description: string;
+
+    /** Applies the schema change to the database */
+    up: (database: Database) => void;
+}
+
+/**
+ * Ordered list of all schema migrations.
+ */
+const migrations: Migration[] = [
+    {
+        version: 1,
+        description: 'Create base tables',
+        up: (database) => {
+            // IF NOT EXISTS keeps this safe for databases created before
+            // migrations existed, which already have these tables at version 0.
+            database.run(`
+                CREATE TABLE IF NOT EXISTS tasks (
+                    id TEXT PRIMARY KEY,
+                    title TEXT NOT NULL,
+                    completed INTEGER DEFAULT 0,
+                    category TEXT NOT NULL,
+                    priority TEXT DEFAULT 'medium',
+                    created_at TEXT NOT NULL,
+                    project_id TEXT,
+                    due_date TEXT,
+                    task_order INTEGER DEFAULT 0
+                );
+            `);
+
+            database.run(`
+                CREATE TABLE IF NOT EXISTS projects (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    description TEXT,
+                    progress INTEGER DEFAULT 0,
+                    total_tasks INTEGER DEFAULT 0,
+                    completed_tasks INTEGER DEFAULT 0,
+                    color TEXT DEFAULT 'slate',
+                    status TEXT DEFAULT 'active',
+                    created_at TEXT NOT NULL,
+                    deadline TEXT,
+                    tags TEXT
+                );
+            `);
+
+            database.run(`
+                CREATE TABLE IF NOT EXISTS settings (
+                    key TEXT PRIMARY KEY,
+                    value TEXT
+                );
+            `);
+        },
+    },
+    {
+        version: 2,
+        description: 'Add due time and recurring columns to tasks',
+        up: (database) => {
+            addColumnIfMissing(database, 'tasks', 'due_time', 'TEXT');
+            addColumnIfMissing(database, 'tasks', 'is_recurring', 'INTEGER DEFAULT 0');
+            addColumnIfMissing(database, 'tasks', 'last_completed_at', 'TEXT');
+        },
+    },
+    {
+        version: 3,
+        description: 'Add deleted_at to tasks and projects for the trash',
+        up: (database) => {
+            addColumnIfMissing(database, 'tasks', 'deleted_at', 'TEXT');
+            addColumnIfMissing(database, 'projects', 'deleted_at', 'TEXT');
+        },
+    },
+    {
+        version: 4,
+        description: 'Add completed_at to tasks and the task/project activity log',
+        up: (database) => {
+            addColumnIfMissing(database, 'tasks', 'completed_at', 'TEXT');
+            // Best guess for tasks completed before the column existed
+            database.run('UPDATE tasks SET completed_at = last_completed_at WHERE completed = 1 AND completed_at IS NULL');
+
+            database.run(`
+                CREATE TABLE IF NOT EXISTS task_events (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    task_id TEXT NOT NULL,
+                    subject TEXT NOT NULL,
+                    type TEXT NOT NULL,
+                    field TEXT,
+                    old_value TEXT,
+                    new_value TEXT,
+                    created_at TEXT NOT NULL
+                );
+            `);
+            database.run('CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events (task_id)');
+
+            database.run(`
+                CREATE TABLE IF NOT EXISTS project_events (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    project_id TEXT NOT NULL,
+                    subject TEXT NOT NULL,
+                    type TEXT NOT NULL,
+                    field TEXT,
+                    old_value TEXT,
+                    new_value TEXT,
+                    created_at TEXT NOT NULL
+                );
+            `);
+            database.run('CREATE INDEX IF NOT EXISTS idx_project_events_project ON project_events (project_id)');
+        },
+    },
+    {
+        version: 5,
+        description: 'Track changes to tasks and projects for sync',
+        up: (database) => {
+            for (const table of ['tasks', 'projects']) {
+                addColumnIfMissing(database, table, 'updated_at', 'TEXT');
+                addColumnIfMissing(database, table, 'field_times', 'TEXT');
+                database.run(`UPDATE ${table} SET updated_at = created_at WHERE updated_at IS NULL`);
+                database.run(`CREATE INDEX IF NOT EXISTS idx_${table}_updated_at ON ${table} (updated_at)`);
+            }
+
+            // Sync bookkeeping: cursor, last push time, and the switch for the triggers
+            database.run('CREATE TABLE IF NOT EXISTS sync_state (key TEXT PRIMARY KEY, value TEXT)');
+
+            // Rows deleted for good, so the deletion can be passed on
+            database.run(`
+                CREATE TABLE IF NOT EXISTS sync_tombstones (
+                    entity TEXT NOT NULL,
+                    record_id TEXT NOT NULL,
+                    deleted_at TEXT NOT NULL,
+                    PRIMARY KEY (entity, record_id)
+                );
+            `);
+
+            createChangeTrackingTriggers(database, 'tasks', 'task', getColumns(database, 'tasks'));
+            createChangeTrackingTriggers(database, 'projects', 'project', getColumns(database, 'projects'));
+        },
+    },
+    {
+        version: 6,
+        description: 'Add the sync conflict list',
+        up: (database) => {
+            // Tombstones copied from other devices, as opposed to deletions made here
+            addColumnIfMissing(database, 'sync_tombstones', 'remote', 'INTEGER DEFAULT 0');
+
+            database.run(`
+                CREATE TABLE IF NOT EXISTS sync_conflicts (
+                    id TEXT PRIMARY KEY,
+                    entity TEXT NOT NULL,
+                    record_id TEXT NOT NULL,
+                    kind TEXT NOT NULL,
+                    field TEXT,
+                    local_value TEXT,
+                    incoming_value TEXT,
+                    device_id TEXT,
+                    detected_at TEXT NOT NULL,
+                    resolved_at TEXT
+                );
+            `);
+        },
+    },
+    {
+        version: 7,
+        description: 'Index the task columns pages filter on',
+        up: (database) => {
+            for (const column of ['category', 'project_id', 'due_date', 'completed']) {
+                database.run(`CREATE INDEX IF NOT EXISTS idx_tasks_${column} ON tasks (${column})`);
+            }
+        },
+    },
+    {
+        version: 8,
+        description: 'Add parent_id to tasks for subtasks',
+        up: (database) => {
+            addColumnIfMissing(database, 'tasks', 'parent_id', 'TEXT');
+            database.run('CREATE INDEX IF NOT EXISTS idx_tasks_parent_id ON tasks (parent_id)');
+            createChangeTrackingTriggers(database, 'tasks', 'task', getColumns(database, 'tasks'));
+        },
+    },
+];
+
+/** Latest schema version known to this build of the app */
+export const SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Columns every LuminaNote database has had since the first release.
+ * Anything added later is created by a migration, so it isn't required here.
+ */
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+    tasks: ['id', 'title', 'completed', 'category', 'priority', 'created_at', 'project_id', 'due_date', 'task_order'],
+    projects: ['id', 'name', 'description', 'progress', 'total_tasks', 'completed_tasks', 'color', 'status', 'created_at', 'deadline', 'tags'],
+    settings: ['key', 'value'],
+};
+
+/**
+ * Read the schema version stored in the database header.
+ */
+export function getSchemaVersion(database: Database): number {
+    const result = database.exec('PRAGMA user_version');
+    return result.length > 0 ? Number(result[0].values[0][0]) : 0;
+}
+
+/**
+ * List the column names of a table (empty if the table doesn't exist).
+ */
+export function getColumns(database: Database, table: string): string[] {
+    const result = database.exec(`PRAGMA table_info(${table})`);
+    if (result.length === 0) return [];
+
+    const nameIndex = result[0].columns.indexOf('name');
+    return result[0].values.map(row => row[nameIndex] as string);
+}
+
+/**
+ * Check whether a table already has a given column.
+ */
+function hasColumn(database: Database, table: string, column: string): boolean {
+    return getColumns(database, table).includes(column);
+}
+
+/**
+ * Check that a database looks like one written by LuminaNote and can be
+ * migrated by this version of the app. Used before replacing the live
+ * database with an imported file.
+ *
+ * @returns The schema version of the checked database
+ * @throws Error describing the first problem found
+ */
+export function validateSchema(database: Database): number {
+    let version: number;
+    try {
+        version = getSchemaVersion(database);
+    } catch {
+        throw new Error('The file is not a valid SQLite database.');
+    }
+
+    if (version > SCHEMA_VERSION) {
+        throw new Error(
+            `The file was created by a newer version of LuminaNote (schema v${version}, this app supports v${SCHEMA_VERSION}).`
+        );
+    }
+
+    for (const [table, columns] of Object.entries(REQUIRED_COLUMNS)) {
+        const existing = getColumns(database, table);
+        if (existing.length === 0) {
+            throw new Error(`The file is missing the "${table}" table.`);
+        }
+        const missing = columns.filter(c => !existing.includes(c));
+        if (missing.length > 0) {
+            throw new Error(`The "${table}" table is missing columns: ${missing.join(', ')}.`);
+        }
+    }
+
+    return version;
+}
+
+/**
+ * Add a column unless it is already present.
+ * SQLite has no `ADD COLUMN IF NOT EXISTS`, so this checks first.
+ */
+function addColumnIfMissing(database: Database, table: string, column: string, definition: string): void {
+    if (!hasColumn(database, table, column)) {
+        database.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
+
+/**
+ * Bring the database schema up to SCHEMA_VERSION.
+ * Each step runs in its own transaction and is rolled back on failure,
+ * leaving the database at the last version that applied cleanly.
+ *
+ * @throws Error if the database was written by a newer version of the app
+ */
+export function runMigrations(database: Database): void {
+    const currentVersion = getSchemaVersion(database);
+
+    if (currentVersion > SCHEMA_VERSION) {
+        throw new Error(
+            `Database schema version ${currentVersion} is newer than this app supports (${SCHEMA_VERSION}).`
+        );
+    }
+
+    const pending = migrations.filter(m => m.version > currentVersion);
+
+    for (const migration of pending) {
+        database.run('BEGIN TRANSACTION');
+        try {
+            migration.up(database);
+            database.run(`PRAGMA user_version = ${migration.version}`);
+            database.run('COMMIT');
+            console.log(`[Migrations] Applied v${migration.version}: ${migration.description}`);
+        } catch (error) {
+            database.run('ROLLBACK');
+            throw new Error(`Migration v${migration.version} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview todo.txt and Markdown checklist conversion
+ *
+ * Converts tasks to and from two plain-text list formats:
+ *
+ * - todo.txt: `x 2026-01-02 2026-01-01 (A) Title +Project due:2026-01-05`
+ * - Markdown: `- [x] (A) Title +Project due:2026-01-05`
+ *
+ * Priority maps to `(A)` high, `(B)` medium and `(C)` low, the project
+ * name becomes a `+Project` tag (spaces replaced with dashes), the due date
+ * becomes `due:YYYY-MM-DD`, and completion becomes `x ` or `[x]`.
+ * Completed todo.txt tasks keep their priority as `pri:A`, as the format
+ * recommends.
+ *
+ * @module services/plainText
+ */
+
+import { isDatabaseInitialized, notifyRecordsChanged } from './database';
+import { callDatabase, runTransaction } from './databaseClient';
+import type { OperationCall } from './databaseOperations';
+import type { Task, Project } from '../types';
+
+/** Supported plain-text list formats */
+export type PlainTextFormat = 'todotxt' | 'markdown';
+
+/**
+ * A task read from a plain-text line, before it is added to the database.
+ */
+export interface ParsedTask {
+    title: string;
+    completed: boolean;
+    priority: Task['priority'];
+
+    /** Project tag as written, without the `+` */
+    projectTag?: string;
+
+    /** Due date in YYYY-MM-DD format */
+    dueDate?: string;
+}
+
+const priorityToLetter: Record<Task['priority'], string> = {
+    high: 'A',
+    medium: 'B',
+    low: 'C',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// `- [ ] text`, `* [x] text`, or a plain `- text` list item
+const MARKDOWN_ITEM_PATTERN = /^\s*[-*+]\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+/**
+ * Turn a project name into a single-word tag.
+ */
+function toProjectTag(name: string): string {
+    return name.trim().replace(/\s+/g, '-');
+}
+
+/**
+ * Normalize a project name or tag so `+My-Project` matches "My Project".
+ */
+function normalizeProjectKey(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+}
+
+/**
+ * Map a todo.txt priority letter to a task priority.
+ */
+function letterToPriority(letter: string): Task['priority'] {
+    if (letter === 'A') return 'high';
+    if (letter === 'B') return 'medium';
+    return 'low';
+}
+
+/**
+ * Build the shared part of a line: priority, title, project and due date.
+ */
+function formatTaskBody(task: Task, projectsById: Map<string, Project>, includePriority: boolean): string {
+    const parts: string[] = [];
+    if (includePriority) parts.push(`(${priorityToLetter[task.priority]})`);
+    parts.push(task.title);
+
+    const project = task.projectId ? projectsById.get(task.projectId) : undefined;
+    if (project) parts.push(`+${toProjectTag(project.name)}`);
+    if (task.dueDate) parts.push(`due:${task.dueDate.split('T')[0]}`);
+
+    return parts.join(' ');
+}
+
+/**
+ * Format tasks as todo.txt lines.
+ */
+export function toTodoTxt(tasks: Task[], projects: Project[]): string {
+    const projectsById = new Map(projects.map(p => [p.id, p]));
+
+    return tasks.map(task => {
+        const created = task.createdAt.split('T')[0];
+        if (!task.completed) {
+            return `(${priorityToLetter[task.priority]}) ${created} ${formatTaskBody(task, projectsById, false)}`;
+        }
+
+        const completedAt = task.completedAt ?? task.lastCompletedAt;
+        const completedOn = completedAt ? `${completedAt.split('T')[0]} ` : '';
+        return `x ${completedOn}${created} ${formatTaskBody(task, projectsById, false)} pri:${priorityToLetter[task.priority]}`;
+    }).join('\n');
+}
+
+/**
+ * Format tasks as a Markdown checklist.
+ */
+export function toMarkdown(tasks: Task[], projects: Project[]): string {
+    const projectsById = new Map(projects.map(p => [p.id, p]));
+
+    return tasks
+        .map(task => `- [${task.completed ? 'x' : ' '}] ${formatTaskBody(task, projectsById, true)}`)
+        .join('\n');
+}
+
+/**
+ * Format tasks in the given format.
+ */
+export function formatTasks(format: PlainTextFormat, tasks: Task[], projects: Project[]): string {
+    return format === 'todotxt' ? toTodoTxt(tasks, projects) : toMarkdown(tasks, projects);
+}
+
+/**
+ * Pull the priority, project tag and due date out of a line's words,
+ * leaving the rest as the title. Used by both formats.
+ */
+function parseTaskBody(body: string, completed: boolean): ParsedTask | null {
+    let priority: Task['priority'] = 'medium';
+    let projectTag: string | undefined;
+    let dueDate: string | undefined;
+    const titleWords: string[] = [];
+
+    const words = body.trim().split(/\s+/);
+    const priorityMatch = /^\(([A-Z])\)$/.exec(words[0] ?? '');
+    if (priorityMatch) {
+        priority = letterToPriority(priorityMatch[1]);
+        words.shift();
+    }
+
+    for (const word of words) {
+        if (word.startsWith('+') && word.length > 1 && !projectTag) {
+            projectTag = word.slice(1);
+        } else if (word.startsWith('due:') && DATE_PATTERN.test(word.slice(4))) {
+            dueDate = word.slice(4);
+        } else if (/^pri:[A-Z]$/.test(word)) {
+            priority = letterToPriority(word[4]);
+        } else {
+            titleWords.push(word);
+        }
+    }
+
+    const title = titleWords.join(' ');
+    if (!title) return null;
+
+    return { title, completed, priority, projectTag, dueDate };
+}
+
+/**
+ * Parse one todo.txt line. Completion and creation dates are skipped.
+ */
+function parseTodoTxtLine(line: string): ParsedTask | null {
+    let rest = line.trim();
+    if (!rest) return null;
+
+    const completed = rest.startsWith('x ');
+    if (completed) rest = rest.slice(2).trim();
+
+    // A priority can come before the dates on open tasks
+    let priorityPrefix = '';
+    const priorityMatch = /^\([A-Z]\)\s+/.exec(rest);
+    if (priorityMatch) {
+        priorityPrefix = priorityMatch[0];
+        rest = rest.slice(priorityMatch[0].length);
+    }
+
+    // Up to two dates: completion (done tasks only) then creation
+    for (let i = 0; i < (completed ? 2 : 1); i++) {
+        const dateMatch = /^(\d{4}-\d{2}-\d{2})\s+/.exec(rest);
+        if (!dateMatch) break;
+        rest = rest.slice(dateMatch[0].length);
+    }
+
+    return parseTaskBody(priorityPrefix + rest, completed);
+}
+
+/**
+ * Parse one Markdown list item; other lines (headings, prose) are skipped.
+ */
+function parseMarkdownLine(line: string): ParsedTask | null {
+    const match = MARKDOWN_ITEM_PATTERN.exec(line);
+    if (!match) return null;
+    return parseTaskBody(match[2], match[1] === 'x' || match[1] === 'X');
+}
+
+/**
+ * Guess the format of pasted text: Markdown if any line is a list item.
+ */
+export function detectFormat(text: string): PlainTextFormat {
+    return text.split(/\r?\n/).some(line => MARKDOWN_ITEM_PATTERN.test(line)) ? 'markdown' : 'todotxt';
+}
+
+/**
+ * Parse pasted text into tasks, one per line.
+ */
+export function parseTasks(text: string, format: PlainTextFormat = detectFormat(text)): ParsedTask[] {
+    const parseLine = format === 'todotxt' ? parseTodoTxtLine : parseMarkdownLine;
+    return text
+        .split(/\r?\n/)
+        .map(parseLine)
+        .filter((task): task is ParsedTask => task !== null);
+}
+
+/**
+ * Add parsed tasks to a category. Project tags are matched to existing
+ * projects by name; tags that match none create a new project.
+ *
+ * @returns The number of tasks and projects created
+ */
+export async function importParsedTasks(
+    parsed: ParsedTask[],
+    category: Task['category']
+): Promise<{ tasks: number; projects: number }> {
+    if (!isDatabaseInitialized()) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+
+    const projectsByKey = new Map((await callDatabase('getAllProjects')).map(p => [normalizeProjectKey(p.name), p]));
+    let order = await callDatabase('countTasks', { category, parentId: null });
+    let createdProjects = 0;
+    const now = Date.now();
+    const calls: OperationCall[] = [];
+
+    parsed.forEach((item, index) => {
+        let project = item.projectTag ? projectsByKey.get(normalizeProjectKey(item.projectTag)) : undefined;
+
+        if (item.projectTag && !project) {
+            project = {
+                id: `proj_${now}_${Math.random().toString(36).substr(2, 9)}`,
+                name: item.projectTag.replace(/[-_]+/g, ' '),
+                description: '',
+                progress: 0,
+                totalTasks: 0,
+                completedTasks: 0,
+                color: 'slate',
+                status: 'active',
+                createdAt: new Date(now).toISOString(),
+                tags: [],
+            };
+            calls.push(['insertProject', project]);
+            projectsByKey.set(normalizeProjectKey(item.projectTag), project);
+            createdProjects++;
+        }
+
+        calls.push(['insertTask', {
+            id: `task_${now}_${index}_${Math.random().toString(36).substr(2, 9)}`,
+            title: item.title,
+            completed: item.completed,
+            category,
+            priority: item.priority,
+            createdAt: new Date(now).toISOString(),
+            projectId: project?.id,
+            dueDate: item.dueDate,
+            order: order++,
+        }]);
+    });
+    await runTransaction(calls);
+
+    notifyRecordsChanged();
+    console.log(`[PlainText] Imported ${parsed.length} tasks into ${category}`);
+
+    return { tasks: parsed.length, projects: createdProjects };
+}
@@ -2,60 +2,82 @@
  * @fileoverview Project repository for SQLite database operations
  * 
  * Provides CRUD operations for projects using the SQLite database.
+ * Every change is also written to the activity log.
+ * Runs in the database worker; the main thread calls these functions
+ * through services/databaseClient.
  * 
  * @module services/projectRepository
  */
 
-import { getDatabase, saveDatabase } from './database';
+import { getDatabase, withTransaction } from './connection';
+import { column, createTableMapper } from './rowMapper';
+import { logProjectEvent, logProjectChanges, logProjectTasksEvent } from './activityLog';
 import type { Project } from '../types';
 
 /**
- * Get all projects from the database.
+ * Where each Project field is stored in the projects table.
+ */
+const projectTable = createTableMapper<Project>('projects', {
+    id: column.text('id'),
+    name: column.text('name'),
+    description: column.text('description'),
+    progress: column.integer('progress'),
+    totalTasks: column.integer('total_tasks'),
+    completedTasks: column.integer('completed_tasks'),
+    color: column.text<Project['color']>('color'),
+    status: column.text<Project['status']>('status'),
+    createdAt: column.text('created_at'),
+    deadline: column.optionalText('deadline'),
+    tags: column.json<string[]>('tags', () => []),
+    deletedAt: column.optionalText('deleted_at'),
+});
+
+/** Fields written by insertProject; deletedAt is cleared instead */
+const INSERTED_FIELDS: (keyof Project)[] = [
+    'id', 'name', 'description', 'progress', 'totalTasks', 'completedTasks', 'color', 'status', 'createdAt', 'deadline', 'tags',
+];
+
+/** Fields written by updateProject */
+const UPDATED_FIELDS: (keyof Project)[] = [
+    'name', 'description', 'progress', 'totalTasks', 'completedTasks', 'color', 'status', 'deadline', 'tags',
+];
+
+/**
+ * Get a project by ID, including one in the trash.
+ */
+function findProject(id: string): Project | null {
+    return projectTable.select(getDatabase(), 'WHERE id = ?', [id])[0] ?? null;
+}
+
+/**
+ * Get all projects from the database, except those in the trash.
  */
 export function getAllProjects(): Project[] {
-    const db = getDatabase();
-    const result = db.exec('SELECT * FROM projects ORDER BY created_at DESC');
-
-    if (result.length === 0) return [];
-
-    return result[0].values.map((row: unknown[]) => ({
-        id: row[0] as string,
-        name: row[1] as string,
-        description: row[2] as string,
-        progress: row[3] as number,
-        totalTasks: row[4] as number,
-        completedTasks: row[5] as number,
-        color: row[6] as Project['color'],
-        status: row[7] as Project['status'],
-        createdAt: row[8] as string,
-        deadline: row[9] as string | undefined,
-        tags: row[10] ? JSON.parse(row[10] as string) : [],
-    }));
+    return projectTable.select(getDatabase(), 'WHERE deleted_at IS NULL ORDER BY created_at DESC');
+}
+
+/**
+ * Get projects in the trash, most recently deleted first.
+ */
+export function getDeletedProjects(): Project[] {
+    return projectTable.select(getDatabase(), 'WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC');
 }
 
 /**
  * Insert a new project.
+ * A project in the trash with the same ID is replaced.
  */
 export function insertProject(project: Project): void {
     const db = getDatabase();
-    db.run(
-        `INSERT INTO projects (id, name, description, progress, total_tasks, completed_tasks, color, status, created_at, deadline, tags)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-            project.id,
-            project.name,
-            project.description,
-            project.progress,
-            project.totalTasks,
-            project.completedTasks,
-            project.color,
-            project.status,
-            project.createdAt,
-            project.deadline || null,
-            JSON.stringify(project.tags),
-        ]
-    );
-    saveDatabase();
+    const existing = findProject(project.id);
+    projectTable.insert(db, project, INSERTED_FIELDS, true);
+
+    if (!existing) {
+        logProjectEvent(project, 'created');
+    } else {
+        if (existing.deletedAt) logProjectEvent(project, 'restored');
+        logProjectChanges(existing, project);
+    }
 }
 
 /**
@@ -63,92 +85,94 @@ export function insertProject(project: Project): void {
  */
 export function updateProject(project: Project): void {
     const db = getDatabase();
-    db.run(
-        `UPDATE projects SET 
-            name = ?, description = ?, progress = ?, total_tasks = ?, 
-            completed_tasks = ?, color = ?, status = ?, deadline = ?, tags = ?
-         WHERE id = ?`,
-        [
-            project.name,
-            project.description,
-            project.progress,
-            project.totalTasks,
-            project.completedTasks,
-            project.color,
-            project.status,
-            project.deadline || null,
-            JSON.stringify(project.tags),
-            project.id,
-        ]
-    );
-    saveDatabase();
+    const existing = findProject(project.id);
+    projectTable.update(db, project, UPDATED_FIELDS);
+
+    if (existing) logProjectChanges(existing, project);
 }
 
 /**
- * Delete a project by ID.
+ * Move a project and its tasks to the trash.
+ * The tasks get the same deletion time as the project, which is how
+ * restoreProject finds them again.
  */
 export function deleteProject(id: string): void {
-    const db = getDatabase();
-    db.run('DELETE FROM projects WHERE id = ?', [id]);
-    saveDatabase();
+    const existing = findProject(id);
+    if (!existing || existing.deletedAt) return;
+
+    const deletedAt = new Date().toISOString();
+    withTransaction((db) => {
+        db.run('UPDATE projects SET deleted_at = ? WHERE id = ?', [deletedAt, id]);
+        db.run('UPDATE tasks SET deleted_at = ? WHERE project_id = ? AND deleted_at IS NULL', [deletedAt, id]);
+        logProjectEvent(existing, 'deleted');
+        logProjectTasksEvent(id, deletedAt, 'deleted');
+    });
 }
 
 /**
- * Get project by ID.
+ * Take a project out of the trash, with the tasks deleted along with it.
  */
-export function getProjectById(id: string): Project | null {
+export function restoreProject(id: string): void {
+    const existing = findProject(id);
+    if (!existing?.deletedAt) return;
+
+    const deletedAt = existing.deletedAt;
+    withTransaction((db) => {
+        logProjectEvent(existing, 'restored');
+        logProjectTasksEvent(id, deletedAt, 'restored');
+        db.run(
+            `UPDATE tasks SET deleted_at = NULL
+             WHERE project_id = ? AND deleted_at = (SELECT deleted_at FROM projects WHERE id = ?)`,
+            [id, id]
+        );
+        db.run('UPDATE projects SET deleted_at = NULL WHERE id = ?', [id]);
+    });
+}
+
+/**
+ * Permanently delete a project and the tasks deleted along with it.
+ * Does nothing unless the project is in the trash.
+ */
+export function purgeProject(id: string): void {
+    if (!findProject(id)?.deletedAt) return;
+
+    withTransaction((db) => {
+        db.run(
+            `DELETE FROM tasks
+             WHERE project_id = ? AND deleted_at = (SELECT deleted_at FROM projects WHERE id = ?)`,
+            [id, id]
+        );
+        db.run('DELETE FROM projects WHERE id = ? AND deleted_at IS NOT NULL', [id]);
+    });
+}
+
+/**
+ * Permanently delete projects that went into the trash before a given time.
+ *
+ * @param before - ISO timestamp; pass nothing to empty the trash
+ * @returns Number of projects deleted
+ */
+export function purgeDeletedProjects(before?: string): number {
     const db = getDatabase();
-    const stmt = db.prepare('SELECT * FROM projects WHERE id = ?');
-    stmt.bind([id]);
-
-    if (stmt.step()) {
-        const row = stmt.get();
-        stmt.free();
-        return {
-            id: row[0] as string,
-            name: row[1] as string,
-            description: row[2] as string,
-            progress: row[3] as number,
-            totalTasks: row[4] as number,
-            completedTasks: row[5] as number,
-            color: row[6] as Project['color'],
-            status: row[7] as Project['status'],
-            createdAt: row[8] as string,
-            deadline: row[9] as string | undefined,
-            tags: row[10] ? JSON.parse(row[10] as string) : [],
-        };
+    if (before) {
+        db.run('DELETE FROM projects WHERE deleted_at IS NOT NULL AND deleted_at < ?', [before]);
+    } else {
+        db.run('DELETE FROM projects WHERE deleted_at IS NOT NULL');
     }
+    const removed = db.getRowsModified();
+    return removed;
+}
 
-    stmt.free();
-    return null;
+/**
+ * Get project by ID.
+ */
+export function getProjectById(id: string): Project | null {
+    return projectTable.select(getDatabase(), 'WHERE id = ? AND deleted_at IS NULL', [id])[0] ?? null;
 }
 
 /**
  * Get projects by status.
  */
 export function getProjectsByStatus(status: Project['status']): Project[] {
-    const db = getDatabase();
-    const stmt = db.prepare('SELECT * FROM projects WHERE status = ? ORDER BY created_at DESC');
-    stmt.bind([status]);
-
-    const projects: Project[] = [];
-    while (stmt.step()) {
-        const row = stmt.get();
-        projects.push({
-            id: row[0] as string,
-            name: row[1] as string,
-            description: row[2] as string,
-            progress: row[3] as number,
-            totalTasks: row[4] as number,
-            completedTasks: row[5] as number,
-            color: row[6] as Project['color'],
-            status: row[7] as Project['status'],
-            createdAt: row[8] as string,
-            deadline: row[9] as string | undefined,
-            tags: row[10] ? JSON.parse(row[10] as string) : [],
-        });
-    }
-    stmt.free();
-
-    return projects;
+    return projectTable.select(getDatabase(), 'WHERE status = ? AND deleted_at IS NULL ORDER BY created_at DESC', [status]);
 }
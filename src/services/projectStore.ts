@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Project store
+ *
+ * The single in-memory list of projects shared by every page, with the
+ * project operations the UI needs. Storage is delegated to a storage adapter.
+ * Each operation is recorded in the undo history.
+ *
+ * @module services/projectStore
+ */
+
+import { createRecordStore, insertWithHistory, updateWithHistory, removeWithHistory } from './recordStore';
+import type { RecordStore } from './recordStore';
+import type { StorageAdapter } from './storageAdapter';
+import type { Project, ProjectColor } from '../types';
+
+/** localStorage key used for projects before they moved to SQLite */
+export const LEGACY_PROJECTS_KEY = 'lumina-projects';
+
+/** Options accepted when creating a project */
+export interface NewProjectOptions {
+    color?: ProjectColor;
+    deadline?: string;
+    tags?: string[];
+}
+
+/**
+ * Project list plus project operations.
+ */
+export interface ProjectStore extends RecordStore<Project> {
+    addProject(name: string, description: string, options?: NewProjectOptions): Project;
+    updateProject(id: string, updates: Partial<Project>): void;
+    deleteProject(id: string): void;
+}
+
+/**
+ * Default demo projects for first-time users.
+ */
+export const defaultProjects: Project[] = [
+    {
+        id: 'demo-1',
+        name: 'App Redesign',
+        description: 'Modernize the user interface with a fresh, minimal look.',
+        progress: 65,
+        totalTasks: 12,
+        completedTasks: 8,
+        color: 'slate',
+        status: 'active',
+        createdAt: '2025-12-15T10:00:00Z',
+        deadline: '2026-01-15T23:59:59Z',
+        tags: ['design', 'frontend'],
+    },
+    {
+        id: 'demo-2',
+        name: 'Documentation',
+        description: 'Write comprehensive documentation for the API.',
+        progress: 30,
+        totalTasks: 10,
+        completedTasks: 3,
+        color: 'sage',
+        status: 'active',
+        createdAt: '2025-12-20T14:30:00Z',
+        deadline: '2026-01-31T23:59:59Z',
+        tags: ['docs'],
+    },
+];
+
+/**
+ * Generates a unique ID for new projects.
+ */
+const generateId = () => `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Create a project store.
+ */
+export function createProjectStore(adapter: StorageAdapter<Project>): ProjectStore {
+    const store = createRecordStore<Project>('ProjectStore', adapter);
+
+    return {
+        ...store,
+
+        addProject: (name, description, options) => {
+            const newProject: Project = {
+                id: generateId(),
+                name,
+                description,
+                progress: 0,
+                totalTasks: 0,
+                completedTasks: 0,
+                color: options?.color || 'slate',
+                status: 'active',
+                createdAt: new Date().toISOString(),
+                deadline: options?.deadline,
+                tags: options?.tags || [],
+            };
+            insertWithHistory(store, 'Add project', [newProject]);
+            return newProject;
+        },
+
+        updateProject: (id, updates) => {
+            const project = store.getAll().find(p => p.id === id);
+            if (project) {
+                updateWithHistory(store, 'Edit project', [{ ...project, ...updates }]);
+            }
+        },
+
+        deleteProject: (id) => {
+            removeWithHistory(store, 'Delete project', [id]);
+        },
+    };
+}
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Observable in-memory list of records backed by a storage adapter
+ *
+ * A record store holds the current list of tasks or projects for the whole
+ * app. Every change is applied in memory at once and written through its
+ * storage adapter in the background; if the write fails, the list is
+ * loaded again so what is shown matches what is stored. Components
+ * subscribe to be told about changes.
+ *
+ * @module services/recordStore
+ */
+
+import { readLocalRecords } from './storageAdapter';
+import { recordCommand, forgetCommand } from './history';
+import type { Command } from './history';
+import type { StorageAdapter, StorageAdapterKind } from './storageAdapter';
+
+/**
+ * Shared list of records with optimistic persistence.
+ */
+export interface RecordStore<T extends { id: string }> {
+    /** Current records; the same array until something changes */
+    getAll(): T[];
+
+    /** Register a change callback; returns a function that removes it */
+    subscribe(listener: () => void): () => void;
+
+    /** Where records are currently stored */
+    getAdapterKind(): StorageAdapterKind;
+
+    /** Switch to another adapter and load its records */
+    setAdapter(adapter: StorageAdapter<T>): Promise<void>;
+
+    /** Read every record from the adapter again, e.g. after a restore */
+    reload(): Promise<void>;
+
+    /** Store new records. Resolves to false if the write failed. */
+    insert(records: T[]): Promise<boolean>;
+
+    /** Store changed records, matched by id. Resolves to false if the write failed. */
+    update(records: T[]): Promise<boolean>;
+
+    /** Delete records by id. Resolves to false if the write failed. */
+    remove(ids: string[]): Promise<boolean>;
+}
+
+/**
+ * Create a record store.
+ *
+ * @param name - Used in log messages, e.g. `TaskStore`
+ * @param adapter - Where records are read from and written to
+ */
+export function createRecordStore<T extends { id: string }>(
+    name: string,
+    adapter: StorageAdapter<T>
+): RecordStore<T> {
+    let current = adapter;
+    let records: T[] = [];
+    const listeners = new Set<() => void>();
+
+    // Raised by every write, so a load that raced one can tell
+    let writeGeneration = 0;
+
+    async function load(from: StorageAdapter<T>): Promise<T[]> {
+        try {
+            return await from.load();
+        } catch (error) {
+            console.error(`[${name}] Failed to load records:`, error);
+            return [];
+        }
+    }
+
+    function emit(): void {
+        listeners.forEach(listener => listener());
+    }
+
+    /**
+     * Replace the records in memory with what the adapter has stored. A
+     * load that overlapped a write runs again, since it may have missed
+     * it; one that overlapped a switch of adapter is dropped.
+     */
+    async function refresh(): Promise<void> {
+        const from = current;
+        let loaded: T[];
+        let generation: number;
+        do {
+            generation = writeGeneration;
+            loaded = await load(from);
+        } while (generation !== writeGeneration && from === current);
+
+        if (from !== current) return;
+        records = loaded;
+        emit();
+    }
+
+    /**
+     * Apply a change in memory right away, then write it through the
+     * adapter. If the write fails, the records are loaded again so the
+     * list on screen matches what is stored.
+     */
+    async function commit(action: string, write: () => Promise<void>, apply: (prev: T[]) => T[]): Promise<boolean> {
+        // The write is sent before listeners run, so anything they read sees it
+        records = apply(records);
+        writeGeneration++;
+        const written = write();
+        emit();
+
+        try {
+            await written;
+            return true;
+        } catch (error) {
+            console.error(`[${name}] Failed to ${action}:`, error);
+            await refresh();
+            return false;
+        }
+    }
+
+    refresh();
+
+    return {
+        getAll: () => records,
+
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+
+        getAdapterKind: () => current.kind,
+
+        setAdapter: (next) => {
+            current = next;
+            return refresh();
+        },
+
+        reload: refresh,
+
+        insert: (newRecords) => {
+            const target = current;
+            return commit(
+                'insert records',
+                () => target.insert(newRecords),
+                prev => [...prev, ...newRecords]
+            );
+        },
+
+        update: (changed) => {
+            const target = current;
+            const byId = new Map(changed.map(record => [record.id, record]));
+            return commit(
+                'update records',
+                () => target.update(changed),
+                prev => prev.map(record => byId.get(record.id) ?? record)
+            );
+        },
+
+        remove: (ids) => {
+            const target = current;
+            const removed = new Set(ids);
+            return commit(
+                'delete records',
+                () => target.remove(ids),
+                prev => prev.filter(record => !removed.has(record.id))
+            );
+        },
+    };
+}
+
+/**
+ * Record an undo step for a write that has just been started, and forget
+ * it again if the write fails.
+ */
+function recordWrite(written: Promise<boolean>, command: Command): Promise<boolean> {
+    recordCommand(command);
+    return written.then((ok) => {
+        if (!ok) forgetCommand(command);
+        return ok;
+    });
+}
+
+/**
+ * Store new records and record an undo step that removes them again.
+ */
+export function insertWithHistory<T extends { id: string }>(
+    store: RecordStore<T>,
+    label: string,
+    records: T[]
+): Promise<boolean> {
+    const ids = records.map(record => record.id);
+    return recordWrite(store.insert(records), {
+        label,
+        undo: () => store.remove(ids),
+        redo: () => store.insert(records),
+    });
+}
+
+/**
+ * Store changed records and record an undo step that puts back the
+ * versions they replaced.
+ */
+export function updateWithHistory<T extends { id: string }>(
+    store: RecordStore<T>,
+    label: string,
+    changed: T[]
+): Promise<boolean> {
+    const ids = new Set(changed.map(record => record.id));
+    const previous = store.getAll().filter(record => ids.has(record.id));
+    return recordWrite(store.update(changed), {
+        label,
+        undo: () => store.update(previous),
+        redo: () => store.update(changed),
+    });
+}
+
+/**
+ * Delete records and record an undo step that stores them again.
+ */
+export function removeWithHistory<T extends { id: string }>(
+    store: RecordStore<T>,
+    label: string,
+    ids: string[]
+): Promise<boolean> {
+    const removed = new Set(ids);
+    const records = store.getAll().filter(record => removed.has(record.id));
+    return recordWrite(store.remove(ids), {
+        label,
+        undo: () => store.insert(records),
+        redo: () => store.remove(ids),
+    });
+}
+
+/**
+ * Move records saved in localStorage by older versions into a store that
+ * is still empty, then remove the old key. If the store already has
+ * records they win, as they did before. Resolves to the number moved.
+ */
+export async function migrateLegacyRecords<T extends { id: string }>(store: RecordStore<T>, legacyKey: string): Promise<number> {
+    const legacy = readLocalRecords<T>(legacyKey);
+    if (legacy === null) return 0;
+
+    const moved = store.getAll().length === 0 ? legacy : [];
+    // Keep the old key if the write fails so the next start can try again
+    if (moved.length > 0 && !(await store.insert(moved))) return 0;
+
+    localStorage.removeItem(legacyKey);
+    return moved.length;
+}
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Recovery of a damaged database
+ *
+ * If the stored database can't be opened, or SQLite reports it as
+ * corrupted, the app doesn't quietly start over with an empty one: the
+ * damaged copy is set aside as a `quarantine` snapshot, whatever rows can
+ * still be read are copied into a fresh database, and the user decides
+ * what to do (see RecoveryScreen and recoverDatabase in services/database).
+ *
+ * Damage is usually limited to a few pages of the file, so tables are read
+ * in chunks of rows and, where a chunk fails, one row at a time, keeping
+ * everything around the bad pages.
+ *
+ * @module services/recovery
+ */
+
+import type { Database } from 'sql.js';
+import { getColumns } from './migrations';
+import { withoutChangeTracking } from './changeTracking';
+
+/**
+ * Rows copied out of one table of a damaged database.
+ */
+export interface SalvagedTable {
+    table: string;
+
+    /** Number of rows copied */
+    rows: number;
+
+    /** Whether every row could be read */
+    complete: boolean;
+}
+
+/**
+ * What startup found wrong with the stored database.
+ */
+export interface DatabaseRecovery {
+    /** What SQLite reported, for the user to pass on when asking for help */
+    problems: string[];
+
+    /** What could be read back, table by table */
+    salvaged: SalvagedTable[];
+
+    /** Whether the damaged copy was kept as a snapshot */
+    quarantined: boolean;
+}
+
+/**
+ * How the user chose to continue after a damaged database was found.
+ */
+export type RecoveryChoice =
+    | { type: 'salvage' }
+    | { type: 'snapshot'; id: string }
+    | { type: 'fresh' };
+
+/** Tables worth salvaging, in the order they are copied */
+const SALVAGED_TABLES = [
+    'projects',
+    'tasks',
+    'settings',
+    'task_events',
+    'project_events',
+    'sync_state',
+    'sync_tombstones',
+    'sync_conflicts',
+];
+
+/** Rows read at a time when a table can't be read in one go */
+const CHUNK_SIZE = 200;
+
+/**
+ * Ask SQLite to check the whole file.
+ * @returns The problems found; empty if the database is sound
+ */
+export function checkIntegrity(database: Database): string[] {
+    try {
+        const result = database.exec('PRAGMA integrity_check');
+        const messages = result.length > 0 ? result[0].values.map(row => String(row[0])) : [];
+        return messages.length === 1 && messages[0] === 'ok' ? [] : messages;
+    } catch (error) {
+        return [error instanceof Error ? error.message : String(error)];
+    }
+}
+
+/**
+ * Read a query's rows, or null if the pages it touches are unreadable.
+ */
+function tryRead(database: Database, sql: string): unknown[][] | null {
+    try {
+        const result = database.exec(sql);
+        return result.length > 0 ? result[0].values : [];
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read every row of a table that can be read.
+ */
+function readRows(database: Database, table: string, columns: string[]): { rows: unknown[][]; complete: boolean } {
+    const select = `SELECT ${columns.join(', ')} FROM ${table}`;
+    const all = tryRead(database, select);
+    if (all) return { rows: all, complete: true };
+
+    // Step through the rowids, narrowing down to single rows around damage
+    const rows: unknown[][] = [];
+    const bounds = tryRead(database, `SELECT MIN(rowid), MAX(rowid) FROM ${table}`)?.[0];
+    if (!bounds || bounds[0] === null) return { rows, complete: false };
+
+    const first = Number(bounds[0]);
+    const last = Number(bounds[1]);
+    for (let start = first; start <= last; start += CHUNK_SIZE) {
+        const end = Math.min(start + CHUNK_SIZE - 1, last);
+        const chunk = tryRead(database, `${select} WHERE rowid BETWEEN ${start} AND ${end}`);
+        if (chunk) {
+            rows.push(...chunk);
+            continue;
+        }
+        for (let rowid = start; rowid <= end; rowid++) {
+            rows.push(...(tryRead(database, `${select} WHERE rowid = ${rowid}`) ?? []));
+        }
+    }
+    return { rows, complete: false };
+}
+
+/**
+ * Copy whatever can be read from a damaged database into a fresh one with
+ * the current schema. Only columns both have are copied; the copied rows
+ * keep their change times, so sync treats them as the same data.
+ */
+export function salvageTables(source: Database, target: Database): SalvagedTable[] {
+    const salvaged: SalvagedTable[] = [];
+
+    withoutChangeTracking(target, () => {
+        for (const table of SALVAGED_TABLES) {
+            let sourceColumns: string[];
+            try {
+                sourceColumns = getColumns(source, table);
+            } catch {
+                salvaged.push({ table, rows: 0, complete: false });
+                continue;
+            }
+
+            const columns = getColumns(target, table).filter(column => sourceColumns.includes(column));
+            if (columns.length === 0) continue;
+
+            const read = readRows(source, table, columns);
+            const insert = `INSERT OR IGNORE INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`;
+            let copied = 0;
+            let complete = read.complete;
+            for (const row of read.rows) {
+                // A row garbled into breaking the schema's constraints is left behind
+                try {
+                    target.run(insert, row);
+                    copied += target.getRowsModified();
+                } catch {
+                    complete = false;
+                }
+            }
+            salvaged.push({ table, rows: copied, complete });
+        }
+    });
+
+    return salvaged;
+}
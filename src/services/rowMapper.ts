@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Typed mapping between table rows and records
+ *
+ * Each repository declares once which column every field of its record
+ * type is stored in and how the value is converted. Queries then select
+ * those columns by name and build records from named values, so adding or
+ * reordering columns can't shift fields, and inserts and updates are
+ * written from the same declaration.
+ *
+ * @example
+ * ```ts
+ * const noteTable = createTableMapper<Note>('notes', {
+ *     id: column.text('id'),
+ *     body: column.text('body'),
+ *     pinned: column.flag('is_pinned'),
+ * });
+ *
+ * const pinned = noteTable.select(db, 'WHERE is_pinned = 1');
+ * noteTable.update(db, note, ['body', 'pinned']);
+ * ```
+ *
+ * @module services/rowMapper
+ */
+
+import type { Database } from 'sql.js';
+
+/**
+ * How one field is stored in a column.
+ */
+export interface ColumnMapping<T> {
+    /** Column name in the table */
+    name: string;
+
+    /** Convert the stored value into the field's value */
+    read(value: unknown): T;
+
+    /** Convert the field's value into what is stored */
+    write(value: T): unknown;
+}
+
+/**
+ * Column mappings for the value types the tables use.
+ */
+export const column = {
+    /** Text that is always present */
+    text: <T extends string = string>(name: string): ColumnMapping<T> => ({
+        name,
+        read: value => value as T,
+        write: value => value,
+    }),
+
+    /** Text stored as NULL when missing or empty */
+    optionalText: <T extends string = string>(name: string): ColumnMapping<T | undefined> => ({
+        name,
+        read: value => (value as T | null) ?? undefined,
+        write: value => value || null,
+    }),
+
+    /** A number, stored as 0 when missing */
+    integer: (name: string): ColumnMapping<number> => ({
+        name,
+        read: value => Number(value ?? 0),
+        write: value => value || 0,
+    }),
+
+    /** A boolean stored as 0 or 1 */
+    flag: (name: string): ColumnMapping<boolean> => ({
+        name,
+        read: value => Boolean(value),
+        write: value => value ? 1 : 0,
+    }),
+
+    /** A value stored as JSON text, with a fallback when nothing is stored */
+    json: <T>(name: string, fallback: () => T): ColumnMapping<T> => ({
+        name,
+        read: value => typeof value === 'string' && value ? JSON.parse(value) as T : fallback(),
+        write: value => JSON.stringify(value),
+    }),
+};
+
+/**
+ * Reads and writes records of one table through their column mappings.
+ */
+export interface TableMapper<T extends { id: string }> {
+    table: string;
+
+    /**
+     * Select records.
+     *
+     * @param clause - SQL after the FROM, e.g. `WHERE category = ? ORDER BY task_order`
+     */
+    select(database: Database, clause?: string, params?: unknown[]): T[];
+
+    /**
+     * Insert a record, writing only the given fields.
+     *
+     * @param replace - Replace a row with the same ID instead of failing
+     */
+    insert(database: Database, record: T, fields: readonly (keyof T)[], replace?: boolean): void;
+
+    /** Update a record's row by ID, writing only the given fields */
+    update(database: Database, record: T, fields: readonly (keyof T)[]): void;
+}
+
+/**
+ * Create a mapper for a table from the column of every record field.
+ */
+export function createTableMapper<T extends { id: string }>(
+    table: string,
+    columns: { [K in keyof T]-?: ColumnMapping<T[K]> }
+): TableMapper<T> {
+    const entries = Object.entries(columns) as [keyof T, ColumnMapping<unknown>][];
+    const selectList = entries.map(([, mapping]) => mapping.name).join(', ');
+
+    const fromRow = (row: Record<string, unknown>): T =>
+        Object.fromEntries(entries.map(([field, mapping]) => [field, mapping.read(row[mapping.name])])) as T;
+
+    const valuesOf = (record: T, fields: readonly (keyof T)[]): unknown[] =>
+        fields.map(field => (columns[field] as ColumnMapping<unknown>).write(record[field]));
+
+    const namesOf = (fields: readonly (keyof T)[]): string[] =>
+        fields.map(field => columns[field].name);
+
+    return {
+        table,
+
+        select: (database, clause = '', params = []) => {
+            const stmt = database.prepare(`SELECT ${selectList} FROM ${table} ${clause}`);
+            stmt.bind(params);
+
+            const records: T[] = [];
+            while (stmt.step()) {
+                records.push(fromRow(stmt.getAsObject()));
+            }
+            stmt.free();
+            return records;
+        },
+
+        insert: (database, record, fields, replace = false) => {
+            const names = namesOf(fields);
+            database.run(
+                `INSERT${replace ? ' OR REPLACE' : ''} INTO ${table} (${names.join(', ')})
+                 VALUES (${names.map(() => '?').join(', ')})`,
+                valuesOf(record, fields)
+            );
+        },
+
+        update: (database, record, fields) => {
+            const assignments = namesOf(fields).map(name => `${name} = ?`).join(', ');
+            database.run(
+                `UPDATE ${table} SET ${assignments} WHERE ${columns.id.name} = ?`,
+                [...valuesOf(record, fields), record.id]
+            );
+        },
+    };
+}
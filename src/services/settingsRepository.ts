@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Settings repository for the SQLite settings table
+ *
+ * Stores user preferences as JSON values in `settings(key, value)`, so they
+ * are included in database backups. Every key is declared in
+ * `settingDefinitions` with its default and a validity check; stored values
+ * that fail the check are ignored in favor of the default.
+ *
+ * The table lives in the database worker, but settings are read on every
+ * render, so the stored values are kept here and read synchronously.
+ * Changes apply here at once and are written to the worker in the
+ * background.
+ *
+ * @module services/settingsRepository
+ */
+
+import { getDatabaseWorkspace, isDatabaseInitialized, onRecordsChanged } from './database';
+import { DEFAULT_WORKSPACE_ID } from './storage';
+import { callDatabase } from './databaseClient';
+import type { Settings, SettingKey, Theme, TimerState, WheelOption } from '../types';
+
+/**
+ * How a single setting is stored and validated.
+ */
+interface SettingDefinition<K extends SettingKey> {
+    /** Value used when nothing valid is stored */
+    defaultValue: Settings[K];
+
+    /** Checks a parsed value has the right shape */
+    isValid: (value: unknown) => value is Settings[K];
+
+    /** localStorage key used by older versions, moved into the table once */
+    legacyKey?: string;
+}
+
+/** Default focus session length in seconds; matches FOCUS_DURATION in useTimer */
+const DEFAULT_FOCUS_SECONDS = 25 * 60;
+
+/** Default wheel segment colors - muted, professional tones */
+const defaultWheelColors = [
+    '#475569', // Slate 600
+    '#64748b', // Slate 500
+    '#6b7280', // Gray 500
+    '#78716c', // Warm Gray
+    '#84a98c', // Sage (zen-sage)
+    '#52525b', // Zinc 600
+];
+
+/**
+ * Declared settings with their defaults.
+ */
+export const settingDefinitions: { [K in SettingKey]: SettingDefinition<K> } = {
+    theme: {
+        defaultValue: 'light',
+        isValid: (value): value is Theme => value === 'light' || value === 'dark',
+        legacyKey: 'lumina-theme',
+    },
+    timer: {
+        defaultValue: {
+            duration: DEFAULT_FOCUS_SECONDS,
+            focusDuration: DEFAULT_FOCUS_SECONDS,
+            remaining: DEFAULT_FOCUS_SECONDS,
+            isRunning: false,
+            sessions: 0,
+            mode: 'focus',
+        },
+        isValid: (value): value is TimerState =>
+            typeof value === 'object' && value !== null &&
+            typeof (value as TimerState).duration === 'number' &&
+            typeof (value as TimerState).remaining === 'number' &&
+            typeof (value as TimerState).sessions === 'number' &&
+            ((value as TimerState).mode === 'focus' || (value as TimerState).mode === 'break'),
+        legacyKey: 'zen-timer',
+    },
+    wheelOptions: {
+        defaultValue: [
+            { id: 'opt-1', label: 'Study', color: defaultWheelColors[0] },
+            { id: 'opt-2', label: 'Exercise', color: defaultWheelColors[1] },
+            { id: 'opt-3', label: 'Read', color: defaultWheelColors[2] },
+            { id: 'opt-4', label: 'Code', color: defaultWheelColors[3] },
+            { id: 'opt-5', label: 'Rest', color: defaultWheelColors[4] },
+            { id: 'opt-6', label: 'Create', color: defaultWheelColors[5] },
+        ],
+        isValid: (value): value is WheelOption[] =>
+            Array.isArray(value) && value.length > 0 && value.every(option =>
+                typeof option?.id === 'string' && typeof option?.label === 'string' && typeof option?.color === 'string'
+            ),
+        legacyKey: 'lumina-wheel-options',
+    },
+    trashRetentionDays: {
+        defaultValue: 30,
+        isValid: (value): value is number => Number.isInteger(value) && (value as number) >= 0,
+    },
+    syncServerUrl: {
+        defaultValue: '',
+        isValid: (value): value is string => typeof value === 'string',
+    },
+    syncToken: {
+        defaultValue: '',
+        isValid: (value): value is string => typeof value === 'string',
+    },
+    syncFolder: {
+        defaultValue: '',
+        isValid: (value): value is string => typeof value === 'string',
+    },
+};
+
+// Raw stored values by key, or null until they are loaded from the database
+let rows: Record<string, string> | null = null;
+
+// Raised by every write, so a load that raced one can tell
+let writeGeneration = 0;
+
+// Parsed values, so repeated reads return the same object
+const cache = new Map<SettingKey, unknown>();
+
+// Notified with the key that changed, or null when everything may have changed
+const listeners = new Set<(key: SettingKey | null) => void>();
+
+// A restored, imported or synced database has different settings
+onRecordsChanged(() => {
+    if (!isDatabaseInitialized()) {
+        rows = null;
+        cache.clear();
+        notify(null);
+        return;
+    }
+    loadRows().catch((error) => console.error('[Settings] Failed to load settings:', error));
+});
+
+/**
+ * Tell subscribers a setting changed.
+ */
+function notify(key: SettingKey | null): void {
+    listeners.forEach(listener => listener(key));
+}
+
+/**
+ * Parse and check a stored value, returning undefined if it isn't usable.
+ */
+function parseValue<K extends SettingKey>(key: K, raw: string | null | undefined): Settings[K] | undefined {
+    if (raw === null || raw === undefined) return undefined;
+    try {
+        const value: unknown = JSON.parse(raw);
+        return settingDefinitions[key].isValid(value) ? value : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Load the stored values from the database, then tell subscribers that
+ * everything may have changed. A load that overlapped a write runs again,
+ * since it may have missed it.
+ */
+async function loadRows(): Promise<void> {
+    let loaded: Record<string, string>;
+    let generation: number;
+    do {
+        generation = writeGeneration;
+        loaded = await callDatabase('getSettingRows');
+    } while (generation !== writeGeneration);
+
+    rows = loaded;
+    cache.clear();
+    notify(null);
+}
+
+/**
+ * Get the stored values.
+ * Throws if they haven't been loaded yet.
+ */
+function requireRows(): Record<string, string> {
+    if (!rows) {
+        throw new Error('Database not initialized. Call initDatabase() first.');
+    }
+    return rows;
+}
+
+/**
+ * Write a change to the database in the background. If it fails, the
+ * stored values are loaded again so what is shown matches what is stored.
+ */
+function writeInBackground(write: Promise<unknown>): void {
+    writeGeneration++;
+    write.catch((error) => {
+        console.error('[Settings] Failed to save settings:', error);
+        loadRows().catch(() => undefined);
+    });
+}
+
+/**
+ * Get a setting, or its default if it isn't stored, is invalid, or the
+ * database isn't open yet.
+ */
+export function getSetting<K extends SettingKey>(key: K): Settings[K] {
+    if (!rows) return settingDefinitions[key].defaultValue;
+
+    if (!cache.has(key)) {
+        cache.set(key, parseValue(key, rows[key]) ?? settingDefinitions[key].defaultValue);
+    }
+    return cache.get(key) as Settings[K];
+}
+
+/**
+ * Check whether a setting has a stored value, as opposed to its default.
+ */
+export function hasSetting(key: SettingKey): boolean {
+    return rows !== null && key in rows;
+}
+
+/**
+ * Store a setting.
+ *
+ * @throws Error if the value doesn't match the setting's schema
+ */
+export function setSetting<K extends SettingKey>(key: K, value: Settings[K]): void {
+    if (!settingDefinitions[key].isValid(value)) {
+        throw new Error(`Invalid value for setting "${key}"`);
+    }
+
+    const raw = JSON.stringify(value);
+    rows = { ...requireRows(), [key]: raw };
+    cache.set(key, value);
+    notify(key);
+    writeInBackground(callDatabase('writeSettingRows', { [key]: raw }));
+}
+
+/**
+ * Remove stored settings so they fall back to their defaults.
+ */
+function resetSettings(keys: SettingKey[]): void {
+    const remaining = { ...requireRows() };
+    keys.forEach((key) => {
+        delete remaining[key];
+        cache.delete(key);
+    });
+    rows = remaining;
+    keys.forEach(notify);
+    writeInBackground(callDatabase('deleteSettingRows', keys));
+}
+
+/**
+ * Remove a stored setting so it falls back to its default.
+ */
+export function resetSetting(key: SettingKey): void {
+    resetSettings([key]);
+}
+
+/**
+ * Reset every declared setting to its default.
+ */
+export function resetAllSettings(): void {
+    resetSettings(Object.keys(settingDefinitions) as SettingKey[]);
+}
+
+/**
+ * Register a callback for setting changes.
+ * The key is null when all settings may have changed, e.g. after a restore.
+ *
+ * @returns A function that removes the listener
+ */
+export function onSettingChanged(listener: (key: SettingKey | null) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Move preferences saved in localStorage by older versions into the
+ * settings table, then load the stored settings. Values already in the
+ * table win; the localStorage keys are removed either way. Older versions
+ * had only the default workspace, so others just load their settings.
+ * Call once the database is initialized.
+ */
+export async function migrateLegacySettings(): Promise<void> {
+    if (getDatabaseWorkspace() !== DEFAULT_WORKSPACE_ID) {
+        await loadRows();
+        return;
+    }
+
+    const legacyValues: Record<string, string> = {};
+    const legacyKeys: string[] = [];
+
+    for (const key of Object.keys(settingDefinitions) as SettingKey[]) {
+        const legacyKey = settingDefinitions[key].legacyKey;
+        const legacyValue = legacyKey ? localStorage.getItem(legacyKey) : null;
+        if (!legacyKey || legacyValue === null) continue;
+
+        if (parseValue(key, legacyValue) !== undefined) {
+            legacyValues[key] = legacyValue;
+        }
+        legacyKeys.push(legacyKey);
+    }
+
+    const moved = await callDatabase('writeSettingRows', legacyValues, false);
+    legacyKeys.forEach(legacyKey => localStorage.removeItem(legacyKey));
+
+    if (moved.length > 0) {
+        console.log(`[Settings] Moved ${moved.join(', ')} from localStorage`);
+    }
+
+    // Hooks that rendered before the database was ready still show defaults
+    await loadRows();
+}
@@ -0,0 +1,436 @@
+/**
+ * @fileoverview Persistence backends for the SQLite database
+ *
+ * The database lives in memory (sql.js) and is written out as a single
+ * binary blob. Each backend knows how to load and save that blob in one
+ * environment: a real file on disk for Electron, IndexedDB in the browser,
+ * and localStorage as a fallback where IndexedDB is unavailable.
+ *
+ * Each workspace (see services/workspaces) has its own database and
+ * snapshots in the same backend. The default workspace keeps the places
+ * used before workspaces existed, so existing data needs no moving.
+ *
+ * @module services/storage
+ */
+
+/**
+ * Why a snapshot was taken. `quarantine` snapshots hold a stored database
+ * that could no longer be read, set aside at startup (see services/recovery).
+ */
+export type SnapshotReason = 'auto' | 'manual' | 'pre-restore' | 'quarantine';
+
+/**
+ * Metadata for a stored database snapshot.
+ */
+export interface SnapshotInfo {
+    /** Stable identifier, also encodes the creation time and reason */
+    id: string;
+
+    /** ISO timestamp of when the snapshot was taken */
+    createdAt: string;
+
+    /** What triggered the snapshot */
+    reason: SnapshotReason;
+
+    /** Size of the snapshot in bytes */
+    size: number;
+}
+
+/**
+ * Keyed storage for full copies of the database, kept alongside the live one.
+ */
+export interface SnapshotStore {
+    /** List all snapshots, newest first */
+    list: () => Promise<SnapshotInfo[]>;
+
+    /** Store a snapshot under the given id */
+    save: (id: string, data: Uint8Array) => Promise<void>;
+
+    /** Read a snapshot, or null if it no longer exists */
+    load: (id: string) => Promise<Uint8Array | null>;
+
+    /** Delete a snapshot */
+    remove: (id: string) => Promise<void>;
+}
+
+/**
+ * A place the exported database bytes can be read from and written to.
+ */
+export interface DatabaseStorage {
+    /** Human-readable backend name, used for logging */
+    name: string;
+
+    /** Read the saved database, or null if nothing has been saved yet */
+    load: () => Promise<Uint8Array | null>;
+
+    /** Persist the full database, replacing any previous copy */
+    save: (data: Uint8Array) => Promise<void>;
+
+    /**
+     * Same as save, but the write is started before returning, for when
+     * the window is closing and nothing can be awaited
+     */
+    saveSync?: (data: Uint8Array) => void;
+
+    /** Delete the saved database */
+    clear: () => Promise<void>;
+
+    /** Return a user-facing warning if space is running low, otherwise null */
+    getQuotaWarning?: () => Promise<string | null>;
+
+    /** Snapshot storage, if the backend has room for it */
+    snapshots?: SnapshotStore;
+}
+
+/** Workspace whose data is stored where it was before workspaces existed */
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// LocalStorage key for database persistence; other workspaces add `:<id>`
+export const DB_STORAGE_KEY = 'luminanote-sqlite-db';
+
+// IndexedDB database, object stores and key holding the SQLite bytes
+const IDB_NAME = 'luminanote';
+const IDB_VERSION = 2;
+const IDB_STORE = 'databases';
+const IDB_SNAPSHOT_STORE = 'snapshots';
+const IDB_KEY = 'main';
+
+/** Separates the workspace id from the key or snapshot id in IndexedDB */
+const IDB_WORKSPACE_SEPARATOR = '/';
+
+/** Snapshot ids look like `1767225600000-auto` */
+const SNAPSHOT_ID_PATTERN = /^(\d+)-(auto|manual|pre-restore|quarantine)$/;
+
+/** Fraction of the browser quota in use before the user is warned */
+const LOW_QUOTA_RATIO = 0.9;
+
+/** Encode in chunks; spreading a large array into fromCharCode overflows the stack */
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * Convert bytes to a base64 string without hitting argument limits.
+ */
+function toBase64(data: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < data.length; i += BASE64_CHUNK_SIZE) {
+        binary += String.fromCharCode(...data.subarray(i, i + BASE64_CHUNK_SIZE));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Build a new snapshot id for the current time.
+ */
+export function createSnapshotId(reason: SnapshotReason): string {
+    return `${Date.now()}-${reason}`;
+}
+
+/**
+ * Recover snapshot metadata from its id. Returns null for unknown ids.
+ */
+export function parseSnapshotId(id: string, size: number): SnapshotInfo | null {
+    const match = SNAPSHOT_ID_PATTERN.exec(id);
+    if (!match) return null;
+
+    return {
+        id,
+        createdAt: new Date(Number(match[1])).toISOString(),
+        reason: match[2] as SnapshotReason,
+        size,
+    };
+}
+
+/**
+ * Sort snapshots newest first, dropping any that couldn't be parsed.
+ */
+function sortSnapshots(snapshots: (SnapshotInfo | null)[]): SnapshotInfo[] {
+    return snapshots
+        .filter((s): s is SnapshotInfo => s !== null)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Stores the database base64-encoded under a single localStorage key.
+ * Fallback for browsers without IndexedDB; older versions also saved here.
+ */
+export function createLocalStorageBackend(workspaceId: string = DEFAULT_WORKSPACE_ID): DatabaseStorage {
+    const key = workspaceId === DEFAULT_WORKSPACE_ID ? DB_STORAGE_KEY : `${DB_STORAGE_KEY}:${workspaceId}`;
+
+    return {
+        name: 'localStorage',
+
+        load: async () => {
+            const savedData = localStorage.getItem(key);
+            if (!savedData) return null;
+            return new Uint8Array(
+                atob(savedData).split('').map(c => c.charCodeAt(0))
+            );
+        },
+
+        save: async (data) => {
+            localStorage.setItem(key, toBase64(data));
+        },
+
+        saveSync: (data) => {
+            localStorage.setItem(key, toBase64(data));
+        },
+
+        clear: async () => {
+            localStorage.removeItem(key);
+        },
+    };
+}
+
+/** Where older versions of the app kept the database */
+export const localStorageBackend = createLocalStorageBackend();
+
+// Shared IndexedDB connection, opened on first use
+let idbPromise: Promise<IDBDatabase> | null = null;
+
+// The same connection once open, for writes that can't wait for the promise
+let idbConnection: IDBDatabase | null = null;
+
+/**
+ * Open (and create on first run) the IndexedDB database.
+ */
+function openIndexedDb(): Promise<IDBDatabase> {
+    if (idbPromise) return idbPromise;
+
+    idbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+        request.onupgradeneeded = () => {
+            const idb = request.result;
+            if (!idb.objectStoreNames.contains(IDB_STORE)) {
+                idb.createObjectStore(IDB_STORE);
+            }
+            if (!idb.objectStoreNames.contains(IDB_SNAPSHOT_STORE)) {
+                idb.createObjectStore(IDB_SNAPSHOT_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => {
+            // Ask the browser not to evict our data under storage pressure
+            navigator.storage?.persist?.().catch(() => undefined);
+            idbConnection = request.result;
+            resolve(request.result);
+        };
+        request.onerror = () => {
+            idbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return idbPromise;
+}
+
+/**
+ * Run a single request against the object store.
+ * Resolves once the transaction has committed, not just when the request succeeds.
+ */
+async function runIdbRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+    const idb = await openIndexedDb();
+
+    return new Promise((resolve, reject) => {
+        const transaction = idb.transaction(storeName, mode);
+        const request = makeRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Stores the raw database bytes in IndexedDB.
+ * Used by the web build; avoids the size limits and base64 overhead of localStorage.
+ * Other workspaces than the default prefix their keys and snapshot ids
+ * with `<id>/`.
+ */
+export function createIndexedDbBackend(workspaceId: string = DEFAULT_WORKSPACE_ID): DatabaseStorage {
+    const prefix = workspaceId === DEFAULT_WORKSPACE_ID ? '' : `${workspaceId}${IDB_WORKSPACE_SEPARATOR}`;
+    const key = `${prefix}${IDB_KEY}`;
+
+    // Snapshot records of this workspace, with the prefix taken off their ids
+    const ownSnapshot = (recordId: string): string | null => {
+        if (!recordId.startsWith(prefix)) return null;
+        const id = recordId.slice(prefix.length);
+        return id.includes(IDB_WORKSPACE_SEPARATOR) ? null : id;
+    };
+
+    return {
+        name: 'IndexedDB',
+
+        load: async () => {
+            const data = await runIdbRequest(IDB_STORE, 'readonly', store => store.get(key));
+            return data instanceof Uint8Array ? data : null;
+        },
+
+        save: async (data) => {
+            await runIdbRequest(IDB_STORE, 'readwrite', store => store.put(data, key));
+        },
+
+        // The browser finishes a transaction committed while the page unloads
+        saveSync: (data) => {
+            if (!idbConnection) throw new Error('IndexedDB is not open');
+            const transaction = idbConnection.transaction(IDB_STORE, 'readwrite');
+            transaction.objectStore(IDB_STORE).put(data, key);
+            transaction.commit();
+        },
+
+        clear: async () => {
+            await runIdbRequest(IDB_STORE, 'readwrite', store => store.delete(key));
+        },
+
+        getQuotaWarning: async () => {
+            if (!navigator.storage?.estimate) return null;
+
+            const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+            if (quota === 0 || usage / quota < LOW_QUOTA_RATIO) return null;
+
+            const percent = Math.round((usage / quota) * 100);
+            return `Browser storage is ${percent}% full. Export a backup soon to avoid losing changes.`;
+        },
+
+        snapshots: {
+            list: async () => {
+                const records: { id: string; data: Uint8Array }[] = await runIdbRequest(
+                    IDB_SNAPSHOT_STORE, 'readonly', store => store.getAll()
+                );
+                return sortSnapshots(records.map((r) => {
+                    const id = ownSnapshot(r.id);
+                    return id ? parseSnapshotId(id, r.data.byteLength) : null;
+                }));
+            },
+
+            save: async (id, data) => {
+                await runIdbRequest(IDB_SNAPSHOT_STORE, 'readwrite', store => store.put({ id: `${prefix}${id}`, data }));
+            },
+
+            load: async (id) => {
+                const record: { id: string; data: Uint8Array } | undefined = await runIdbRequest(
+                    IDB_SNAPSHOT_STORE, 'readonly', store => store.get(`${prefix}${id}`)
+                );
+                return record?.data ?? null;
+            },
+
+            remove: async (id) => {
+                await runIdbRequest(IDB_SNAPSHOT_STORE, 'readwrite', store => store.delete(`${prefix}${id}`));
+            },
+        },
+    };
+}
+
+/**
+ * Stores the database as `luminanote.sqlite` in the app's userData folder,
+ * or in `workspaces/<id>/` there for other workspaces than the default.
+ * The Electron main process owns the files and writes them atomically.
+ */
+export function createElectronFileBackend(workspaceId: string = DEFAULT_WORKSPACE_ID): DatabaseStorage {
+    return {
+        name: 'file',
+
+        load: async () => {
+            const data = await requireElectronAPI().readDatabase(workspaceId);
+            return data ? new Uint8Array(data) : null;
+        },
+
+        save: async (data) => {
+            await requireElectronAPI().writeDatabase(workspaceId, data);
+        },
+
+        saveSync: (data) => {
+            if (!requireElectronAPI().writeDatabaseSync(workspaceId, data)) {
+                throw new Error('Failed to write the database file');
+            }
+        },
+
+        clear: async () => {
+            await requireElectronAPI().deleteDatabase(workspaceId);
+        },
+
+        snapshots: {
+            list: async () => {
+                const files = await requireElectronAPI().listSnapshots(workspaceId);
+                return sortSnapshots(files.map(f => parseSnapshotId(f.id, f.size)));
+            },
+
+            save: async (id, data) => {
+                await requireElectronAPI().writeSnapshot(workspaceId, id, data);
+            },
+
+            load: async (id) => {
+                const data = await requireElectronAPI().readSnapshot(workspaceId, id);
+                return data ? new Uint8Array(data) : null;
+            },
+
+            remove: async (id) => {
+                await requireElectronAPI().deleteSnapshot(workspaceId, id);
+            },
+        },
+    };
+}
+
+/**
+ * Get the preload bridge or fail loudly if it is missing.
+ */
+function requireElectronAPI() {
+    const api = window.electronAPI;
+    if (!api?.isElectron) {
+        throw new Error('The Electron file backend is only available inside the desktop app.');
+    }
+    return api;
+}
+
+/**
+ * Pick the storage backend for the current environment.
+ *
+ * @param workspaceId - Workspace whose database to store; the default one if omitted
+ */
+export function getDefaultStorage(workspaceId: string = DEFAULT_WORKSPACE_ID): DatabaseStorage {
+    if (window.electronAPI?.isElectron) return createElectronFileBackend(workspaceId);
+    if (typeof indexedDB !== 'undefined') return createIndexedDbBackend(workspaceId);
+    return createLocalStorageBackend(workspaceId);
+}
+
+/**
+ * Delete everything stored for a workspace: its database and snapshots.
+ * The default workspace can't be deleted this way.
+ */
+export async function deleteWorkspaceStorage(workspaceId: string): Promise<void> {
+    if (workspaceId === DEFAULT_WORKSPACE_ID) {
+        throw new Error('The default workspace cannot be deleted.');
+    }
+
+    // The desktop app keeps each workspace in a folder of its own
+    if (window.electronAPI?.isElectron) {
+        await window.electronAPI.deleteWorkspace(workspaceId);
+        return;
+    }
+
+    const storage = getDefaultStorage(workspaceId);
+    for (const info of (await storage.snapshots?.list()) ?? []) {
+        await storage.snapshots?.remove(info.id);
+    }
+    await storage.clear();
+}
+
+/**
+ * Load the database from a backend, moving over any copy left in
+ * localStorage by older versions of the app the first time it runs.
+ * The localStorage copy is only removed once the new backend has saved it.
+ */
+export async function loadWithLegacyMigration(storage: DatabaseStorage): Promise<Uint8Array | null> {
+    const data = await storage.load();
+    if (data || storage.name === localStorageBackend.name) return data;
+
+    const legacyData = await localStorageBackend.load();
+    if (!legacyData) return null;
+
+    await storage.save(legacyData);
+    await localStorageBackend.clear();
+    console.log(`[Storage] Moved database from localStorage to ${storage.name}`);
+
+    return legacyData;
+}
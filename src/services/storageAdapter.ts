@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Storage adapters for task and project records
+ *
+ * A storage adapter is the only place a record store reads from or writes
+ * to. The SQLite adapters call the repositories in the database worker;
+ * the localStorage adapter keeps the whole list as one JSON value; the
+ * in-memory adapter keeps nothing and is used while the database is still
+ * loading.
+ *
+ * @module services/storageAdapter
+ */
+
+import { runTransaction, callDatabase } from './databaseClient';
+import type { OperationCall } from './databaseOperations';
+import type { Task, Project } from '../types';
+
+/** Where an adapter keeps its records */
+export type StorageAdapterKind = 'sqlite' | 'localStorage' | 'memory';
+
+/**
+ * Reads and writes one kind of record.
+ * Each write stores all of its records or, if it fails, none of them.
+ */
+export interface StorageAdapter<T extends { id: string }> {
+    readonly kind: StorageAdapterKind;
+
+    /** Read every record */
+    load(): Promise<T[]>;
+
+    insert(records: T[]): Promise<void>;
+
+    update(records: T[]): Promise<void>;
+
+    remove(ids: string[]): Promise<void>;
+}
+
+/**
+ * Run repository calls in the database worker as one transaction.
+ */
+async function writeToDatabase(calls: OperationCall[]): Promise<void> {
+    await runTransaction(calls);
+}
+
+/**
+ * Adapter for tasks in the SQLite database.
+ */
+export function createSqliteTaskAdapter(): StorageAdapter<Task> {
+    return {
+        kind: 'sqlite',
+        load: () => callDatabase('getAllTasks'),
+        insert: (tasks) => writeToDatabase(tasks.map((task): OperationCall => ['insertTask', task])),
+        update: (tasks) => writeToDatabase(tasks.map((task): OperationCall => ['updateTask', task])),
+        remove: (ids) => writeToDatabase(ids.map((id): OperationCall => ['deleteTask', id])),
+    };
+}
+
+/**
+ * Adapter for projects in the SQLite database.
+ */
+export function createSqliteProjectAdapter(): StorageAdapter<Project> {
+    return {
+        kind: 'sqlite',
+        load: () => callDatabase('getAllProjects'),
+        insert: (projects) => writeToDatabase(projects.map((project): OperationCall => ['insertProject', project])),
+        update: (projects) => writeToDatabase(projects.map((project): OperationCall => ['updateProject', project])),
+        remove: (ids) => writeToDatabase(ids.map((id): OperationCall => ['deleteProject', id])),
+    };
+}
+
+/**
+ * Adapter that keeps records in memory only. Useful before the database is
+ * ready, or anywhere nothing should be persisted.
+ */
+export function createMemoryAdapter<T extends { id: string }>(initial: T[] = []): StorageAdapter<T> {
+    let records = [...initial];
+
+    return {
+        kind: 'memory',
+        load: async () => [...records],
+        insert: async (added) => {
+            records = [...records, ...added];
+        },
+        update: async (changed) => {
+            const byId = new Map(changed.map(record => [record.id, record]));
+            records = records.map(r => byId.get(r.id) ?? r);
+        },
+        remove: async (ids) => {
+            const removed = new Set(ids);
+            records = records.filter(r => !removed.has(r.id));
+        },
+    };
+}
+
+/**
+ * Adapter that stores the whole list as JSON under one localStorage key.
+ */
+export function createLocalStorageAdapter<T extends { id: string }>(key: string, initial: T[] = []): StorageAdapter<T> {
+    const memory = createMemoryAdapter<T>(readLocalRecords(key) ?? initial);
+
+    const persist = async () => {
+        localStorage.setItem(key, JSON.stringify(await memory.load()));
+    };
+
+    return {
+        kind: 'localStorage',
+        load: memory.load,
+        insert: async (records) => {
+            await memory.insert(records);
+            await persist();
+        },
+        update: async (records) => {
+            await memory.update(records);
+            await persist();
+        },
+        remove: async (ids) => {
+            await memory.remove(ids);
+            await persist();
+        },
+    };
+}
+
+/**
+ * Read a record list saved under a localStorage key, or null if there is
+ * none or it can't be parsed.
+ */
+export function readLocalRecords<T>(key: string): T[] | null {
+    try {
+        const item = localStorage.getItem(key);
+        const parsed: unknown = item ? JSON.parse(item) : null;
+        return Array.isArray(parsed) ? parsed as T[] : null;
+    } catch {
+        return null;
+    }
+}
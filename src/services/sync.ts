@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Sync engine for a LuminaNote sync server
+ *
+ * Each sync sends the server the tasks and projects changed since the last
+ * push, and receives everything other devices pushed since the server's
+ * cursor from the previous sync. Records travel whole, with the time each
+ * field last changed (kept by the triggers in changeTracking), and
+ * conflicts are resolved field by field: the value written last wins, so
+ * renaming a task on one device and completing it on another keeps both.
+ * A record deleted for good stays deleted unless one of its fields changed
+ * after the deletion.
+ *
+ * The server is in `sync-server/`; its address and token are settings.
+ * Folder sync (folderSync) exchanges the same records through log files.
+ * Collecting and merging records happens in the database worker, in
+ * services/syncRecords.
+ *
+ * @module services/sync
+ */
+
+import { isDatabaseInitialized, notifyRecordsChanged, getDatabaseWorkspace, isWorkspaceOpen } from './database';
+import { callDatabase } from './databaseClient';
+import { getSetting } from './settingsRepository';
+import type { RecordChange } from './syncRecords';
+
+/**
+ * Where sync is at, for display.
+ */
+export interface SyncStatus {
+    /** `off` until a server is configured and the first sync starts */
+    state: 'off' | 'idle' | 'syncing' | 'error';
+
+    /** When the last successful sync finished */
+    lastSyncedAt: string | null;
+
+    /** Why the last sync failed */
+    error: string | null;
+}
+
+/** Body of the server's reply to POST /sync */
+interface SyncResponse {
+    /** Server position to pull from next time */
+    cursor: number;
+
+    /** Records changed on the server since the cursor that was sent */
+    changes: RecordChange[];
+}
+
+let status: SyncStatus = { state: 'off', lastSyncedAt: null, error: null };
+const listeners = new Set<() => void>();
+let running: Promise<void> | null = null;
+
+/**
+ * Replace the status and tell subscribers.
+ */
+function setStatus(next: SyncStatus): void {
+    status = next;
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Push local changes to the server and apply the ones it sends back.
+ */
+async function runSync(): Promise<void> {
+    const url = getSetting('syncServerUrl').trim().replace(/\/+$/, '');
+    if (!url || !isDatabaseInitialized()) {
+        setStatus({ ...status, state: 'off', error: null });
+        return;
+    }
+
+    setStatus({ ...status, state: 'syncing', error: null });
+    try {
+        // Anything changed from here on is pushed next time
+        const startedAt = new Date().toISOString();
+        const workspace = getDatabaseWorkspace();
+        const { cursor, changes } = await callDatabase('prepareServerSync');
+
+        const token = getSetting('syncToken').trim();
+        const response = await fetch(`${url}/sync`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            },
+            body: JSON.stringify({ cursor, changes }),
+        });
+        if (response.status === 401) {
+            throw new Error('The sync server did not accept the token');
+        }
+        if (!response.ok) {
+            throw new Error(`The sync server responded with ${response.status}`);
+        }
+
+        const body = await response.json() as SyncResponse;
+        if (!Number.isInteger(body?.cursor) || !Array.isArray(body?.changes)) {
+            throw new Error('The sync server sent an unexpected response');
+        }
+
+        // The response belongs to a workspace that was closed meanwhile
+        if (!isWorkspaceOpen(workspace)) {
+            setStatus({ state: 'off', lastSyncedAt: null, error: null });
+            return;
+        }
+
+        const applied = await callDatabase('applyServerChanges', body.changes, body.cursor, startedAt);
+
+        if (changes.length > 0 || applied > 0) {
+            console.log(`[Sync] Pushed ${changes.length} and applied ${applied} changes`);
+        }
+        if (applied > 0) {
+            notifyRecordsChanged();
+        }
+        setStatus({ state: 'idle', lastSyncedAt: new Date().toISOString(), error: null });
+    } catch (error) {
+        console.warn('[Sync] Sync failed:', error);
+        const message = error instanceof TypeError
+            ? "Can't reach the sync server"
+            : error instanceof Error ? error.message : 'Sync failed';
+        setStatus({ ...status, state: 'error', error: message });
+    }
+}
+
+/**
+ * Sync now, or wait for the sync already running. Never rejects; failures
+ * show in the status.
+ */
+export function syncNow(): Promise<void> {
+    if (!running) {
+        running = runSync().finally(() => {
+            running = null;
+        });
+    }
+    return running;
+}
+
+/**
+ * Short description of a sync status, e.g. "Synced 5 min ago".
+ */
+export function describeSyncStatus(status: SyncStatus): string {
+    if (status.state === 'syncing') return 'Syncing…';
+    if (status.state === 'error') return 'Sync failed';
+    if (!status.lastSyncedAt) return 'Not synced yet';
+
+    const minutes = Math.floor((Date.now() - new Date(status.lastSyncedAt).getTime()) / 60000);
+    if (minutes < 1) return 'Synced just now';
+    if (minutes < 60) return `Synced ${minutes} min ago`;
+    return `Synced at ${new Date(status.lastSyncedAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+}
+
+/**
+ * Get the current sync status.
+ */
+export function getSyncStatus(): SyncStatus {
+    return status;
+}
+
+/**
+ * Subscribe to sync status changes.
+ * @returns Unsubscribe function
+ */
+export function onSyncStatusChanged(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
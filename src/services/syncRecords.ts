@@ -0,0 +1,337 @@
+/**
+ * @fileoverview Records exchanged by sync, inside the database worker
+ *
+ * Reads the tasks and projects changed since a given time as whole records
+ * with the time each field last changed, and merges records received from
+ * other devices field by field: the value written last wins. Both the sync
+ * server (services/sync) and folder sync (services/folderSync) exchange
+ * these records; this module is the part of them that runs SQL, in the
+ * database worker.
+ *
+ * @module services/syncRecords
+ */
+
+import type { Database } from 'sql.js';
+import { getDatabase, withTransaction } from './connection';
+import { getColumns } from './migrations';
+import { TRACKING_COLUMNS, withoutChangeTracking } from './changeTracking';
+
+/** Kinds of record that are synced */
+export type SyncEntity = 'task' | 'project';
+
+/**
+ * A record as sent to and received from the sync server.
+ */
+export interface RecordChange {
+    entity: SyncEntity;
+
+    /** The record's id */
+    id: string;
+
+    /** Every field of the record, by column name */
+    fields: Record<string, unknown>;
+
+    /** When each field last changed (ISO timestamps) */
+    fieldTimes: Record<string, string>;
+
+    /** When the record was deleted for good, if it was */
+    deletedAt: string | null;
+
+    /**
+     * Fields the sending device changed itself since its previous push.
+     * Only set by folder sync, where it is used to spot conflicting edits.
+     */
+    changed?: string[];
+}
+
+/**
+ * An incoming change that lost to a local one, kept for the user to review.
+ */
+export interface SyncConflict {
+    entity: SyncEntity;
+    recordId: string;
+
+    /**
+     * - `field`: both devices changed the same field; this device's value was kept
+     * - `deleted-elsewhere`: deleted on the other device, but edited here later
+     * - `deleted-here`: edited on the other device, but deleted here later
+     */
+    kind: 'field' | 'deleted-elsewhere' | 'deleted-here';
+
+    /** The field both devices changed, for `field` conflicts */
+    field: string | null;
+
+    /** The value kept here, for `field` conflicts */
+    localValue: unknown;
+
+    /** The other device's value, or its whole record for `deleted-here` */
+    incomingValue: unknown;
+}
+
+
+/** Table each entity is stored in */
+const SYNCED_TABLES: Record<SyncEntity, string> = {
+    task: 'tasks',
+    project: 'projects',
+};
+
+/** Keys in sync_state */
+const CURSOR_KEY = 'cursor';
+const PUSHED_THROUGH_KEY = 'pushed_through';
+
+/**
+ * Run a query and return every row.
+ */
+function selectRows(database: Database, sql: string, params: unknown[] = []): unknown[][] {
+    const stmt = database.prepare(sql);
+    stmt.bind(params);
+    const rows: unknown[][] = [];
+    while (stmt.step()) {
+        rows.push(stmt.get());
+    }
+    stmt.free();
+    return rows;
+}
+
+/**
+ * Read a value from sync_state.
+ */
+export function readSyncState(database: Database, key: string): string | null {
+    const rows = selectRows(database, 'SELECT value FROM sync_state WHERE key = ?', [key]);
+    return rows.length > 0 ? (rows[0][0] as string | null) : null;
+}
+
+/**
+ * Write a value to sync_state.
+ */
+export function writeSyncState(database: Database, key: string, value: string): void {
+    database.run('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [key, value]);
+}
+
+/**
+ * Columns of a table that hold record fields, as opposed to the id and
+ * the tracking columns.
+ */
+function fieldColumns(database: Database, table: string): string[] {
+    return getColumns(database, table).filter(column => column !== 'id' && !TRACKING_COLUMNS.includes(column));
+}
+
+/**
+ * The latest of a set of timestamps, or '' if there are none.
+ */
+function latestTime(times: Record<string, string>): string {
+    return Object.values(times).reduce((latest, time) => time > latest ? time : latest, '');
+}
+
+/**
+ * Read a row as a RecordChange. Fields without a recorded time (rows from
+ * before change tracking) fall back to the row's updated_at.
+ */
+function readRecord(database: Database, entity: SyncEntity, id: string): RecordChange | null {
+    const table = SYNCED_TABLES[entity];
+    const columns = getColumns(database, table);
+    const rows = selectRows(database, `SELECT ${columns.join(', ')} FROM ${table} WHERE id = ?`, [id]);
+    if (rows.length === 0) return null;
+
+    const row = Object.fromEntries(columns.map((column, index) => [column, rows[0][index]]));
+    let storedTimes: Record<string, string> = {};
+    try {
+        storedTimes = JSON.parse((row.field_times as string | null) ?? '{}');
+    } catch {
+        // Treat unreadable times like missing ones
+    }
+
+    const fields: Record<string, unknown> = {};
+    const fieldTimes: Record<string, string> = {};
+    for (const column of fieldColumns(database, table)) {
+        fields[column] = row[column];
+        fieldTimes[column] = storedTimes[column] ?? (row.updated_at as string | null) ?? '';
+    }
+    return { entity, id, fields, fieldTimes, deletedAt: null };
+}
+
+/**
+ * Collect the records and deletions to push: everything changed at or
+ * after the given time, or everything if there has been no push yet.
+ */
+export function collectChanges(since: string | null): RecordChange[] {
+    const database = getDatabase();
+    const changes: RecordChange[] = [];
+
+    for (const [entity, table] of Object.entries(SYNCED_TABLES) as [SyncEntity, string][]) {
+        const ids = selectRows(database, `SELECT id FROM ${table} WHERE ? IS NULL OR updated_at >= ?`, [since, since]);
+        for (const [id] of ids) {
+            const record = readRecord(database, entity, id as string);
+            if (record) changes.push(record);
+        }
+    }
+
+    const tombstones = selectRows(
+        database,
+        'SELECT entity, record_id, deleted_at FROM sync_tombstones WHERE ? IS NULL OR deleted_at >= ?',
+        [since, since]
+    );
+    for (const [entity, id, deletedAt] of tombstones) {
+        if (!((entity as string) in SYNCED_TABLES)) continue;
+        changes.push({ entity: entity as SyncEntity, id: id as string, fields: {}, fieldTimes: {}, deletedAt: deletedAt as string });
+    }
+
+    return changes;
+}
+
+/**
+ * Whether an incoming field value replaces the local one. The later time
+ * wins; on a tie the larger value does, so every device picks the same one.
+ */
+function isNewer(incomingValue: unknown, incomingTime: string, localValue: unknown, localTime: string): boolean {
+    if (incomingTime !== localTime) return incomingTime > localTime;
+    return JSON.stringify(incomingValue ?? null) > JSON.stringify(localValue ?? null);
+}
+
+/**
+ * Record a deletion made on another device, keeping the later time if a
+ * tombstone is already there.
+ */
+function writeTombstone(database: Database, entity: SyncEntity, id: string, deletedAt: string): void {
+    database.run(
+        `INSERT INTO sync_tombstones (entity, record_id, deleted_at, remote) VALUES (?, ?, ?, 1)
+         ON CONFLICT (entity, record_id) DO UPDATE SET
+             remote = CASE WHEN excluded.deleted_at > deleted_at THEN 1 ELSE remote END,
+             deleted_at = MAX(deleted_at, excluded.deleted_at)`,
+        [entity, id, deletedAt]
+    );
+}
+
+/**
+ * Merge one incoming record into the local database.
+ * Call with change tracking off, since the record carries its own times.
+ *
+ * @param onConflict - Called for each incoming change that loses to a local
+ *                     one; only changes that list their `changed` fields are checked
+ * @returns Whether a task or project visibly changed
+ */
+export function applyChange(database: Database, change: RecordChange, onConflict?: (conflict: SyncConflict) => void): boolean {
+    const table = SYNCED_TABLES[change.entity];
+    if (!table || typeof change.id !== 'string' || typeof change.fields !== 'object' || !change.fields) return false;
+
+    const columns = fieldColumns(database, table);
+    const local = readRecord(database, change.entity, change.id);
+    const changed = (onConflict && change.changed) || [];
+    const conflict = (kind: SyncConflict['kind'], field: string | null, localValue: unknown, incomingValue: unknown) =>
+        onConflict?.({ entity: change.entity, recordId: change.id, kind, field, localValue, incomingValue });
+
+    if (local) {
+        const updates: string[] = [];
+        const times = { ...local.fieldTimes };
+        for (const column of columns) {
+            const time = change.fieldTimes?.[column];
+            if (!time || !(column in change.fields)) continue;
+            if (isNewer(change.fields[column], time, local.fields[column], local.fieldTimes[column])) {
+                updates.push(column);
+                local.fields[column] = change.fields[column];
+                times[column] = time;
+            } else if (changed.includes(column)
+                && JSON.stringify(change.fields[column] ?? null) !== JSON.stringify(local.fields[column] ?? null)) {
+                conflict('field', column, local.fields[column], change.fields[column]);
+            }
+        }
+
+        const latest = latestTime(times);
+        if (change.deletedAt && change.deletedAt >= latest) {
+            database.run(`DELETE FROM ${table} WHERE id = ?`, [change.id]);
+            writeTombstone(database, change.entity, change.id, change.deletedAt);
+            return true;
+        }
+        if (change.deletedAt) {
+            conflict('deleted-elsewhere', null, null, null);
+        }
+        if (updates.length === 0) return false;
+
+        database.run(
+            `UPDATE ${table} SET ${updates.map(column => `${column} = ?`).join(', ')}, updated_at = ?, field_times = ? WHERE id = ?`,
+            [...updates.map(column => local.fields[column]), latest, JSON.stringify(times), change.id]
+        );
+        return true;
+    }
+
+    const times = Object.fromEntries(
+        columns.filter(column => change.fieldTimes?.[column] && column in change.fields)
+            .map(column => [column, change.fieldTimes[column]])
+    );
+    const latest = latestTime(times);
+
+    if (change.deletedAt && change.deletedAt >= latest) {
+        writeTombstone(database, change.entity, change.id, change.deletedAt);
+        return false;
+    }
+
+    // Deleted after the last change made elsewhere: the deletion wins
+    const tombstone = selectRows(
+        database,
+        'SELECT deleted_at, remote FROM sync_tombstones WHERE entity = ? AND record_id = ?',
+        [change.entity, change.id]
+    );
+    if (tombstone.length > 0 && (tombstone[0][0] as string) >= latest) {
+        const [, remote] = tombstone[0];
+        if (!remote && changed.length > 0) {
+            conflict('deleted-here', null, null, change.fields);
+        }
+        return false;
+    }
+
+    const present = Object.keys(times);
+    if (present.length === 0) return false;
+
+    try {
+        database.run(
+            `INSERT INTO ${table} (id, ${present.join(', ')}, updated_at, field_times) VALUES (?, ${present.map(() => '?').join(', ')}, ?, ?)`,
+            [change.id, ...present.map(column => change.fields[column]), latest, JSON.stringify(times)]
+        );
+    } catch (error) {
+        // Missing a required field, e.g. from a device on an older schema
+        console.warn(`[Sync] Skipped incomplete ${change.entity} ${change.id}:`, error);
+        return false;
+    }
+    database.run('DELETE FROM sync_tombstones WHERE entity = ? AND record_id = ?', [change.entity, change.id]);
+    return true;
+}
+
+/**
+ * What a sync with the server sends: the server's cursor from the previous
+ * sync, and everything changed since the previous push.
+ */
+export function prepareServerSync(): { cursor: number; changes: RecordChange[] } {
+    const database = getDatabase();
+    return {
+        cursor: Number(readSyncState(database, CURSOR_KEY) ?? 0),
+        changes: collectChanges(readSyncState(database, PUSHED_THROUGH_KEY)),
+    };
+}
+
+/**
+ * Apply what the server sent back and remember where the sync got to.
+ *
+ * @param startedAt - When the sync collected its changes; anything changed
+ *                    from then on is pushed next time
+ * @returns The number of changes that visibly changed a task or project
+ */
+export function applyServerChanges(changes: RecordChange[], cursor: number, startedAt: string): number {
+    return withTransaction((database) => {
+        const count = withoutChangeTracking(database, () => changes.filter(change => applyChange(database, change)).length);
+        writeSyncState(database, CURSOR_KEY, String(cursor));
+        writeSyncState(database, PUSHED_THROUGH_KEY, startedAt);
+        return count;
+    });
+}
+
+/**
+ * Forget where a copied database synced to. The copy is a separate set of
+ * data from now on; syncing it with the original's server or folder would
+ * merge the two back together.
+ */
+export function forgetSyncState(copy: Database): void {
+    copy.run('DELETE FROM sync_state');
+    copy.run('DELETE FROM sync_tombstones');
+    copy.run('DELETE FROM sync_conflicts');
+    copy.run("DELETE FROM settings WHERE key IN ('syncServerUrl', 'syncToken', 'syncFolder')");
+}
@@ -3,84 +3,206 @@
  * 
  * Provides CRUD operations for tasks using the SQLite database.
  * Handles conversion between database rows and Task objects.
+ * Every change is also written to the activity log.
+ * Runs in the database worker; the main thread calls these functions
+ * through services/databaseClient.
  * 
  * @module services/taskRepository
  */
 
-import { getDatabase, saveDatabase } from './database';
+import { getDatabase, withTransaction } from './connection';
+import { column, createTableMapper } from './rowMapper';
+import { logTaskEvent, logTaskChanges } from './activityLog';
 import type { Task } from '../types';
 
 /**
- * Get all tasks from the database.
+ * Where each Task field is stored in the tasks table.
  */
-export function getAllTasks(): Task[] {
-    const db = getDatabase();
-    const result = db.exec('SELECT * FROM tasks ORDER BY task_order ASC');
+const taskTable = createTableMapper<Task>('tasks', {
+    id: column.text('id'),
+    title: column.text('title'),
+    completed: column.flag('completed'),
+    category: column.text<Task['category']>('category'),
+    priority: column.text<Task['priority']>('priority'),
+    createdAt: column.text('created_at'),
+    projectId: column.optionalText('project_id'),
+    parentId: column.optionalText('parent_id'),
+    dueDate: column.optionalText('due_date'),
+    order: column.integer('task_order'),
+    dueTime: column.optionalText('due_time'),
+    isRecurring: column.flag('is_recurring'),
+    lastCompletedAt: column.optionalText('last_completed_at'),
+    deletedAt: column.optionalText('deleted_at'),
+    completedAt: column.optionalText('completed_at'),
+});
+
+/** Fields written by insertTask; deletedAt is cleared instead */
+const INSERTED_FIELDS: (keyof Task)[] = [
+    'id', 'title', 'completed', 'category', 'priority', 'createdAt', 'projectId', 'parentId', 'dueDate', 'order',
+    'dueTime', 'isRecurring', 'lastCompletedAt', 'completedAt',
+];
 
-    if (result.length === 0) return [];
+/** Fields written by updateTask */
+const UPDATED_FIELDS: (keyof Task)[] = [
+    'title', 'completed', 'category', 'priority', 'projectId', 'parentId', 'dueDate', 'order',
+    'dueTime', 'isRecurring', 'lastCompletedAt', 'completedAt',
+];
 
-    return result[0].values.map((row: unknown[]) => ({
-        id: row[0] as string,
-        title: row[1] as string,
-        completed: Boolean(row[2]),
-        category: row[3] as Task['category'],
-        priority: row[4] as Task['priority'],
-        createdAt: row[5] as string,
-        projectId: row[6] as string | undefined,
-        dueDate: row[7] as string | undefined,
-        order: row[8] as number,
-    }));
+/**
+ * Which tasks queryTasks and countTasks return. Every condition given
+ * must match; tasks in the trash are left out unless `inTrash` is set.
+ */
+export interface TaskQuery {
+    /** Only these tasks */
+    ids?: string[];
+    category?: Task['category'];
+    /** A project's tasks, or with null the tasks without a project */
+    projectId?: string | null;
+    /** A task's subtasks, or with null only top-level tasks */
+    parentId?: string | null;
+    completed?: boolean;
+    /** Due on or after this date (YYYY-MM-DD) */
+    dueFrom?: string;
+    /** Due on or before this date (YYYY-MM-DD) */
+    dueTo?: string;
+    /** Only tasks in the trash instead of only those outside it */
+    inTrash?: boolean;
+    /** Maximum number of tasks, for paging */
+    limit?: number;
+    /** Number of tasks to skip, for paging */
+    offset?: number;
 }
 
 /**
- * Get tasks by category.
+ * Build the WHERE clause and parameters for a query.
  */
-export function getTasksByCategory(category: Task['category']): Task[] {
-    const db = getDatabase();
-    const stmt = db.prepare('SELECT * FROM tasks WHERE category = ? ORDER BY task_order ASC');
-    stmt.bind([category]);
-
-    const tasks: Task[] = [];
-    while (stmt.step()) {
-        const row = stmt.get();
-        tasks.push({
-            id: row[0] as string,
-            title: row[1] as string,
-            completed: Boolean(row[2]),
-            category: row[3] as Task['category'],
-            priority: row[4] as Task['priority'],
-            createdAt: row[5] as string,
-            projectId: row[6] as string | undefined,
-            dueDate: row[7] as string | undefined,
-            order: row[8] as number,
-        });
+function whereClause(query: TaskQuery): { where: string; params: unknown[] } {
+    const conditions = [query.inTrash ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+    const params: unknown[] = [];
+
+    if (query.ids) {
+        conditions.push(`id IN (${query.ids.map(() => '?').join(', ') || 'NULL'})`);
+        params.push(...query.ids);
+    }
+    if (query.category) {
+        conditions.push('category = ?');
+        params.push(query.category);
     }
+    if (query.projectId === null) {
+        conditions.push('project_id IS NULL');
+    } else if (query.projectId !== undefined) {
+        conditions.push('project_id = ?');
+        params.push(query.projectId);
+    }
+    if (query.parentId === null) {
+        conditions.push('parent_id IS NULL');
+    } else if (query.parentId !== undefined) {
+        conditions.push('parent_id = ?');
+        params.push(query.parentId);
+    }
+    if (query.completed !== undefined) {
+        conditions.push('completed = ?');
+        params.push(query.completed ? 1 : 0);
+    }
+    if (query.dueFrom) {
+        conditions.push('due_date >= ?');
+        params.push(query.dueFrom);
+    }
+    if (query.dueTo) {
+        // Due dates may carry a time, so compare against the end of the day
+        conditions.push('due_date < ?');
+        params.push(`${query.dueTo}\uffff`);
+    }
+
+    return { where: `WHERE ${conditions.join(' AND ')}`, params };
+}
+
+/**
+ * Get a task by ID, including one in the trash.
+ */
+function findTask(id: string): Task | null {
+    return taskTable.select(getDatabase(), 'WHERE id = ?', [id])[0] ?? null;
+}
+
+/**
+ * Get the tasks matching a query, in their saved order. Use `limit` and
+ * `offset` to read them a page at a time.
+ */
+export function queryTasks(query: TaskQuery = {}): Task[] {
+    const { where, params } = whereClause(query);
+    const order = query.inTrash ? 'ORDER BY deleted_at DESC' : 'ORDER BY task_order ASC, created_at ASC';
+    const page = query.limit !== undefined ? 'LIMIT ? OFFSET ?' : '';
+    const pageParams = query.limit !== undefined ? [query.limit, query.offset ?? 0] : [];
+
+    return taskTable.select(getDatabase(), `${where} ${order} ${page}`, [...params, ...pageParams]);
+}
+
+/**
+ * Count the tasks matching a query. `limit` and `offset` are ignored.
+ */
+export function countTasks(query: TaskQuery = {}): number {
+    const { where, params } = whereClause(query);
+    const stmt = getDatabase().prepare(`SELECT COUNT(*) FROM tasks ${where}`);
+    stmt.bind(params);
+
+    const count = stmt.step() ? Number(stmt.get()[0]) : 0;
     stmt.free();
+    return count;
+}
+
+/**
+ * Count the top-level tasks outside the trash in each category, e.g. to
+ * place new tasks after the existing ones.
+ */
+export function countTasksByCategory(): Record<Task['category'], number> {
+    const counts: Record<Task['category'], number> = { today: 0, week: 0, backlog: 0 };
+    const result = getDatabase().exec('SELECT category, COUNT(*) FROM tasks WHERE deleted_at IS NULL AND parent_id IS NULL GROUP BY category');
+    if (result.length === 0) return counts;
+
+    result[0].values.forEach(([category, count]) => {
+        counts[category as Task['category']] = Number(count);
+    });
+    return counts;
+}
+
+/**
+ * Get all tasks from the database, except those in the trash.
+ */
+export function getAllTasks(): Task[] {
+    return queryTasks();
+}
 
-    return tasks;
+/**
+ * Get tasks by category.
+ */
+export function getTasksByCategory(category: Task['category']): Task[] {
+    return queryTasks({ category });
+}
+
+/**
+ * Get tasks in the trash, most recently deleted first.
+ */
+export function getDeletedTasks(): Task[] {
+    return queryTasks({ inTrash: true });
 }
 
 /**
  * Insert a new task.
+ * A task in the trash with the same ID is replaced.
  */
 export function insertTask(task: Task): void {
     const db = getDatabase();
-    db.run(
-        `INSERT INTO tasks (id, title, completed, category, priority, created_at, project_id, due_date, task_order)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-            task.id,
-            task.title,
-            task.completed ? 1 : 0,
-            task.category,
-            task.priority,
-            task.createdAt,
-            task.projectId || null,
-            task.dueDate || null,
-            task.order || 0,
-        ]
-    );
-    saveDatabase();
+    const existing = findTask(task.id);
+    taskTable.insert(db, task, INSERTED_FIELDS, true);
+
+    if (!existing) {
+        logTaskEvent(task, 'created');
+        // e.g. done tasks brought in by an import
+        if (task.completed) logTaskEvent(task, 'completed');
+    } else {
+        if (existing.deletedAt) logTaskEvent(task, 'restored');
+        logTaskChanges(existing, task);
+    }
 }
 
 /**
@@ -88,64 +210,119 @@ export function insertTask(task: Task): void {
  */
 export function updateTask(task: Task): void {
     const db = getDatabase();
-    db.run(
-        `UPDATE tasks SET 
-            title = ?, completed = ?, category = ?, priority = ?, 
-            project_id = ?, due_date = ?, task_order = ?
-         WHERE id = ?`,
-        [
-            task.title,
-            task.completed ? 1 : 0,
-            task.category,
-            task.priority,
-            task.projectId || null,
-            task.dueDate || null,
-            task.order || 0,
-            task.id,
-        ]
-    );
-    saveDatabase();
+    const existing = findTask(task.id);
+    taskTable.update(db, task, UPDATED_FIELDS);
+
+    if (existing) logTaskChanges(existing, task);
 }
 
 /**
- * Delete a task by ID.
+ * Move a task and its subtasks to the trash.
+ * The subtasks get the same deletion time as the task, which is how
+ * restoreTask finds them again. A task already in the trash keeps its time.
  */
 export function deleteTask(id: string): void {
+    const existing = findTask(id);
+    if (!existing || existing.deletedAt) return;
+
+    const deletedAt = new Date().toISOString();
+    const subtasks = queryTasks({ parentId: id });
+    withTransaction((db) => {
+        db.run('UPDATE tasks SET deleted_at = ? WHERE id = ? OR (parent_id = ? AND deleted_at IS NULL)', [deletedAt, id, id]);
+        logTaskEvent(existing, 'deleted');
+        subtasks.forEach(subtask => logTaskEvent(subtask, 'deleted'));
+    });
+}
+
+/**
+ * Take a task out of the trash, with the subtasks deleted along with it.
+ */
+export function restoreTask(id: string): void {
+    const existing = findTask(id);
+    if (!existing?.deletedAt) return;
+
+    const subtasks = queryTasks({ parentId: id, inTrash: true }).filter(subtask => subtask.deletedAt === existing.deletedAt);
+    withTransaction((db) => {
+        db.run('UPDATE tasks SET deleted_at = NULL WHERE id = ? OR (parent_id = ? AND deleted_at = ?)', [id, id, existing.deletedAt]);
+        logTaskEvent(existing, 'restored');
+        subtasks.forEach(subtask => logTaskEvent(subtask, 'restored'));
+    });
+}
+
+/**
+ * Permanently delete a task and all of its subtasks, which can't be
+ * restored without it. Does nothing unless the task is in the trash.
+ */
+export function purgeTask(id: string): void {
+    if (!findTask(id)?.deletedAt) return;
+
+    withTransaction((db) => {
+        db.run('DELETE FROM tasks WHERE parent_id = ?', [id]);
+        db.run('DELETE FROM tasks WHERE id = ? AND deleted_at IS NOT NULL', [id]);
+    });
+}
+
+/**
+ * Permanently delete tasks that went into the trash before a given time.
+ *
+ * @param before - ISO timestamp; pass nothing to empty the trash
+ * @returns Number of tasks deleted
+ */
+export function purgeDeletedTasks(before?: string): number {
     const db = getDatabase();
-    db.run('DELETE FROM tasks WHERE id = ?', [id]);
-    saveDatabase();
+    const purged = before
+        ? { where: 'deleted_at IS NOT NULL AND deleted_at < ?', params: [before] }
+        : { where: 'deleted_at IS NOT NULL', params: [] };
+
+    // Subtasks go with their parent, even ones trashed after it
+    db.run(`DELETE FROM tasks WHERE parent_id IN (SELECT id FROM tasks WHERE ${purged.where})`, purged.params);
+    let removed = db.getRowsModified();
+    db.run(`DELETE FROM tasks WHERE ${purged.where}`, purged.params);
+    removed += db.getRowsModified();
+    return removed;
 }
 
 /**
- * Toggle task completion status.
+ * Toggle task completion status and record when it was completed.
+ * Recurring tasks also record when they were last completed.
  */
 export function toggleTask(id: string): void {
     const db = getDatabase();
-    db.run('UPDATE tasks SET completed = NOT completed WHERE id = ?', [id]);
-    saveDatabase();
+    const existing = findTask(id);
+    const now = new Date().toISOString();
+    db.run(
+        `UPDATE tasks SET
+            completed = NOT completed,
+            completed_at = CASE WHEN completed = 0 THEN ? ELSE NULL END,
+            last_completed_at = CASE
+                WHEN completed = 0 AND is_recurring = 1 THEN ?
+                ELSE last_completed_at
+            END
+         WHERE id = ?`,
+        [now, now, id]
+    );
+
+    if (existing) logTaskEvent(existing, existing.completed ? 'reopened' : 'completed');
 }
 
 /**
  * Update task order for a category.
+ * All positions are written in a single transaction.
  */
 export function updateTaskOrder(_category: Task['category'], orderedIds: string[]): void {
-    const db = getDatabase();
-    orderedIds.forEach((id, index) => {
-        db.run('UPDATE tasks SET task_order = ? WHERE id = ?', [index, id]);
+    withTransaction((db) => {
+        orderedIds.forEach((id, index) => {
+            db.run('UPDATE tasks SET task_order = ? WHERE id = ?', [index, id]);
+        });
     });
-    saveDatabase();
 }
 
 /**
  * Get count of tasks by category.
  */
 export function getTaskCount(): { total: number; completed: number } {
-    const db = getDatabase();
-    const totalResult = db.exec('SELECT COUNT(*) FROM tasks');
-    const completedResult = db.exec('SELECT COUNT(*) FROM tasks WHERE completed = 1');
-
     return {
-        total: totalResult.length > 0 ? Number(totalResult[0].values[0][0]) : 0,
-        completed: completedResult.length > 0 ? Number(completedResult[0].values[0][0]) : 0,
+        total: countTasks(),
+        completed: countTasks({ completed: true }),
     };
 }
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Task store
+ *
+ * The single in-memory list of tasks shared by every page, with the task
+ * operations the UI needs. Storage is delegated to a storage adapter.
+ * Each operation is recorded in the undo history except the daily
+ * reset of recurring tasks, which the user didn't make.
+ *
+ * Subtasks are tasks with a `parentId`. They follow their parent: they
+ * take its category and project, and go into the trash with it.
+ *
+ * @module services/taskStore
+ */
+
+import { createRecordStore, insertWithHistory, updateWithHistory, removeWithHistory } from './recordStore';
+import type { RecordStore } from './recordStore';
+import type { StorageAdapter } from './storageAdapter';
+import type { Task } from '../types';
+
+/** localStorage key used for tasks before they moved to SQLite */
+export const LEGACY_TASKS_KEY = 'lumina-tasks';
+
+/** Options accepted when creating a task */
+export interface NewTaskOptions {
+    priority?: Task['priority'];
+    projectId?: string;
+    dueDate?: string;
+    dueTime?: string;
+    isRecurring?: boolean;
+    /** Make the task a subtask of this one */
+    parentId?: string;
+}
+
+/**
+ * Task list plus task operations.
+ */
+export interface TaskStore extends RecordStore<Task> {
+    addTask(title: string, category: Task['category'], options?: NewTaskOptions): Task;
+    toggleTask(id: string): void;
+    /** Complete every open subtask of a task */
+    completeSubtasks(parentId: string): void;
+    deleteTask(id: string): void;
+    updateTask(id: string, updates: Partial<Task>): void;
+    reorderTasks(category: Task['category'], reorderedTasks: Task[]): void;
+    reorderSubtasks(parentId: string, reorderedSubtasks: Task[]): void;
+    /** Move every task in a project to another one, or out of any project */
+    moveProjectTasks(fromProjectId: string, toProjectId?: string): void;
+    /** Un-complete recurring tasks that were last completed before today */
+    resetRecurringTasks(): void;
+}
+
+/**
+ * Generates a unique ID for new tasks.
+ * Uses timestamp + random string for uniqueness.
+ */
+const generateId = () => `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Mark a task complete or not, keeping its completion times in step.
+ */
+function setCompleted(task: Task, completed: boolean): Task {
+    if (task.completed === completed) return task;
+
+    const now = new Date().toISOString();
+    return {
+        ...task,
+        completed,
+        completedAt: completed ? now : undefined,
+        // Track when recurring tasks are completed
+        lastCompletedAt: task.isRecurring && completed ? now : task.lastCompletedAt,
+    };
+}
+
+/**
+ * Create a task store.
+ */
+export function createTaskStore(adapter: StorageAdapter<Task>): TaskStore {
+    const store = createRecordStore<Task>('TaskStore', adapter);
+
+    const findTask = (id: string) => store.getAll().find(task => task.id === id);
+    const findSubtasks = (parentId: string) => store.getAll().filter(task => task.parentId === parentId);
+
+    return {
+        ...store,
+
+        addTask: (title, category, options) => {
+            const parent = options?.parentId ? findTask(options.parentId) : undefined;
+            const siblings = parent
+                ? findSubtasks(parent.id)
+                : store.getAll().filter(t => t.category === category && !t.parentId);
+
+            const newTask: Task = {
+                id: generateId(),
+                title,
+                completed: false,
+                category: parent?.category ?? category,
+                priority: options?.priority || 'medium',
+                createdAt: new Date().toISOString(),
+                projectId: parent ? parent.projectId : options?.projectId,
+                parentId: parent?.id,
+                dueDate: options?.dueDate,
+                dueTime: options?.dueTime,
+                isRecurring: options?.isRecurring,
+                order: siblings.length,
+            };
+            insertWithHistory(store, parent ? 'Add subtask' : 'Add task', [newTask]);
+            return newTask;
+        },
+
+        toggleTask: (id) => {
+            const task = findTask(id);
+            if (!task) return;
+            const nowCompleted = !task.completed;
+            const label = task.parentId
+                ? (nowCompleted ? 'Complete subtask' : 'Reopen subtask')
+                : (nowCompleted ? 'Complete task' : 'Reopen task');
+            updateWithHistory(store, label, [setCompleted(task, nowCompleted)]);
+        },
+
+        completeSubtasks: (parentId) => {
+            const open = findSubtasks(parentId).filter(task => !task.completed);
+            if (open.length > 0) {
+                updateWithHistory(store, 'Complete subtasks', open.map(task => setCompleted(task, true)));
+            }
+        },
+
+        deleteTask: (id) => {
+            const task = findTask(id);
+            removeWithHistory(store, task?.parentId ? 'Delete subtask' : 'Delete task', [id, ...findSubtasks(id).map(subtask => subtask.id)]);
+        },
+
+        updateTask: (id, updates) => {
+            const task = findTask(id);
+            if (task) {
+                const updated = setCompleted({ ...task, ...updates, completed: task.completed }, updates.completed ?? task.completed);
+                // Subtasks stay in their parent's category and project
+                const subtasks = findSubtasks(id)
+                    .filter(subtask => subtask.category !== updated.category || subtask.projectId !== updated.projectId)
+                    .map(subtask => ({ ...subtask, category: updated.category, projectId: updated.projectId }));
+                updateWithHistory(store, task.parentId ? 'Edit subtask' : 'Edit task', [updated, ...subtasks]);
+            }
+        },
+
+        reorderTasks: (category, reorderedTasks) => {
+            updateWithHistory(store, 'Reorder tasks', reorderedTasks
+                .filter(task => task.category === category)
+                .map((task, index) => ({ ...task, order: index })));
+        },
+
+        reorderSubtasks: (parentId, reorderedSubtasks) => {
+            updateWithHistory(store, 'Reorder subtasks', reorderedSubtasks
+                .filter(task => task.parentId === parentId)
+                .map((task, index) => ({ ...task, order: index })));
+        },
+
+        moveProjectTasks: (fromProjectId, toProjectId) => {
+            const moved = store.getAll()
+                .filter(task => task.projectId === fromProjectId)
+                .map(task => ({ ...task, projectId: toProjectId }));
+            if (moved.length > 0) {
+                updateWithHistory(store, 'Move tasks', moved);
+            }
+        },
+
+        resetRecurringTasks: () => {
+            const today = new Date().toDateString();
+            const tasksToReset = store.getAll().filter(task => {
+                if (!task.isRecurring || !task.completed) return false;
+                if (!task.lastCompletedAt) return true;
+                return new Date(task.lastCompletedAt).toDateString() !== today;
+            });
+
+            if (tasksToReset.length === 0) return;
+            store.update(tasksToReset.map(task => setCompleted(task, false))).then((ok) => {
+                if (ok) console.log('[TaskStore] Reset', tasksToReset.length, 'recurring tasks');
+            });
+        },
+    };
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Trash for deleted tasks and projects
+ *
+ * Deleting a task or project only sets its `deleted_at` time. Items stay
+ * in the trash until they are restored, deleted for good, or purged
+ * automatically once they are older than the `trashRetentionDays` setting.
+ * A project's tasks go into the trash with it and come back with it, as
+ * do a task's subtasks.
+ *
+ * @module services/trash
+ */
+
+import { notifyRecordsChanged } from './database';
+import { callDatabase, runTransaction } from './databaseClient';
+import { getSetting } from './settingsRepository';
+import { MS_PER_DAY } from './dates';
+import type { OperationCall } from './databaseOperations';
+import type { Task, Project } from '../types';
+
+/**
+ * A deleted project and the tasks deleted along with it.
+ */
+export interface TrashedProject {
+    project: Project;
+    tasks: Task[];
+}
+
+/**
+ * Everything currently in the trash.
+ */
+export interface TrashContents {
+    projects: TrashedProject[];
+    /** Tasks deleted on their own */
+    tasks: Task[];
+}
+
+/**
+ * List the trash, grouping tasks under the project they were deleted with.
+ */
+export async function getTrash(): Promise<TrashContents> {
+    const deletedProjects = await callDatabase('getDeletedProjects');
+    const deletedTasks = await callDatabase('getDeletedTasks');
+    const projects = deletedProjects.map(project => ({ project, tasks: [] as Task[] }));
+    const byProject = new Map(projects.map(entry => [entry.project.id, entry]));
+    const deletedAtById = new Map(deletedTasks.map(task => [task.id, task.deletedAt]));
+    const tasks: Task[] = [];
+
+    for (const task of deletedTasks) {
+        // Subtasks deleted with their task are restored and purged with it
+        if (task.parentId && deletedAtById.get(task.parentId) === task.deletedAt) continue;
+
+        const entry = task.projectId ? byProject.get(task.projectId) : undefined;
+        if (entry && entry.project.deletedAt === task.deletedAt) {
+            entry.tasks.push(task);
+        } else {
+            tasks.push(task);
+        }
+    }
+
+    return { projects, tasks };
+}
+
+/**
+ * Restore a task. If its project is gone or still in the trash, the task
+ * comes back without a project; a subtask whose parent is gone comes back
+ * as a task of its own.
+ *
+ * @returns True if the task had to be unlinked from its project or parent
+ */
+export async function restoreTrashedTask(id: string): Promise<boolean> {
+    const [task] = await callDatabase('queryTasks', { ids: [id], inTrash: true });
+    if (!task) return false;
+
+    const unlinkProject = Boolean(task.projectId && !(await callDatabase('getProjectById', task.projectId)));
+    const unlinkParent = Boolean(task.parentId && (await callDatabase('countTasks', { ids: [task.parentId] })) === 0);
+    const unlink = unlinkProject || unlinkParent;
+    const calls: OperationCall[] = [['restoreTask', id]];
+    if (unlink) {
+        calls.push(['updateTask', {
+            ...task,
+            projectId: unlinkProject ? undefined : task.projectId,
+            parentId: unlinkParent ? undefined : task.parentId,
+        }]);
+    }
+    await runTransaction(calls);
+
+    notifyRecordsChanged();
+    return unlink;
+}
+
+/**
+ * Restore a project and the tasks deleted along with it.
+ */
+export async function restoreTrashedProject(id: string): Promise<void> {
+    await callDatabase('restoreProject', id);
+    notifyRecordsChanged();
+}
+
+/**
+ * Permanently delete a task from the trash.
+ */
+export async function purgeTrashedTask(id: string): Promise<void> {
+    await callDatabase('purgeTask', id);
+    notifyRecordsChanged();
+}
+
+/**
+ * Permanently delete a project and the tasks deleted along with it.
+ */
+export async function purgeTrashedProject(id: string): Promise<void> {
+    await callDatabase('purgeProject', id);
+    notifyRecordsChanged();
+}
+
+/**
+ * Permanently delete everything in the trash.
+ */
+export async function emptyTrash(): Promise<void> {
+    await runTransaction([['purgeDeletedTasks'], ['purgeDeletedProjects']]);
+    notifyRecordsChanged();
+}
+
+/**
+ * Permanently delete items that have been in the trash longer than the
+ * `trashRetentionDays` setting. Does nothing when the setting is 0.
+ *
+ * @returns Number of tasks and projects deleted
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+    const days = getSetting('trashRetentionDays');
+    if (days === 0) return 0;
+
+    const cutoff = new Date(Date.now() - days * MS_PER_DAY).toISOString();
+    const [tasks, projects] = await runTransaction([
+        ['purgeDeletedTasks', cutoff],
+        ['purgeDeletedProjects', cutoff],
+    ]) as number[];
+    const removed = tasks + projects;
+
+    if (removed > 0) {
+        console.log(`[Trash] Purged ${removed} items older than ${days} days`);
+        notifyRecordsChanged();
+    }
+    return removed;
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Change notifications between tabs and windows
+ *
+ * Every open tab or window holds its own copy of the database in memory.
+ * After one of them saves, the others are told so they can pull in the
+ * change. In the browser the message goes over a BroadcastChannel; in
+ * Electron the main process tells the other windows whenever the database
+ * file is written. Messages name the workspace saved, so windows showing
+ * another workspace ignore them.
+ *
+ * Saves also take a lock shared by all tabs and windows, so reading the
+ * stored copy, merging and writing it back can't interleave with another
+ * window doing the same.
+ *
+ * @module services/windowSync
+ */
+
+/** BroadcastChannel used by browser tabs */
+const CHANNEL_NAME = 'luminanote-database';
+
+/** Web Locks name held while the stored database is read and rewritten */
+const LOCK_NAME = 'luminanote-database-save';
+
+// Opened on first use; null where BroadcastChannel isn't supported
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+    if (channel === undefined) {
+        channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+    }
+    return channel;
+}
+
+/**
+ * Register a callback for when another tab or window has saved the
+ * database of a workspace.
+ *
+ * @returns A function that removes the listener
+ */
+export function onSavedElsewhere(workspaceId: string, listener: () => void): () => void {
+    const electronAPI = window.electronAPI;
+    if (electronAPI?.isElectron) {
+        return electronAPI.onDatabaseChanged((saved) => {
+            if (saved === workspaceId) listener();
+        });
+    }
+
+    const current = getChannel();
+    if (!current) return () => undefined;
+
+    const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'saved' && event.data.workspace === workspaceId) listener();
+    };
+    current.addEventListener('message', handleMessage);
+    return () => current.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Tell other tabs that this one has saved a workspace's database.
+ * In Electron the main process does this itself.
+ */
+export function announceSave(workspaceId: string): void {
+    if (window.electronAPI?.isElectron) return;
+    getChannel()?.postMessage({ type: 'saved', workspace: workspaceId });
+}
+
+/**
+ * Run `fn` while holding the save lock shared by every tab and window.
+ * Where Web Locks aren't available, `fn` runs straight away.
+ */
+export function withSaveLock<T>(fn: () => Promise<T>): Promise<T> {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    return locks ? locks.request(LOCK_NAME, () => fn()) as Promise<T> : fn();
+}
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Workspaces
+ *
+ * A workspace is a separate set of data (e.g. "Work" and "Personal") with
+ * its own database, and so its own tasks, projects, settings, wheel and
+ * timer. The list of workspaces and the one last used are kept in
+ * localStorage, outside any database; the data itself is stored per
+ * workspace by the storage backend (see services/storage).
+ *
+ * The workspace that existed before workspaces were added is the default
+ * one. It can be renamed but not deleted.
+ *
+ * Switching happens in DatabaseProvider, which closes the open database
+ * and initializes the new one.
+ *
+ * @module services/workspaces
+ */
+
+import { DEFAULT_WORKSPACE_ID, deleteWorkspaceStorage } from './storage';
+import { copyWorkspaceDatabase, getDatabaseWorkspace } from './database';
+
+/**
+ * A named, separate set of data.
+ */
+export interface Workspace {
+    id: string;
+    name: string;
+
+    /** ISO timestamp of when the workspace was created */
+    createdAt: string;
+}
+
+/** localStorage key of the workspace list */
+const WORKSPACES_KEY = 'lumina-workspaces';
+
+/** localStorage key of the workspace opened last, which new windows open */
+const LAST_WORKSPACE_KEY = 'lumina-last-workspace';
+
+/** Name of the default workspace until it is renamed */
+const DEFAULT_WORKSPACE_NAME = 'My Workspace';
+
+/** Longest name accepted */
+const MAX_NAME_LENGTH = 60;
+
+// Parsed list, so repeated reads return the same array
+let cached: { raw: string | null; workspaces: Workspace[] } | null = null;
+
+const listeners = new Set<() => void>();
+
+/**
+ * Check a stored workspace entry.
+ */
+function isWorkspace(value: unknown): value is Workspace {
+    const workspace = value as Workspace;
+    return typeof workspace === 'object' && workspace !== null
+        && typeof workspace.id === 'string' && /^[\w-]+$/.test(workspace.id)
+        && typeof workspace.name === 'string'
+        && typeof workspace.createdAt === 'string';
+}
+
+/**
+ * List the workspaces, the default one first.
+ */
+export function getWorkspaces(): Workspace[] {
+    const raw = localStorage.getItem(WORKSPACES_KEY);
+    if (cached?.raw === raw) return cached.workspaces;
+
+    let stored: Workspace[] = [];
+    try {
+        const parsed: unknown = raw ? JSON.parse(raw) : [];
+        stored = Array.isArray(parsed) ? parsed.filter(isWorkspace) : [];
+    } catch {
+        console.warn('[Workspaces] Ignored an unreadable workspace list');
+    }
+
+    const defaultWorkspace = stored.find(workspace => workspace.id === DEFAULT_WORKSPACE_ID)
+        ?? { id: DEFAULT_WORKSPACE_ID, name: DEFAULT_WORKSPACE_NAME, createdAt: new Date(0).toISOString() };
+    const workspaces = [defaultWorkspace, ...stored.filter(workspace => workspace.id !== DEFAULT_WORKSPACE_ID)];
+
+    cached = { raw, workspaces };
+    return workspaces;
+}
+
+/**
+ * Store the workspace list and tell subscribers.
+ */
+function saveWorkspaces(workspaces: Workspace[]): void {
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to changes to the workspace list, including those made in
+ * other tabs and windows.
+ *
+ * @returns Unsubscribe function
+ */
+export function onWorkspacesChanged(listener: () => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+        if (event.key === WORKSPACES_KEY) listener();
+    };
+    listeners.add(listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', handleStorage);
+    };
+}
+
+/**
+ * Find a workspace by id.
+ */
+export function getWorkspace(id: string): Workspace | undefined {
+    return getWorkspaces().find(workspace => workspace.id === id);
+}
+
+/**
+ * The workspace opened last, or the default one if it no longer exists.
+ */
+export function getLastWorkspaceId(): string {
+    const id = localStorage.getItem(LAST_WORKSPACE_KEY);
+    return id && getWorkspace(id) ? id : DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Remember the workspace just opened, for the next start.
+ */
+export function rememberLastWorkspace(id: string): void {
+    localStorage.setItem(LAST_WORKSPACE_KEY, id);
+}
+
+/**
+ * Trim a workspace name and check it.
+ *
+ * @throws Error if the name is empty or too long
+ */
+function cleanName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error('Give the workspace a name.');
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+        throw new Error(`Workspace names can be at most ${MAX_NAME_LENGTH} characters.`);
+    }
+    return trimmed;
+}
+
+/**
+ * Add an empty workspace. Its database is created when it is first opened.
+ *
+ * @throws Error if the name is empty or too long
+ */
+export function createWorkspace(name: string): Workspace {
+    const workspace: Workspace = {
+        id: crypto.randomUUID(),
+        name: cleanName(name),
+        createdAt: new Date().toISOString(),
+    };
+    saveWorkspaces([...getWorkspaces(), workspace]);
+    console.log(`[Workspaces] Created ${workspace.name}`);
+    return workspace;
+}
+
+/**
+ * Rename a workspace.
+ *
+ * @throws Error if the name is empty or too long
+ */
+export function renameWorkspace(id: string, name: string): void {
+    const cleaned = cleanName(name);
+    saveWorkspaces(getWorkspaces().map(workspace =>
+        workspace.id === id ? { ...workspace, name: cleaned } : workspace
+    ));
+}
+
+/**
+ * Add a workspace holding a copy of another one's data. Snapshots and
+ * sync settings are not copied.
+ *
+ * @throws Error if the name is invalid, or the source is encrypted and not open
+ */
+export async function duplicateWorkspace(id: string, name: string): Promise<Workspace> {
+    const cleaned = cleanName(name);
+    const workspace: Workspace = {
+        id: crypto.randomUUID(),
+        name: cleaned,
+        createdAt: new Date().toISOString(),
+    };
+
+    // Copied before the workspace is listed, so a failed copy leaves nothing behind
+    await copyWorkspaceDatabase(id, workspace.id);
+    saveWorkspaces([...getWorkspaces(), workspace]);
+    console.log(`[Workspaces] Duplicated ${getWorkspace(id)?.name ?? id} as ${cleaned}`);
+    return workspace;
+}
+
+/**
+ * Delete a workspace with all of its data and snapshots.
+ *
+ * @throws Error for the default workspace or the one currently open
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+    if (id === DEFAULT_WORKSPACE_ID) {
+        throw new Error('The default workspace cannot be deleted.');
+    }
+    if (id === getDatabaseWorkspace()) {
+        throw new Error('Switch to another workspace before deleting this one.');
+    }
+
+    await deleteWorkspaceStorage(id);
+    saveWorkspaces(getWorkspaces().filter(workspace => workspace.id !== id));
+    if (localStorage.getItem(LAST_WORKSPACE_KEY) === id) {
+        localStorage.removeItem(LAST_WORKSPACE_KEY);
+    }
+    console.log(`[Workspaces] Deleted workspace ${id}`);
+}
@@ -0,0 +1,71 @@
+/**
+ * Type declarations for the API exposed by electron/preload.cjs
+ */
+export interface ElectronAPI {
+    /** Node.js platform string of the host OS */
+    platform: string;
+
+    /** Always true when running inside the Electron shell */
+    isElectron: true;
+
+    /** Read the bundled sql.js WebAssembly binary from disk */
+    loadSqlWasm: () => Promise<Uint8Array>;
+
+    /** Read a workspace's luminanote.sqlite, or null if it doesn't exist yet */
+    readDatabase: (workspace: string) => Promise<Uint8Array | null>;
+
+    /** Atomically replace a workspace's luminanote.sqlite with the given bytes */
+    writeDatabase: (workspace: string, data: Uint8Array) => Promise<void>;
+
+    /** Same as writeDatabase, but blocks until written; false if it failed */
+    writeDatabaseSync: (workspace: string, data: Uint8Array) => boolean;
+
+    /** Delete a workspace's luminanote.sqlite */
+    deleteDatabase: (workspace: string) => Promise<void>;
+
+    /** List a workspace's snapshot files */
+    listSnapshots: (workspace: string) => Promise<{ id: string; size: number }[]>;
+
+    /** Atomically write a snapshot file */
+    writeSnapshot: (workspace: string, id: string, data: Uint8Array) => Promise<void>;
+
+    /** Read a snapshot file, or null if it doesn't exist */
+    readSnapshot: (workspace: string, id: string) => Promise<Uint8Array | null>;
+
+    /** Delete a snapshot file */
+    deleteSnapshot: (workspace: string, id: string) => Promise<void>;
+
+    /** Delete a workspace's folder with its database and snapshots; not allowed for the default one */
+    deleteWorkspace: (workspace: string) => Promise<void>;
+
+    /** Ask the user for a sync folder; null if they cancel */
+    chooseSyncFolder: () => Promise<string | null>;
+
+    /** List the device change logs in a sync folder, with their sizes in bytes */
+    listSyncLogs: (folder: string) => Promise<{ deviceId: string; size: number }[]>;
+
+    /** Read the complete lines of a device's change log from a byte offset, and the offset after them */
+    readSyncLog: (folder: string, deviceId: string, offset: number) => Promise<{ text: string; offset: number }>;
+
+    /** Append lines to a device's change log */
+    appendSyncLog: (folder: string, deviceId: string, text: string) => Promise<void>;
+
+    /** Watch a sync folder for changes from this window, or stop with an empty folder */
+    watchSyncFolder: (folder: string) => Promise<void>;
+
+    /** Listen for changes in the watched sync folder; returns a function that stops listening */
+    onSyncFolderChanged: (callback: () => void) => () => void;
+
+    /** Listen for another window writing a workspace's database; returns a function that stops listening */
+    onDatabaseChanged: (callback: (workspace: string) => void) => () => void;
+
+    /** Listen for Undo/Redo from the Edit menu; returns a function that stops listening */
+    onEditCommand: (callback: (command: 'undo' | 'redo') => void) => () => void;
+}
+
+declare global {
+    interface Window {
+        /** Only present when running inside Electron */
+        electronAPI?: ElectronAPI;
+    }
+}
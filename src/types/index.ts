@@ -37,6 +37,12 @@ export interface Task {
     /** Optional project association */
     projectId?: string;
 
+    /**
+     * Parent task, for a subtask. Subtasks are listed inside their parent
+     * and share its category and project.
+     */
+    parentId?: string;
+
     /** Optional due date in ISO format */
     dueDate?: string;
 
@@ -49,8 +55,22 @@ export interface Task {
     /** ISO timestamp of when recurring task was last completed */
     lastCompletedAt?: string;
 
+    /** ISO timestamp of when the task was marked complete; cleared when reopened */
+    completedAt?: string;
+
     /** Order index for drag-and-drop sorting */
     order?: number;
+
+    /** ISO timestamp of when the task was moved to the trash */
+    deletedAt?: string;
+}
+
+/**
+ * How many of a task's subtasks are completed.
+ */
+export interface SubtaskProgress {
+    done: number;
+    total: number;
 }
 
 // =============================================================================
@@ -100,6 +120,58 @@ export interface Project {
 
     /** Categorization tags */
     tags: string[];
+
+    /** ISO timestamp of when the project was moved to the trash */
+    deletedAt?: string;
+}
+
+/**
+ * What happens to a project's tasks when the project is deleted:
+ * they go to the trash with it, move to another project, or stay
+ * without a project.
+ */
+export type ProjectTaskAction =
+    | { type: 'delete' }
+    | { type: 'move'; projectId: string }
+    | { type: 'unlink' };
+
+// =============================================================================
+// ACTIVITY TYPES
+// =============================================================================
+
+/** What happened to a task or project */
+export type ActivityType = 'created' | 'updated' | 'completed' | 'reopened' | 'deleted' | 'restored';
+
+/**
+ * One entry in the append-only activity log.
+ * An edit that changes several fields is logged as one entry per field.
+ */
+export interface ActivityEvent {
+    /** Increasing number within the task or project log */
+    id: number;
+
+    /** Whether the entry is about a task or a project */
+    entity: 'task' | 'project';
+
+    /** ID of the task or project */
+    entityId: string;
+
+    /** Task title or project name at the time */
+    subject: string;
+
+    type: ActivityType;
+
+    /** Changed field for 'updated' entries, e.g. 'priority' */
+    field?: string;
+
+    /** Field value before the change, as text */
+    oldValue?: string;
+
+    /** Field value after the change, as text */
+    newValue?: string;
+
+    /** ISO timestamp of when it happened */
+    createdAt: string;
 }
 
 // =============================================================================
@@ -135,7 +207,7 @@ export interface TimerState {
 // =============================================================================
 
 /** Available navigation destinations in the app */
-export type NavItem = 'dashboard' | 'tasks' | 'projects' | 'focus' | 'calendar' | 'wheel';
+export type NavItem = 'dashboard' | 'tasks' | 'projects' | 'focus' | 'calendar' | 'wheel' | 'activity' | 'backup' | 'trash' | 'settings';
 
 // =============================================================================
 // VIEW MODE TYPES
@@ -172,3 +244,96 @@ export interface WheelOption {
     color: string;
 }
 
+
+// =============================================================================
+// SETTINGS TYPES
+// =============================================================================
+
+/** Available color themes */
+export type Theme = 'light' | 'dark';
+
+/**
+ * User preferences stored in the settings table, by key.
+ * Add a key here and a definition in the settings repository to add a setting.
+ */
+export interface Settings {
+    /** Light or dark mode */
+    theme: Theme;
+
+    /** Pomodoro timer state, including the completed session count */
+    timer: TimerState;
+
+    /** Options on the decision wheel */
+    wheelOptions: WheelOption[];
+
+    /** Days items stay in the trash before they are deleted for good; 0 keeps them */
+    trashRetentionDays: number;
+
+    /** Address of the sync server; empty turns sync off */
+    syncServerUrl: string;
+
+    /** Token sent to the sync server */
+    syncToken: string;
+
+    /** Folder synced through change logs (desktop app only); empty turns it off */
+    syncFolder: string;
+}
+
+/** Name of a stored setting */
+export type SettingKey = keyof Settings;
+
+// =============================================================================
+// CALENDAR TYPES
+// =============================================================================
+
+/**
+ * An event or to-do read from an iCalendar (.ics) file.
+ */
+export interface CalendarEntry {
+    /** The entry's UID from the file */
+    uid: string;
+
+    /** Whether it came from a VEVENT or a VTODO */
+    kind: 'event' | 'todo';
+
+    /** Entry summary */
+    title: string;
+
+    /** Optional longer description */
+    description?: string;
+
+    /** Start (events) or due (to-dos) date in YYYY-MM-DD format, in local time */
+    date?: string;
+
+    /** Optional time in HH:MM format; absent for all-day entries */
+    time?: string;
+
+    /** Whether a to-do is marked completed */
+    completed: boolean;
+
+    /** Priority mapped from the iCalendar 1-9 scale */
+    priority: Task['priority'];
+
+    /** LuminaNote category, present in files exported by LuminaNote */
+    category?: Task['category'];
+
+    /** Raw RRULE value for repeating entries */
+    rrule?: string;
+}
+
+/**
+ * An imported calendar shown read-only on top of the task calendar.
+ */
+export interface CalendarOverlay {
+    /** Unique identifier */
+    id: string;
+
+    /** Display name, taken from the file */
+    name: string;
+
+    /** ISO timestamp of the import */
+    importedAt: string;
+
+    /** Entries to display */
+    entries: CalendarEntry[];
+}
@@ -5,6 +5,7 @@ declare module 'sql.js' {
     export interface Database {
         run(sql: string, params?: unknown[]): void;
         exec(sql: string): QueryExecResult[];
+        getRowsModified(): number;
         prepare(sql: string): Statement;
         export(): Uint8Array;
         close(): void;
@@ -14,6 +15,7 @@ declare module 'sql.js' {
         bind(params?: unknown[]): boolean;
         step(): boolean;
         get(): unknown[];
+        getAsObject(): Record<string, unknown>;
         free(): void;
     }
 
@@ -28,6 +30,7 @@ declare module 'sql.js' {
 
     export interface InitSqlJsOptions {
         locateFile?: (file: string) => string;
+        wasmBinary?: ArrayLike<number> | ArrayBuffer;
     }
 
     export default function initSqlJs(options?: InitSqlJsOptions): Promise<SqlJsStatic>;
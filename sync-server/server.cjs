@@ -0,0 +1,228 @@
+/**
+ * @fileoverview LuminaNote Sync Server
+ *
+ * A small, dependency-free server that devices sync tasks and projects
+ * through. Each device POSTs the records it changed since its last push,
+ * with the time each field last changed; the server merges them field by
+ * field (the later write wins) and replies with every record changed since
+ * the cursor the device sent.
+ *
+ * Records are kept in one JSON file. Run with `npm run sync-server`.
+ *
+ * Environment:
+ * - PORT: port to listen on (default 8787)
+ * - HOST: address to listen on (default 127.0.0.1, localhost only)
+ * - SYNC_TOKEN: token devices must send; if unset, one is generated on
+ *   first start, saved as `sync-token` next to the data file and printed
+ * - SYNC_DATA_FILE: where records are stored (default sync-server/data.json)
+ * - SYNC_ALLOWED_ORIGINS: comma-separated origins the app may call from
+ *   (default: the dev server, and `null` and `file://` for the desktop app)
+ */
+
+const http = require('http');
+const path = require('path');
+const fs = require('fs');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(__dirname, 'data.json');
+const TOKEN_FILE = path.join(path.dirname(DATA_FILE), 'sync-token');
+const ALLOWED_ORIGINS = (process.env.SYNC_ALLOWED_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173,null,file://')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+// Largest request body accepted, in bytes
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const ENTITIES = ['task', 'project'];
+
+// { seq: number, records: { [entity:id]: { entity, id, fields, fieldTimes, deletedAt, seq } } }
+let data = { seq: 0, records: {} };
+
+function loadData() {
+    try {
+        data = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+        console.log(`[Sync server] Loaded ${Object.keys(data.records).length} records from ${DATA_FILE}`);
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+}
+
+// The token from SYNC_TOKEN, or the one generated on first start
+function loadToken() {
+    if (process.env.SYNC_TOKEN) return { token: process.env.SYNC_TOKEN, generated: false };
+    try {
+        const saved = fs.readFileSync(TOKEN_FILE, 'utf8').trim();
+        if (saved) return { token: saved, generated: false };
+    } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+    }
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    fs.mkdirSync(path.dirname(TOKEN_FILE), { recursive: true });
+    fs.writeFileSync(TOKEN_FILE, `${token}\n`, { mode: 0o600 });
+    return { token, generated: true };
+}
+
+const { token: TOKEN, generated: tokenGenerated } = loadToken();
+
+// Write to a temporary file first so a crash never leaves half a file
+function saveData() {
+    const temp = `${DATA_FILE}.tmp`;
+    fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+    fs.writeFileSync(temp, JSON.stringify(data));
+    fs.renameSync(temp, DATA_FILE);
+}
+
+// The later time wins; on a tie the larger value does, like the app
+function isNewer(incomingValue, incomingTime, storedValue, storedTime) {
+    if (incomingTime !== storedTime) return incomingTime > (storedTime || '');
+    return JSON.stringify(incomingValue ?? null) > JSON.stringify(storedValue ?? null);
+}
+
+function isValidChange(change) {
+    return change !== null && typeof change === 'object'
+        && ENTITIES.includes(change.entity)
+        && typeof change.id === 'string' && change.id !== ''
+        && change.fields !== null && typeof change.fields === 'object'
+        && change.fieldTimes !== null && typeof change.fieldTimes === 'object'
+        && (change.deletedAt === null || change.deletedAt === undefined || typeof change.deletedAt === 'string');
+}
+
+// Merge one pushed record into the stored one; returns whether anything changed
+function mergeChange(change) {
+    const key = `${change.entity}:${change.id}`;
+    const stored = data.records[key] || {
+        entity: change.entity,
+        id: change.id,
+        fields: {},
+        fieldTimes: {},
+        deletedAt: null,
+        seq: 0,
+    };
+    let changed = !data.records[key];
+
+    for (const [field, time] of Object.entries(change.fieldTimes)) {
+        if (typeof time !== 'string' || !(field in change.fields)) continue;
+        if (isNewer(change.fields[field], time, stored.fields[field], stored.fieldTimes[field])) {
+            stored.fields[field] = change.fields[field];
+            stored.fieldTimes[field] = time;
+            changed = true;
+        }
+    }
+
+    if (change.deletedAt && change.deletedAt > (stored.deletedAt || '')) {
+        stored.deletedAt = change.deletedAt;
+        changed = true;
+    }
+
+    if (changed) {
+        data.seq += 1;
+        stored.seq = data.seq;
+        data.records[key] = stored;
+    }
+    return changed;
+}
+
+function handleSync(body) {
+    const cursor = Number.isInteger(body.cursor) && body.cursor >= 0 ? body.cursor : 0;
+    const changes = Array.isArray(body.changes) ? body.changes.filter(isValidChange) : [];
+
+    const merged = changes.filter(mergeChange).length;
+    if (merged > 0) {
+        saveData();
+    }
+
+    const outgoing = Object.values(data.records)
+        .filter(record => record.seq > cursor)
+        .sort((a, b) => a.seq - b.seq)
+        .map(({ entity, id, fields, fieldTimes, deletedAt }) => ({ entity, id, fields, fieldTimes, deletedAt }));
+
+    console.log(`[Sync server] Received ${changes.length} changes (${merged} new), sent ${outgoing.length}`);
+    return { cursor: data.seq, changes: outgoing };
+}
+
+function isAuthorized(request) {
+    const header = request.headers.authorization || '';
+    const expected = Buffer.from(`Bearer ${TOKEN}`);
+    const actual = Buffer.from(header);
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function sendJson(response, status, body) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
+
+const server = http.createServer((request, response) => {
+    // The app runs on another origin (the dev server, or file:// in Electron);
+    // other web pages the user visits must not be able to read the replies
+    const origin = request.headers.origin;
+    response.setHeader('Vary', 'Origin');
+    if (origin && ALLOWED_ORIGINS.includes(origin)) {
+        response.setHeader('Access-Control-Allow-Origin', origin);
+        response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    }
+
+    if (request.method === 'OPTIONS') {
+        response.writeHead(204);
+        response.end();
+        return;
+    }
+
+    if (request.method === 'GET' && request.url === '/') {
+        sendJson(response, 200, { name: 'LuminaNote sync server', cursor: data.seq, records: Object.keys(data.records).length });
+        return;
+    }
+
+    if (request.method !== 'POST' || request.url !== '/sync') {
+        sendJson(response, 404, { error: 'Not found' });
+        return;
+    }
+
+    if (!isAuthorized(request)) {
+        sendJson(response, 401, { error: 'Invalid token' });
+        return;
+    }
+
+    const chunks = [];
+    let size = 0;
+    request.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            sendJson(response, 413, { error: 'Request too large' });
+            request.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    request.on('end', () => {
+        let body;
+        try {
+            body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        } catch {
+            sendJson(response, 400, { error: 'Invalid JSON' });
+            return;
+        }
+        try {
+            sendJson(response, 200, handleSync(body || {}));
+        } catch (error) {
+            console.error('[Sync server] Sync failed:', error);
+            sendJson(response, 500, { error: 'Sync failed' });
+        }
+    });
+});
+
+loadData();
+server.listen(PORT, HOST, () => {
+    console.log(`[Sync server] Listening on http://${HOST}:${PORT}`);
+    if (tokenGenerated) {
+        console.log(`[Sync server] Generated a token and saved it to ${TOKEN_FILE}`);
+    }
+    if (!process.env.SYNC_TOKEN) {
+        console.log(`[Sync server] Token: ${TOKEN}`);
+    }
+});
@@ -10,4 +10,8 @@ export default defineConfig({
   build: {
     outDir: 'dist',
   },
+  // The database worker is started as a module worker
+  worker: {
+    format: 'es',
+  },
 })